@@ -0,0 +1,93 @@
+// src/lib/actions/billing.ts
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import User from "@/models/user";
+import Workspace from "@/models/workspace";
+import { getMembershipFromSubscription } from "@/lib/UserMembership";
+import { getWorkspaceEntitlements } from "@/lib/entitlements";
+import { getOwnerStorage } from "@/lib/storage-usage";
+import { linkStripeCustomer, syncSubscriptionFromStripe } from "@/lib/subscription-sync";
+import { stripe } from "@/lib/stripe";
+
+/**
+ * Everything the billing settings page shows: the user's subscription, their
+ * storage, and which of their workspaces are over the current plan's limits
+ */
+export async function getBillingOverview() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const [user, workspaces, storage] = await Promise.all([
+      User.findOne({ clerkId: userId }).select("subscription"),
+      Workspace.find({ ownerId: userId }).select("name slug ownerId members"),
+      getOwnerStorage(userId),
+    ]);
+
+    const subscription = user?.subscription;
+    const membership = getMembershipFromSubscription(subscription);
+
+    const entitlements = await Promise.all(workspaces.map((workspace) => getWorkspaceEntitlements(workspace)));
+    const readOnlyWorkspaces = workspaces
+      .map((workspace, i) => ({
+        name: workspace.name,
+        slug: workspace.slug,
+        overLimit: entitlements[i].overLimit,
+      }))
+      .filter((workspace) => workspace.overLimit.length > 0);
+
+    return {
+      success: true,
+      billing: {
+        ...membership,
+        hasBillingAccount: !!subscription?.stripeCustomerId,
+        storage,
+        readOnlyWorkspaces,
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Apply a just-completed checkout straight away, so returning from Stripe
+ * doesn't depend on the webhook having arrived first
+ */
+export async function syncCheckoutSession(sessionId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+    if (session.metadata?.userId !== userId) {
+      throw new Error("This checkout belongs to a different user");
+    }
+
+    if (session.customer) {
+      await linkStripeCustomer(userId, typeof session.customer === "string" ? session.customer : session.customer.id);
+    }
+
+    if (session.subscription) {
+      await syncSubscriptionFromStripe(
+        typeof session.subscription === "string" ? session.subscription : session.subscription.id,
+        userId
+      );
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
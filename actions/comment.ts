@@ -0,0 +1,317 @@
+// src/lib/actions/comment.ts
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import Comment, { IAnnotationShape, IComment } from "@/models/comment";
+import Video from "@/models/video";
+import Workspace from "@/models/workspace";
+import User from "@/models/user";
+import { getWorkspaceRole, WorkspaceRole } from "@/lib/workspace-access";
+import { sanitizeAnnotationShapes } from "@/lib/annotations";
+
+const MAX_COMMENT_LENGTH = 2000;
+
+export type CommentInput = {
+  body: string;
+  timecodeIn?: number;
+  timecodeOut?: number;
+  parentId?: string;
+  annotations?: IAnnotationShape[];
+};
+
+/**
+ * Load a video and the current user's role in its workspace, throwing if
+ * they don't belong to it
+ */
+async function getVideoAccess(videoId: string, userId: string) {
+  const video = await Video.findById(videoId);
+
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  const workspace = await Workspace.findById(video.workspaceId);
+  const role = getWorkspaceRole(workspace, userId);
+
+  if (!role) {
+    throw new Error("You don't have access to this video");
+  }
+
+  return { video, role };
+}
+
+// Owners and admins can moderate (delete) anyone's comments
+const canModerate = (role: WorkspaceRole) => role === "owner" || role === "admin";
+
+// Viewers may comment but only contributors can resolve
+const canResolve = (role: WorkspaceRole) => role !== "viewer";
+
+/**
+ * Get all comments on a video, with author details
+ */
+export async function getVideoComments(videoId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { role } = await getVideoAccess(videoId, userId);
+
+    const comments = await Comment.find({ videoId })
+      .sort({ timecodeIn: 1, createdAt: 1 })
+      .lean<IComment[]>();
+
+    const authorIds = [...new Set(comments.map((comment) => comment.authorId))];
+    const authors = await User.find({ clerkId: { $in: authorIds } }).lean();
+
+    const serializedComments = comments.map((comment) => {
+      const author = authors.find((user) => user.clerkId === comment.authorId);
+
+      return {
+        _id: comment._id.toString(),
+        videoId: comment.videoId,
+        body: comment.body,
+        timecodeIn: comment.timecodeIn,
+        timecodeOut: comment.timecodeOut,
+        parentId: comment.parentId,
+        annotations: comment.annotations?.length
+          ? comment.annotations.map((shape) => ({
+              type: shape.type,
+              color: shape.color,
+              points: shape.points.map((point) => ({ x: point.x, y: point.y })),
+              text: shape.text,
+            }))
+          : undefined,
+        carriedFromVersion: comment.carriedFromVersion,
+        resolved: comment.resolved,
+        resolvedAt: comment.resolvedAt ? comment.resolvedAt.toISOString() : undefined,
+        editedAt: comment.editedAt ? comment.editedAt.toISOString() : undefined,
+        createdAt: comment.createdAt.toISOString(),
+        author: {
+          id: comment.authorId,
+          name: author?.name || "Unknown User",
+          profileImage: author?.profileImage || "",
+        },
+      };
+    });
+
+    return {
+      success: true,
+      comments: serializedComments,
+      currentUserId: userId,
+      permissions: {
+        canResolve: canResolve(role),
+        canModerate: canModerate(role),
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message, comments: [] };
+  }
+}
+
+/**
+ * Add a comment (or a reply) to a video. Any workspace member can comment.
+ */
+export async function createComment(videoId: string, data: CommentInput) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video } = await getVideoAccess(videoId, userId);
+
+    const body = data.body?.trim();
+
+    if (!body) {
+      throw new Error("Comment cannot be empty");
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Comments cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    let timecodeIn = data.timecodeIn;
+    let timecodeOut = data.timecodeOut;
+
+    if (data.parentId) {
+      const parent = await Comment.findOne({ _id: data.parentId, videoId });
+
+      if (!parent) {
+        throw new Error("The comment you're replying to no longer exists");
+      }
+
+      if (parent.parentId) {
+        throw new Error("Replies can't be nested");
+      }
+
+      // Replies sit at the same point on the timeline as their thread
+      timecodeIn = parent.timecodeIn;
+      timecodeOut = parent.timecodeOut;
+    } else {
+      const duration = video.duration ?? Infinity;
+
+      if (timecodeIn !== undefined && (timecodeIn < 0 || timecodeIn > duration)) {
+        throw new Error("Timecode is outside the video");
+      }
+
+      if (timecodeOut !== undefined && (timecodeIn === undefined || timecodeOut <= timecodeIn || timecodeOut > duration)) {
+        throw new Error("The end of a range must be after its start and within the video");
+      }
+    }
+
+    // Drawings belong to a single frame of a top-level comment
+    let annotations: IAnnotationShape[] | undefined;
+
+    if (data.annotations?.length) {
+      if (data.parentId || timecodeIn === undefined) {
+        throw new Error("Only comments pinned to a frame can have drawings");
+      }
+
+      annotations = sanitizeAnnotationShapes(data.annotations);
+    }
+
+    const comment = await Comment.create({
+      videoId,
+      workspaceId: video.workspaceId,
+      authorId: userId,
+      body,
+      timecodeIn,
+      timecodeOut,
+      parentId: data.parentId,
+      annotations,
+    });
+
+    return { success: true, commentId: comment._id.toString() };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Edit the body of your own comment
+ */
+export async function updateComment(commentId: string, data: { body: string }) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const comment = await Comment.findById(commentId);
+
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    // Make sure the author still belongs to the workspace
+    await getVideoAccess(comment.videoId, userId);
+
+    if (comment.authorId !== userId) {
+      throw new Error("You can only edit your own comments");
+    }
+
+    const body = data.body?.trim();
+
+    if (!body) {
+      throw new Error("Comment cannot be empty");
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new Error(`Comments cannot be longer than ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    await Comment.findByIdAndUpdate(commentId, { body, editedAt: new Date() });
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Delete a comment and its replies. Authors can delete their own comments;
+ * workspace owners and admins can delete any.
+ */
+export async function deleteComment(commentId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const comment = await Comment.findById(commentId);
+
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    const { role } = await getVideoAccess(comment.videoId, userId);
+
+    if (comment.authorId !== userId && !canModerate(role)) {
+      throw new Error("You don't have permission to delete this comment");
+    }
+
+    await Comment.deleteMany({ $or: [{ _id: commentId }, { parentId: commentId }] });
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Mark a comment thread as resolved or reopen it. Viewers can't resolve.
+ */
+export async function resolveComment(commentId: string, resolved: boolean) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const comment = await Comment.findById(commentId);
+
+    if (!comment) {
+      throw new Error("Comment not found");
+    }
+
+    const { role } = await getVideoAccess(comment.videoId, userId);
+
+    if (!canResolve(role)) {
+      throw new Error("Viewers can't resolve comments");
+    }
+
+    if (comment.parentId) {
+      throw new Error("Only top-level comments can be resolved");
+    }
+
+    await Comment.findByIdAndUpdate(
+      commentId,
+      resolved
+        ? { resolved: true, resolvedById: userId, resolvedAt: new Date() }
+        : { resolved: false, $unset: { resolvedById: "", resolvedAt: "" } }
+    );
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -9,6 +9,7 @@ import Invitation from "@/models/invitation";
 import Workspace, { IWorkspace } from "@/models/workspace";
 import User from "@/models/user";
 import { sendEmail, generateInvitationEmail } from "@/lib/email";
+import { assertCanAddMember, getUpgradeRequired } from "@/lib/entitlements";
 
 // Type for invitation form data
 export type InvitationFormData = {
@@ -124,6 +125,9 @@ export async function sendWorkspaceInvitation(workspaceId: string, data: Invitat
       throw new Error("An invitation has already been sent to this email");
     }
     
+    // Pending invitations hold a seat, so the plan's member limit can't be overshot
+    await assertCanAddMember(workspace, userId, { countPendingInvitations: true });
+    
     // Create a token for the invitation
     const token = nanoid(32);
     
@@ -171,7 +175,7 @@ export async function sendWorkspaceInvitation(workspaceId: string, data: Invitat
     
     return { success: true };
   } catch (error: any) {
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, upgradeRequired: getUpgradeRequired(error) };
   }
 }
 
@@ -334,7 +338,6 @@ export async function acceptInvitation(token: string) {
           clerkId: userId,
           email: invitationEmail,
           name: invitationEmail.split('@')[0], // Create a basic name from email
-          subscriptionPlan: 'free',
         });
         
         console.log('Created minimal user in database during invitation acceptance:', user);
@@ -363,6 +366,9 @@ export async function acceptInvitation(token: string) {
       return { success: true, alreadyMember: true, workspace };
     }
     
+    // The workspace may have filled up since the invitation was sent
+    await assertCanAddMember(workspace, userId, { countPendingInvitations: false });
+    
     // Add user as a member
     await Workspace.findByIdAndUpdate(invitation.workspaceId, {
       $push: {
@@ -380,7 +386,7 @@ export async function acceptInvitation(token: string) {
     return { success: true, workspace };
   } catch (error: any) {
     console.error('Error accepting invitation:', error);
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, upgradeRequired: getUpgradeRequired(error) };
   }
 }
 
@@ -0,0 +1,362 @@
+// src/lib/actions/review.ts
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import connectToDatabase from "@/lib/mongodb";
+import Video, { IReviewEvent, IVideo, ReviewAction, ReviewStatus } from "@/models/video";
+import Workspace, { IWorkspace } from "@/models/workspace";
+import User from "@/models/user";
+import { getWorkspaceRole, WorkspaceRole } from "@/lib/workspace-access";
+import { REVIEW_TRANSITIONS } from "@/lib/review";
+
+const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Load a video, its workspace and the current user's role in it, throwing
+ * if they don't belong to the workspace
+ */
+async function getReviewAccess(videoId: string, userId: string) {
+  const video = await Video.findById(videoId);
+
+  if (!video) {
+    throw new Error("Video not found");
+  }
+
+  const workspace: IWorkspace | null = await Workspace.findById(video.workspaceId);
+  const role = getWorkspaceRole(workspace, userId);
+
+  if (!workspace || !role) {
+    throw new Error("You don't have access to this video");
+  }
+
+  return { video, workspace, role };
+}
+
+// The uploader and workspace owners/admins drive a video through review
+const canManageReview = (video: IVideo, role: WorkspaceRole, userId: string) =>
+  video.uploadedById === userId || role === "owner" || role === "admin";
+
+function cleanNote(note?: string) {
+  const trimmed = note?.trim();
+
+  if (trimmed && trimmed.length > MAX_NOTE_LENGTH) {
+    throw new Error(`Notes cannot be longer than ${MAX_NOTE_LENGTH} characters`);
+  }
+
+  return trimmed || undefined;
+}
+
+/**
+ * Dedupe the requested reviewers and make sure each belongs to the workspace
+ */
+function validateReviewers(workspace: IWorkspace, reviewerIds: string[]) {
+  const uniqueIds = [...new Set(reviewerIds)];
+
+  if (uniqueIds.some((reviewerId) => !getWorkspaceRole(workspace, reviewerId))) {
+    throw new Error("Reviewers must be members of the workspace");
+  }
+
+  const required = workspace.requiredApprovals ?? 1;
+
+  if (uniqueIds.length < required) {
+    throw new Error(
+      `This workspace needs ${required} approval${required === 1 ? "" : "s"}, so assign at least ${required} reviewer${required === 1 ? "" : "s"}`
+    );
+  }
+
+  return uniqueIds;
+}
+
+// Videos uploaded before review existed have neither field stored, only the
+// schema defaults on the loaded document
+const matchStoredOrDefault = <T>(value: T, defaultValue: T) =>
+  value === defaultValue ? { $in: [value, null] } : value;
+
+/**
+ * Apply a review transition, failing if someone else changed the review
+ * since the video was loaded
+ */
+async function applyTransition(
+  video: IVideo,
+  userId: string,
+  action: ReviewAction,
+  toStatus: ReviewStatus,
+  note: string | undefined,
+  update: Partial<Pick<IVideo, "reviewerIds" | "approvedByIds">> = {}
+) {
+  const event: IReviewEvent = {
+    userId,
+    action,
+    fromStatus: video.reviewStatus,
+    toStatus,
+    note,
+    createdAt: new Date(),
+  };
+
+  const updated = await Video.findOneAndUpdate(
+    {
+      _id: video._id,
+      reviewStatus: matchStoredOrDefault(video.reviewStatus, "draft"),
+      reviewVersion: matchStoredOrDefault(video.reviewVersion, 0),
+    },
+    { ...update, reviewStatus: toStatus, $push: { reviewHistory: event }, $inc: { reviewVersion: 1 } },
+    { new: true }
+  );
+
+  if (!updated) {
+    throw new Error("The review was updated by someone else. Refresh and try again.");
+  }
+
+  revalidatePath(`/videos/${video._id.toString()}`);
+
+  return updated;
+}
+
+/**
+ * Get the review state of a video: status, reviewers, history and what the
+ * current user may do
+ */
+export async function getVideoReview(videoId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video, workspace, role } = await getReviewAccess(videoId, userId);
+
+    const history = video.reviewHistory ?? [];
+    const userIds = [...new Set([...video.reviewerIds, ...history.map((event) => event.userId)])];
+    const users = await User.find({ clerkId: { $in: userIds } }).lean();
+
+    const describeUser = (id: string) => {
+      const user = users.find((user) => user.clerkId === id);
+      return {
+        id,
+        name: user?.name || "Unknown User",
+        profileImage: user?.profileImage || "",
+      };
+    };
+
+    return {
+      success: true,
+      review: {
+        status: video.reviewStatus,
+        requiredApprovals: workspace.requiredApprovals ?? 1,
+        reviewers: video.reviewerIds.map((reviewerId) => ({
+          ...describeUser(reviewerId),
+          approved: video.approvedByIds.includes(reviewerId),
+        })),
+        // Newest first
+        history: [...history].reverse().map((event) => ({
+          action: event.action,
+          fromStatus: event.fromStatus,
+          toStatus: event.toStatus,
+          note: event.note,
+          createdAt: event.createdAt.toISOString(),
+          user: describeUser(event.userId),
+        })),
+      },
+      currentUserId: userId,
+      permissions: {
+        canManage: canManageReview(video, role, userId),
+        canReview: video.reviewerIds.includes(userId),
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Send a draft (or a video with requested changes) to reviewers. Starts a
+ * fresh round, so earlier approvals no longer count.
+ */
+export async function submitForReview(videoId: string, data: { reviewerIds: string[]; note?: string }) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video, workspace, role } = await getReviewAccess(videoId, userId);
+
+    if (!canManageReview(video, role, userId)) {
+      throw new Error("Only the uploader or a workspace admin can submit this video for review");
+    }
+
+    if (!REVIEW_TRANSITIONS.submitted.includes(video.reviewStatus)) {
+      throw new Error("This video is already in review or approved");
+    }
+
+    if (video.status !== "ready") {
+      throw new Error("Videos can only be reviewed once processing has finished");
+    }
+
+    const reviewerIds = validateReviewers(workspace, data.reviewerIds ?? []);
+
+    await applyTransition(video, userId, "submitted", "in_review", cleanNote(data.note), {
+      reviewerIds,
+      approvedByIds: [],
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Approve the current review round. The video is approved once enough of
+ * its reviewers have signed off.
+ */
+export async function approveVideo(videoId: string, data: { note?: string } = {}) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video, workspace } = await getReviewAccess(videoId, userId);
+
+    if (!video.reviewerIds.includes(userId)) {
+      throw new Error("Only assigned reviewers can approve this video");
+    }
+
+    if (!REVIEW_TRANSITIONS.approved.includes(video.reviewStatus)) {
+      throw new Error("This video isn't waiting for review");
+    }
+
+    if (video.approvedByIds.includes(userId)) {
+      throw new Error("You've already approved this video");
+    }
+
+    const approvedByIds = [...video.approvedByIds, userId];
+    const toStatus = approvedByIds.length >= (workspace.requiredApprovals ?? 1) ? "approved" : "in_review";
+
+    const updated = await applyTransition(video, userId, "approved", toStatus, cleanNote(data.note), {
+      approvedByIds,
+    });
+
+    return { success: true, status: updated.reviewStatus };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Send the video back to its uploader with a note on what needs to change
+ */
+export async function requestChanges(videoId: string, data: { note: string }) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video } = await getReviewAccess(videoId, userId);
+
+    if (!video.reviewerIds.includes(userId)) {
+      throw new Error("Only assigned reviewers can request changes");
+    }
+
+    if (!REVIEW_TRANSITIONS.changes_requested.includes(video.reviewStatus)) {
+      throw new Error("This video isn't waiting for review");
+    }
+
+    const note = cleanNote(data.note);
+
+    if (!note) {
+      throw new Error("Describe the changes you'd like to see");
+    }
+
+    await applyTransition(video, userId, "changes_requested", "changes_requested", note);
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Move a video back to draft, e.g. to withdraw it from review or to rework
+ * an approved cut
+ */
+export async function reopenReview(videoId: string, data: { note?: string } = {}) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video, role } = await getReviewAccess(videoId, userId);
+
+    if (!canManageReview(video, role, userId)) {
+      throw new Error("Only the uploader or a workspace admin can reopen this review");
+    }
+
+    if (!REVIEW_TRANSITIONS.reopened.includes(video.reviewStatus)) {
+      throw new Error("This video is already a draft");
+    }
+
+    await applyTransition(video, userId, "reopened", "draft", cleanNote(data.note), { approvedByIds: [] });
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Change who reviews a video that's in review. Approvals from removed
+ * reviewers are dropped.
+ */
+export async function updateReviewers(videoId: string, data: { reviewerIds: string[] }) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const { video, workspace, role } = await getReviewAccess(videoId, userId);
+
+    if (!canManageReview(video, role, userId)) {
+      throw new Error("Only the uploader or a workspace admin can change reviewers");
+    }
+
+    if (video.reviewStatus !== "in_review") {
+      throw new Error("Reviewers can only be changed while the video is in review");
+    }
+
+    const reviewerIds = validateReviewers(workspace, data.reviewerIds ?? []);
+    const approvedByIds = video.approvedByIds.filter((approverId) => reviewerIds.includes(approverId));
+
+    await applyTransition(video, userId, "reviewers_updated", "in_review", undefined, {
+      reviewerIds,
+      approvedByIds,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,57 @@
+// src/lib/actions/storage.ts
+'use server';
+
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import Workspace from "@/models/workspace";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { getOwnerStorage, getWorkspaceStorage } from "@/lib/storage-usage";
+
+/**
+ * Storage used by one workspace, alongside the owner's total and quota
+ */
+export async function getWorkspaceStorageUsage(workspaceId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const workspace = await Workspace.findById(workspaceId);
+
+    if (!getWorkspaceRole(workspace, userId)) {
+      throw new Error("You don't have access to this workspace");
+    }
+
+    const [usage, owner] = await Promise.all([
+      getWorkspaceStorage([workspaceId]),
+      getOwnerStorage(workspace.ownerId),
+    ]);
+
+    return { success: true, usage, owner };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Storage used across the workspaces the current user owns
+ */
+export async function getMyStorageUsage() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    const storage = await getOwnerStorage(userId);
+
+    return { success: true, storage };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -7,11 +7,13 @@ import connectToDatabase from "@/lib/mongodb";
 import Video, { IVideo } from "@/models/video";
 import Workspace from "@/models/workspace";
 import User from "@/models/user";
-import { 
-  CompleteMultipartUploadCommand, 
-  AbortMultipartUploadCommand 
-} from "@aws-sdk/client-s3";
-import { s3Client, bucketName } from "@/lib/s3-client";
+import Comment from "@/models/comment";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { enqueueThumbnailJob } from "@/lib/video-jobs";
+import { promoteNewestRemainingVersion } from "@/lib/video-versions";
+import { abortUpload, RESUMABLE_UPLOAD_MAX_AGE_MS } from "@/lib/multipart-upload";
+import { removeVideoStorage } from "@/lib/storage-usage";
+import { removeMuxVideo } from "@/lib/mux";
 import { Types } from "mongoose";
 
 /**
@@ -44,8 +46,8 @@ export async function getWorkspaceVideos(workspaceId: string) {
       throw new Error("You don't have access to this workspace");
     }
     
-    // Get the videos
-    const videos = await Video.find({ workspaceId })
+    // Get the videos, listing only the latest version of each stack
+    const videos = await Video.find({ workspaceId, isLatestVersion: { $ne: false } })
       .sort({ createdAt: -1 })
       .lean();
     
@@ -121,6 +123,15 @@ const video = await Video.findById(videoId).lean();
     // Increment view count (could be more sophisticated with unique views)
     await Video.findByIdAndUpdate(videoId, { $inc: { viewCount: 1 } });
     
+    // Other versions in this video's stack, newest first
+    const versions = video.versionGroupId
+      ? await Video.find({ versionGroupId: video.versionGroupId })
+          .select("versionNumber status isLatestVersion createdAt")
+          .sort({ versionNumber: -1 })
+          .lean()
+      : [];
+    const role = getWorkspaceRole(workspaceData, userId);
+    
     // Convert MongoDB ObjectId to string for all ID fields
     const serializedVideo = {
       ...video,
@@ -142,6 +153,14 @@ const video = await Video.findById(videoId).lean();
         name: (workspace as any).name,
         slug: (workspace as any).slug,
       },
+      versions: versions.map((version) => ({
+        _id: version._id.toString(),
+        versionNumber: version.versionNumber ?? 1,
+        status: version.status,
+        isLatest: version.isLatestVersion !== false,
+        createdAt: version.createdAt.toISOString(),
+      })),
+      canUploadVersion: role !== null && role !== "viewer",
       // Convert dates to ISO strings
       createdAt: video.createdAt ? video.createdAt.toISOString() : undefined,
       updatedAt: video.updatedAt ? video.updatedAt.toISOString() : undefined,
@@ -223,6 +242,76 @@ export async function updateVideo(videoId: string, data: { title?: string; descr
   }
 }
 
+/**
+ * Change a video's thumbnail to one of the generated candidates, or queue
+ * extraction of a frame at a custom timestamp
+ */
+export async function updateVideoThumbnail(
+  videoId: string,
+  selection: { candidateIndex: number } | { timestamp: number }
+) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    
+    await connectToDatabase();
+    
+    const video = await Video.findById(videoId);
+    
+    if (!video) {
+      throw new Error("Video not found");
+    }
+    
+    // Same rule as editing: the uploader, workspace owner or an admin
+    const workspace = await Workspace.findById(video.workspaceId);
+    const role = getWorkspaceRole(workspace, userId);
+    
+    if (video.uploadedById !== userId && role !== "owner" && role !== "admin") {
+      throw new Error("You don't have permission to update this video");
+    }
+    
+    if ("candidateIndex" in selection) {
+      const candidate = video.thumbnailCandidates?.[selection.candidateIndex];
+      
+      if (!candidate) {
+        throw new Error("Thumbnail candidate not found");
+      }
+      
+      await Video.findByIdAndUpdate(videoId, {
+        thumbnailKey: candidate.key,
+        $unset: { thumbnailTimestamp: "" },
+      });
+    } else {
+      const { timestamp } = selection;
+      
+      if (!Number.isFinite(timestamp) || timestamp < 0 || (video.duration && timestamp > video.duration)) {
+        throw new Error("Timestamp is outside the video");
+      }
+      
+      if (!video.videoKey) {
+        throw new Error("Video has no source file yet");
+      }
+      
+      // The worker only applies the most recently requested timestamp
+      await Video.findByIdAndUpdate(videoId, { thumbnailTimestamp: timestamp });
+      await enqueueThumbnailJob(videoId, timestamp);
+    }
+    
+    if (workspace) {
+      revalidatePath(`/workspaces/${workspace.slug}`);
+    }
+    
+    revalidatePath(`/videos/${videoId}`);
+    
+    return { success: true, pending: !("candidateIndex" in selection) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
 /**
  * Delete a video
  */
@@ -264,23 +353,40 @@ export async function deleteVideo(videoId: string) {
     }
     
     // If the video is still uploading, abort the multipart upload
-    if (video.status === 'uploading' && video.uploadId) {
+    if (video.status === 'uploading' && video.s3Key && video.uploadId) {
       try {
-        const abortCommand = new AbortMultipartUploadCommand({
-          Bucket: bucketName,
-          Key: video.s3Key,
-          UploadId: video.uploadId,
-        });
-        
-        await s3Client.send(abortCommand);
+        await abortUpload(video.s3Key, video.uploadId);
       } catch (error) {
         console.error("Error aborting multipart upload:", error);
         // Continue with deletion even if abort fails
       }
     }
     
-    // Delete the video from the database
+    // Free the source, renditions and thumbnails in storage and drop the
+    // video's ledger records, including an UploadThing source's
+    try {
+      await removeVideoStorage(videoId);
+    } catch (error) {
+      console.error("Error deleting stored objects:", error);
+    }
+    
+    // Videos processed by Mux live with Mux and UploadThing instead
+    if (video.muxAssetId || video.uploadthingKey) {
+      try {
+        await removeMuxVideo(video);
+      } catch (error) {
+        console.error("Error deleting Mux asset:", error);
+      }
+    }
+    
+    // Delete the video and its comments from the database
     await Video.findByIdAndDelete(videoId);
+    await Comment.deleteMany({ videoId });
+    
+    // Keep the stack listed if this was its latest version
+    if (video.versionGroupId && video.isLatestVersion !== false) {
+      await promoteNewestRemainingVersion(video.versionGroupId);
+    }
     
     // Get the workspace for revalidation
     const workspace = await Workspace.findById(video.workspaceId);
@@ -301,7 +407,7 @@ export async function deleteVideo(videoId: string) {
 export async function updateMultipartUploadParts(
   videoId: string, 
   uploadId: string, 
-  part: { ETag: string, PartNumber: number }
+  part: { ETag: string, PartNumber: number, Size?: number, ChecksumSHA256?: string }
 ) {
   try {
     console.log(`Updating part ${part.PartNumber} for video ${videoId}`);
@@ -328,12 +434,19 @@ export async function updateMultipartUploadParts(
       throw new Error("Video not found or unauthorized");
     }
     
-    console.log(`Found video document. Adding part ${part.PartNumber} to chunkParts`);
+    console.log(`Found video document. Recording part ${part.PartNumber} in chunkParts`);
     
-    // Add the part to the video
-    await Video.findByIdAndUpdate(videoId, {
-      $push: { chunkParts: part }
-    });
+    // A re-uploaded part replaces the one recorded before
+    const replaced = await Video.updateOne(
+      { _id: videoId, "chunkParts.PartNumber": part.PartNumber },
+      { $set: { "chunkParts.$": part } }
+    );
+    
+    if (replaced.matchedCount === 0) {
+      await Video.findByIdAndUpdate(videoId, {
+        $push: { chunkParts: part }
+      });
+    }
     
     console.log(`Part ${part.PartNumber} added successfully`);
     
@@ -342,4 +455,89 @@ export async function updateMultipartUploadParts(
     console.error("Error updating multipart parts:", error);
     return { success: false, error: (error as Error).message };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Find the current user's unfinished upload of the same file, if there's
+ * one recent enough to resume
+ */
+export async function findResumableUpload(workspaceId: string, fileFingerprint: string) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    
+    await connectToDatabase();
+    
+    const video = await Video.findOne({
+      workspaceId,
+      uploadedById: userId,
+      fileFingerprint,
+      status: "uploading",
+      createdAt: { $gte: new Date(Date.now() - RESUMABLE_UPLOAD_MAX_AGE_MS) },
+    }).sort({ createdAt: -1 });
+    
+    if (!video) {
+      return { success: true, upload: null };
+    }
+    
+    return {
+      success: true,
+      upload: {
+        videoId: video._id.toString(),
+        uploadId: video.uploadId,
+        key: video.s3Key,
+        title: video.title,
+        chunkSize: video.chunkSize,
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message, upload: null };
+  }
+}
+
+/**
+ * Find a video in the workspace with the same file contents, so the uploader
+ * can open it instead of uploading the file again
+ */
+export async function findDuplicateVideo(workspaceId: string, checksumSHA256: string) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    
+    await connectToDatabase();
+    
+    const workspace = await Workspace.findById(workspaceId);
+    
+    if (!getWorkspaceRole(workspace, userId)) {
+      throw new Error("You don't have access to this workspace");
+    }
+    
+    const video = await Video.findOne({
+      workspaceId,
+      checksumSHA256,
+      status: { $in: ["processing", "ready"] },
+    }).sort({ createdAt: -1 });
+    
+    if (!video) {
+      return { success: true, duplicate: null };
+    }
+    
+    return {
+      success: true,
+      duplicate: {
+        videoId: video._id.toString(),
+        title: video.title,
+        versionNumber: video.versionNumber,
+        createdAt: video.createdAt.toISOString(),
+      },
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message, duplicate: null };
+  }
+}
@@ -7,7 +7,15 @@ import { redirect } from "next/navigation";
 import connectToDatabase from "@/lib/mongodb";
 import Workspace, { IWorkspace } from "@/models/workspace";
 import User from "@/models/user";
+import Video from "@/models/video";
+import Comment from "@/models/comment";
 import { generateSlug } from "@/lib/utils";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { MAX_REQUIRED_APPROVALS } from "@/lib/review";
+import { getAvailableTranscoders, isTranscoderName, TranscoderName } from "@/lib/transcoder";
+import { removeVideoStorage } from "@/lib/storage-usage";
+import { removeMuxVideo } from "@/lib/mux";
+import { assertCanCreateWorkspace, getUpgradeRequired, getWorkspaceEntitlements, readOnlyMessage } from "@/lib/entitlements";
 
 // Type for workspace form data
 export type WorkspaceFormData = {
@@ -28,6 +36,8 @@ export async function createWorkspace(data: WorkspaceFormData) {
     
     await connectToDatabase();
     
+    await assertCanCreateWorkspace(userId);
+    
     // Generate a slug from the name
     const slug = generateSlug(data.name);
     
@@ -57,7 +67,7 @@ export async function createWorkspace(data: WorkspaceFormData) {
     
     return { success: true, workspaceId: workspace._id };
   } catch (error: any) {
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, upgradeRequired: getUpgradeRequired(error) };
   }
 }
 
@@ -173,7 +183,107 @@ export async function updateWorkspace(workspaceId: string, data: WorkspaceFormDa
   }
 }
 
+/**
+ * Set how many reviewer approvals a video needs in this workspace
+ */
+export async function updateRequiredApprovals(workspaceId: string, requiredApprovals: number) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const workspace = await Workspace.findById(workspaceId);
+    const role = getWorkspaceRole(workspace, userId);
 
+    if (role !== "owner" && role !== "admin") {
+      throw new Error("You don't have permission to update this workspace");
+    }
+
+    if (!Number.isInteger(requiredApprovals) || requiredApprovals < 1 || requiredApprovals > MAX_REQUIRED_APPROVALS) {
+      throw new Error(`Required approvals must be between 1 and ${MAX_REQUIRED_APPROVALS}`);
+    }
+
+    await Workspace.findByIdAndUpdate(workspaceId, { requiredApprovals });
+
+    revalidatePath(`/workspaces/${workspace.slug}`);
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Choose the transcoder for new uploads to this workspace, or null to use
+ * the server's default
+ */
+export async function updateWorkspaceTranscoder(workspaceId: string, transcoder: TranscoderName | null) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const workspace = await Workspace.findById(workspaceId);
+    const role = getWorkspaceRole(workspace, userId);
+
+    if (role !== "owner" && role !== "admin") {
+      throw new Error("You don't have permission to update this workspace");
+    }
+
+    if (transcoder !== null && !isTranscoderName(transcoder)) {
+      throw new Error("Unknown transcoder");
+    }
+
+    if (transcoder !== null && !(await getAvailableTranscoders(workspace)).includes(transcoder)) {
+      throw new Error("That transcoder isn't available for this workspace");
+    }
+
+    await Workspace.findByIdAndUpdate(
+      workspaceId,
+      transcoder ? { transcoder } : { $unset: { transcoder: "" } }
+    );
+
+    revalidatePath(`/workspaces/${workspace.slug}`);
+
+    return { success: true };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * The transcoders the current user may choose for a workspace
+ */
+export async function getWorkspaceTranscoderOptions(workspaceId: string) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+
+    await connectToDatabase();
+
+    const workspace = await Workspace.findById(workspaceId);
+    const role = getWorkspaceRole(workspace, userId);
+
+    if (!workspace || (role !== "owner" && role !== "admin")) {
+      throw new Error("You don't have permission to update this workspace");
+    }
+
+    return { success: true, transcoders: await getAvailableTranscoders(workspace) };
+  } catch (error: unknown) {
+    return { success: false, error: error instanceof Error ? error.message : "Something went wrong" };
+  }
+}
 
 /**
  * Delete a workspace
@@ -203,7 +313,22 @@ export async function deleteWorkspace(workspaceId: string) {
     // Delete the workspace
     await Workspace.findByIdAndDelete(workspaceId);
     
-    // TODO: Delete associated videos and comments
+    // Free what the workspace's videos stored in S3, or with Mux
+    const videos = await Video.find({ workspaceId }).select("_id muxAssetId uploadthingKey");
+    for (const video of videos) {
+      try {
+        await removeVideoStorage(video._id.toString());
+        if (video.muxAssetId || video.uploadthingKey) {
+          await removeMuxVideo(video);
+        }
+      } catch (error) {
+        console.error(`Error deleting stored objects for video ${video._id}:`, error);
+      }
+    }
+    
+    // Delete associated videos and comments
+    await Comment.deleteMany({ workspaceId });
+    await Video.deleteMany({ workspaceId });
     
     revalidatePath("/workspaces");
     
@@ -403,4 +528,39 @@ export async function leaveWorkspace(workspaceId: string) {
   } catch (error: any) {
     return { success: false, error: error.message };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Get a workspace's plan limits and how much of each it's using
+ */
+export async function getWorkspaceLimits(workspaceId: string) {
+  try {
+    const { userId } = await auth();
+    
+    if (!userId) {
+      throw new Error("Unauthorized");
+    }
+    
+    await connectToDatabase();
+    
+    const workspace = await Workspace.findById(workspaceId);
+    
+    if (!getWorkspaceRole(workspace, userId)) {
+      throw new Error("You don't have access to this workspace");
+    }
+    
+    const entitlements = await getWorkspaceEntitlements(workspace);
+    const isOwner = workspace.ownerId === userId;
+    
+    return {
+      success: true,
+      entitlements,
+      isOwner,
+      readOnlyMessage: entitlements.isReadOnly
+        ? readOnlyMessage(entitlements.overLimit, entitlements.planName, isOwner)
+        : undefined,
+    };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -1,8 +1,41 @@
-export default function DashboardPage() {
+import { getMyStorageUsage } from "@/actions/storage";
+import { StorageUsageMeter } from "@/components/StorageUsageMeter";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export const dynamic = "force-dynamic";
+
+export default async function DashboardPage() {
+  const { storage } = await getMyStorageUsage();
+
   return (
     <div>
       <h1 className="text-3xl font-bold mb-6">Dashboard</h1>
       <p>Welcome to your VideoCollab dashboard!</p>
+
+      {storage && (
+        <Card className="mt-6 max-w-xl">
+          <CardHeader>
+            <CardTitle>Storage</CardTitle>
+            <CardDescription>
+              Across the workspaces you own, on the {storage.planName} plan
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <StorageUsageMeter
+              usedBytes={storage.usedBytes}
+              quotaBytes={storage.quotaBytes}
+              reservedBytes={storage.reservedBytes}
+              byKind={storage.byKind}
+            />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
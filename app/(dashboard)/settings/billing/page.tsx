@@ -0,0 +1,152 @@
+// src/app/(dashboard)/settings/billing/page.tsx
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { getBillingOverview, syncCheckoutSession } from "@/actions/billing";
+import { CheckoutButton } from "@/components/checkout-button";
+import { ManageBillingButton } from "@/components/manage-billing-button";
+import { StorageUsageMeter } from "@/components/StorageUsageMeter";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PLANS } from "@/lib/stripe";
+import { formatDate } from "@/lib/utils";
+
+interface BillingPageProps {
+  searchParams: Promise<{ session_id?: string }>;
+}
+
+export const dynamic = "force-dynamic";
+
+export default async function BillingPage({ searchParams }: BillingPageProps) {
+  const { session_id: sessionId } = await searchParams;
+
+  // Coming back from Checkout: pick up the new subscription right away
+  if (sessionId) {
+    await syncCheckoutSession(sessionId);
+  }
+
+  const { billing, error } = await getBillingOverview();
+
+  if (!billing) {
+    return <p className="text-destructive">{error || "Couldn't load billing details"}</p>;
+  }
+
+  const plan = billing.isPaidMember ? PLANS.PRO : PLANS.FREE;
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Billing</h1>
+        <p className="text-muted-foreground mt-1">Your plan, payment details and invoices</p>
+      </div>
+
+      {billing.status === "past_due" && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Payment failed</AlertTitle>
+          <AlertDescription>
+            We couldn&apos;t charge your card for Pro. Update your payment method to keep your plan;
+            Stripe will retry the payment in the meantime.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {billing.readOnlyWorkspaces.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Some workspaces are read-only</AlertTitle>
+          <AlertDescription>
+            <p>
+              These workspaces have more than the {plan.name} plan allows. Nothing has been deleted, but they
+              won&apos;t take new uploads until they&apos;re back under the limits or you upgrade.
+            </p>
+            <ul className="mt-2 list-disc pl-5">
+              {billing.readOnlyWorkspaces.map((workspace) => (
+                <li key={workspace.slug}>
+                  <Link href={`/workspaces/${workspace.slug}`} className="underline">
+                    {workspace.name}
+                  </Link>{" "}
+                  (over on {workspace.overLimit.join(", ")})
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {plan.name} plan
+            {billing.status === "trialing" && <Badge variant="secondary">Trial</Badge>}
+            {billing.cancelAtPeriodEnd && billing.isPaidMember && <Badge variant="outline">Cancelling</Badge>}
+          </CardTitle>
+          <CardDescription>{plan.description}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {billing.isPaidMember && billing.expiresAt && (
+            <p>
+              {billing.status === "trialing"
+                ? `Your trial ends on ${formatDate(billing.expiresAt)}.`
+                : billing.cancelAtPeriodEnd
+                  ? `Pro ends on ${formatDate(billing.expiresAt)}, after which you'll move to the Free plan.`
+                  : `Renews on ${formatDate(billing.expiresAt)} at $${PLANS.PRO.price}/${PLANS.PRO.interval}.`}
+            </p>
+          )}
+          {!billing.isPaidMember && (
+            <p className="text-muted-foreground">
+              Downgrading never deletes anything. Workspaces over the Free limits become read-only until
+              you make room or upgrade again.
+            </p>
+          )}
+          <ul className="list-disc pl-5 text-muted-foreground">
+            {plan.features.map((feature) => (
+              <li key={feature}>{feature}</li>
+            ))}
+          </ul>
+        </CardContent>
+        <CardFooter className="flex flex-wrap gap-2">
+          {billing.isPaidMember ? (
+            <>
+              <ManageBillingButton />
+              {!billing.cancelAtPeriodEnd && (
+                <ManageBillingButton flow="cancel" label="Cancel subscription" variant="outline" />
+              )}
+            </>
+          ) : (
+            <>
+              <div className="w-48">
+                <CheckoutButton plan="PRO" />
+              </div>
+              {billing.hasBillingAccount && (
+                <ManageBillingButton label="View invoices" variant="outline" />
+              )}
+            </>
+          )}
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Storage</CardTitle>
+          <CardDescription>Across the workspaces you own</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <StorageUsageMeter
+            usedBytes={billing.storage.usedBytes}
+            quotaBytes={billing.storage.quotaBytes}
+            reservedBytes={billing.storage.reservedBytes}
+            byKind={billing.storage.byKind}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+// src/app/(dashboard)/videos/[id]/compare/page.tsx
+import { notFound } from "next/navigation";
+import { getVideo } from "@/actions/video";
+import { VideoCompare } from "@/components/VideoCompare";
+
+interface ComparePageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ with?: string }>;
+}
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function ComparePage({ params, searchParams }: ComparePageProps) {
+  const { id } = await params;
+  const { with: withId } = await searchParams;
+
+  const { video, success } = await getVideo(id);
+
+  if (!success || !video) {
+    notFound();
+  }
+
+  // Default to the latest version, or the one before it when viewing the latest
+  const versions = video.versions;
+  const latest = versions.find((version) => version.isLatest);
+  const otherId = withId
+    ?? (latest && latest._id !== video._id ? latest._id : versions.find((version) => version._id !== video._id)?._id);
+
+  // Only versions of the same video can be compared
+  if (!otherId || otherId === video._id || !versions.some((version) => version._id === otherId)) {
+    notFound();
+  }
+
+  const { video: other, success: otherSuccess } = await getVideo(otherId);
+
+  if (!otherSuccess || !other) {
+    notFound();
+  }
+
+  return (
+    <div className="container max-w-7xl py-6">
+      <VideoCompare left={video} right={other} versions={versions} />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 // src/app/(dashboard)/workspaces/[slug]/page.tsx
 import { Suspense } from "react";
 import { notFound } from "next/navigation";
-import { getWorkspaceBySlug, getWorkspaceMembers } from "@/actions/workspace";
+import { getWorkspaceBySlug, getWorkspaceMembers, getWorkspaceTranscoderOptions } from "@/actions/workspace";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { formatDate } from "@/lib/utils";
@@ -11,6 +11,7 @@ import { WorkspaceSettings } from "@/components/WorkspaceSettings";
 import { WorkspaceVideos } from "@/components/WorkSpaceVideos";
 import { auth } from "@clerk/nextjs/server";
 import { S3MultipartUploadForm } from "@/components/S3MultipartUploadForm";
+import { getWorkspaceStorageUsage } from "@/actions/storage";
 
 interface WorkspacePageProps {
   params: {
@@ -37,6 +38,9 @@ export default async function WorkspacePage({ params }: WorkspacePageProps) {
   // Get members details
   const { members } = await getWorkspaceMembers(workspace._id.toString());
 
+  const storage = isOwner ? await getWorkspaceStorageUsage(workspace._id.toString()) : null;
+  const transcoderOptions = isOwner ? await getWorkspaceTranscoderOptions(workspace._id.toString()) : null;
+
     // Get current user ID
   const { userId } = await auth();
 
@@ -96,7 +100,11 @@ export default async function WorkspacePage({ params }: WorkspacePageProps) {
         {isOwner && (
           <TabsContent value="settings">
             <Suspense fallback={<SettingsSkeleton />}>
-              <WorkspaceSettings workspace={workspace} />
+              <WorkspaceSettings
+                workspace={workspace}
+                storage={storage?.success ? { usage: storage.usage!, owner: storage.owner! } : undefined}
+                availableTranscoders={transcoderOptions?.transcoders ?? []}
+              />
             </Suspense>
           </TabsContent>
         )}
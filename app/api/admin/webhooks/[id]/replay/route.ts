@@ -0,0 +1,43 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { isPlatformAdmin } from "@/lib/admin";
+import { replayWebhookEvent } from "@/lib/webhook-events";
+
+/**
+ * Run a failed webhook event again from its stored payload
+ */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!isPlatformAdmin(userId)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { id } = await params;
+
+  if (!isValidObjectId(id)) {
+    return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
+  }
+
+  const event = await replayWebhookEvent(id);
+
+  if (!event) {
+    return NextResponse.json(
+      { error: "Event not found, already processed or currently processing" },
+      { status: 409 }
+    );
+  }
+
+  console.log(`Admin ${userId} replayed ${event.provider} event ${event.eventId}: ${event.status}`);
+
+  return NextResponse.json({
+    id: event._id.toString(),
+    status: event.status,
+    attempts: event.attempts,
+    lastError: event.lastError,
+  });
+}
@@ -0,0 +1,35 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { isPlatformAdmin } from "@/lib/admin";
+import { listWebhookEvents } from "@/lib/webhook-events";
+import { WebhookEventStatus, WebhookProvider } from "@/models/webhook-event";
+
+const STATUSES: WebhookEventStatus[] = ["processing", "processed", "failed"];
+const PROVIDERS: WebhookProvider[] = ["stripe", "clerk", "mux"];
+
+/**
+ * List recent webhook events, e.g. `?status=failed` to find ones to replay
+ */
+export async function GET(req: Request) {
+  const { userId } = await auth();
+
+  if (!isPlatformAdmin(userId)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status") as WebhookEventStatus | null;
+  const provider = searchParams.get("provider") as WebhookProvider | null;
+
+  if ((status && !STATUSES.includes(status)) || (provider && !PROVIDERS.includes(provider))) {
+    return NextResponse.json({ error: "Invalid status or provider" }, { status: 400 });
+  }
+
+  const events = await listWebhookEvents({
+    status: status ?? undefined,
+    provider: provider ?? undefined,
+    limit: Number(searchParams.get("limit")) || undefined,
+  });
+
+  return NextResponse.json({ events });
+}
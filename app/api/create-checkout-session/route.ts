@@ -2,6 +2,9 @@ import { auth } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { stripe } from "@/lib/stripe";
 import { PLANS } from "@/lib/stripe";
+import connectToDatabase from "@/lib/mongodb";
+import User from "@/models/user";
+import { getMembershipFromSubscription } from "@/lib/UserMembership";
 
 export async function POST(req: Request) {
   try {
@@ -20,6 +23,20 @@ export async function POST(req: Request) {
       return new NextResponse("Invalid plan", { status: 400 });
     }
     
+    // Returning customers check out under the same Stripe customer so
+    // reconciliation finds all of their subscriptions in one place
+    await connectToDatabase();
+    const user = await User.findOne({ clerkId: userId }).select("subscription");
+    const customerId = user?.subscription?.stripeCustomerId;
+
+    // Plan changes on an existing subscription go through the billing portal
+    if (getMembershipFromSubscription(user?.subscription).isPaidMember) {
+      return NextResponse.json(
+        { message: "You already have a subscription. Manage it from your billing settings." },
+        { status: 400 }
+      );
+    }
+
     // Create Checkout Session
     const session = await stripe.checkout.sessions.create({
       payment_method_types: ["card"],
@@ -30,12 +47,17 @@ export async function POST(req: Request) {
         },
       ],
       mode: "subscription",
-      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard?success=true`,
+      ...(customerId ? { customer: customerId } : {}),
+      success_url: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.NEXT_PUBLIC_APP_URL}/pricing?canceled=true`,
       metadata: {
         userId,
         plan,
       },
+      // Subscription events carry their own metadata, not the session's
+      subscription_data: {
+        metadata: { userId },
+      },
     });
     
     return NextResponse.json({ url: session.url });
@@ -0,0 +1,51 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { stripe } from "@/lib/stripe";
+import connectToDatabase from "@/lib/mongodb";
+import User from "@/models/user";
+
+/**
+ * Open the Stripe customer portal, where users update payment methods, see
+ * invoices, switch plans and cancel. Pass `{ flow: "cancel" }` to go straight
+ * to cancelling the current subscription.
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return new NextResponse("Unauthorized", { status: 401 });
+    }
+
+    const { flow } = await req.json().catch(() => ({}));
+
+    await connectToDatabase();
+    const user = await User.findOne({ clerkId: userId }).select("subscription");
+    const subscription = user?.subscription;
+
+    if (!subscription?.stripeCustomerId) {
+      return NextResponse.json({ message: "No billing account found. Upgrade to Pro first." }, { status: 400 });
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: subscription.stripeCustomerId,
+      return_url: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing`,
+      ...(flow === "cancel" && subscription.stripeSubscriptionId
+        ? {
+            flow_data: {
+              type: "subscription_cancel" as const,
+              subscription_cancel: { subscription: subscription.stripeSubscriptionId },
+            },
+          }
+        : {}),
+    });
+
+    return NextResponse.json({ url: session.url });
+  } catch (error: unknown) {
+    console.error("Error creating portal session:", error);
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : "Failed to create portal session" },
+      { status: 500 }
+    );
+  }
+}
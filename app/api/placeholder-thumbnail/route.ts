@@ -1,20 +1,26 @@
-// src/app/api/videos/[id]/thumbnail/route.ts
+// src/app/api/placeholder-thumbnail/route.ts
 import { NextResponse } from "next/server";
 
+const STATUS_LABELS: Record<string, string> = {
+  uploading: 'Uploading…',
+  processing: 'Processing…',
+  error: 'Processing failed',
+};
 
-
-
-// src/app/api/placeholder-thumbnail/route.ts
-export function GET() {
-  // Generate a simple placeholder thumbnail with a video icon
+export function GET(req: Request) {
+  // Generate a simple placeholder thumbnail with a video icon and the video's status
+  const status = new URL(req.url).searchParams.get('status') || '';
+  const label = STATUS_LABELS[status];
+  const accent = status === 'error' ? '#f87171' : '#94a3b8';
   const width = 1280;
   const height = 720;
   const svg = `
     <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
       <rect width="${width}" height="${height}" fill="#1e293b" />
       <rect x="${width * 0.1}" y="${height * 0.1}" width="${width * 0.8}" height="${height * 0.8}" rx="20" fill="#334155" />
-      <path d="M${width * 0.5 - 50},${height * 0.5 - 40} a10,10 0 0 1 10,-10 h80 a10,10 0 0 1 10,10 v80 a10,10 0 0 1 -10,10 h-80 a10,10 0 0 1 -10,-10 z" fill="#94a3b8" />
+      <path d="M${width * 0.5 - 50},${height * 0.5 - 40} a10,10 0 0 1 10,-10 h80 a10,10 0 0 1 10,10 v80 a10,10 0 0 1 -10,10 h-80 a10,10 0 0 1 -10,-10 z" fill="${accent}" />
       <path d="M${width * 0.5 - 10},${height * 0.5 - 30} l50,40 l-50,40 z" fill="#f8fafc" />
+      ${label ? `<text x="${width * 0.5}" y="${height * 0.5 + 110}" text-anchor="middle" font-family="sans-serif" font-size="40" fill="${accent}">${label}</text>` : ''}
     </svg>
   `;
   
@@ -24,4 +30,4 @@ export function GET() {
       'Cache-Control': 'public, max-age=31536000, immutable',
     },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,139 @@
+// src/app/api/storage/[...key]/route.ts
+import fs from "fs";
+import { Readable } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+import { NextResponse } from "next/server";
+import { getStorageDriverName, StorageNotFoundError } from "@/lib/storage";
+import {
+  getLocalObjectFile,
+  StorageChecksumError,
+  verifyLocalStorageUrl,
+  writeLocalPart,
+} from "@/lib/storage-local";
+
+export const dynamic = "force-dynamic";
+
+type RouteParams = { params: Promise<{ key: string[] }> };
+
+/**
+ * Parse a single "bytes=start-end" range against an object's size
+ */
+function parseRange(header: string, size: number) {
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  // "bytes=-500" is the last 500 bytes
+  const start = match[1] ? Number(match[1]) : Math.max(size - Number(match[2]), 0);
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+async function resolveRequest(req: Request, { params }: RouteParams, method: "GET" | "PUT") {
+  if (getStorageDriverName() !== "local") {
+    return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+  }
+
+  const key = (await params).key.join("/");
+  const searchParams = new URL(req.url).searchParams;
+
+  if (!verifyLocalStorageUrl(method, key, searchParams)) {
+    return { error: NextResponse.json({ error: "Invalid or expired signature" }, { status: 403 }) };
+  }
+
+  return { key, searchParams };
+}
+
+/**
+ * Serves objects for the local storage driver through the URLs its
+ * getDownloadUrl signs, with range support so players can seek
+ */
+export async function GET(req: Request, context: RouteParams) {
+  try {
+    const { key, error } = await resolveRequest(req, context, "GET");
+    if (error) return error;
+
+    const object = await getLocalObjectFile(key);
+
+    if (!object) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": object.contentType,
+      "Accept-Ranges": "bytes",
+      "Cache-Control": "private, max-age=300",
+    };
+
+    const rangeHeader = req.headers.get("range");
+    const range = rangeHeader ? parseRange(rangeHeader, object.size) : null;
+
+    if (rangeHeader && !range) {
+      return new Response(null, {
+        status: 416,
+        headers: { "Content-Range": `bytes */${object.size}` },
+      });
+    }
+
+    const { start, end } = range ?? { start: 0, end: object.size - 1 };
+    const body = object.size === 0
+      ? null
+      : (Readable.toWeb(fs.createReadStream(object.filePath, { start, end })) as ReadableStream);
+
+    return new Response(body, {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        "Content-Length": String(object.size === 0 ? 0 : end - start + 1),
+        ...(range ? { "Content-Range": `bytes ${start}-${end}/${object.size}` } : {}),
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error serving stored object:", error);
+    return NextResponse.json({ error: "Failed to read object" }, { status: 500 });
+  }
+}
+
+/**
+ * Receives multipart upload parts for the local storage driver through the
+ * URLs its getUploadPartUrl signs. Like S3, answers with the part's ETag.
+ */
+export async function PUT(req: Request, context: RouteParams) {
+  try {
+    const { key, searchParams, error } = await resolveRequest(req, context, "PUT");
+    if (error) return error;
+
+    const uploadId = searchParams.get("uploadId") || "";
+    const partNumber = Number(searchParams.get("partNumber"));
+    const checksum = searchParams.get("checksum") || undefined;
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000 || !req.body) {
+      return NextResponse.json({ error: "Invalid part upload" }, { status: 400 });
+    }
+
+    // The checksum was signed as a header the browser must send, as with S3
+    if (checksum && req.headers.get("x-amz-checksum-sha256") !== checksum) {
+      return NextResponse.json({ error: "Missing or different x-amz-checksum-sha256 header" }, { status: 400 });
+    }
+
+    const etag = await writeLocalPart(
+      key,
+      uploadId,
+      partNumber,
+      Readable.fromWeb(req.body as NodeReadableStream),
+      checksum
+    );
+
+    return new Response(null, { status: 200, headers: { ETag: `"${etag}"` } });
+  } catch (error: unknown) {
+    if (error instanceof StorageNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof StorageChecksumError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error("Error storing upload part:", error);
+    return NextResponse.json({ error: "Failed to store part" }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+// src/app/api/transcoder/[id]/callback/route.ts
+import { NextResponse } from "next/server";
+import {
+  applyRemoteTranscoderReport,
+  authorizeRemoteTranscoderRequest,
+  RemoteTranscoderReport,
+} from "@/lib/transcoder-remote";
+
+export const dynamic = "force-dynamic";
+
+const isReport = (body: unknown): body is RemoteTranscoderReport => {
+  const report = body as Partial<Record<string, unknown>> | null;
+
+  switch (report?.status) {
+    case "processing":
+      return typeof (report.progress as { percent?: unknown } | undefined)?.percent === "number";
+    case "ready":
+      return Array.isArray(report.renditions) && report.renditions.length > 0 &&
+        report.renditions.every((rendition) => typeof rendition === "string");
+    case "error":
+      return typeof report.error === "string";
+    default:
+      return false;
+  }
+};
+
+/**
+ * Progress and results from the remote transcoder for its current attempt
+ * at a video. Reports for an earlier attempt are refused.
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: videoId } = await params;
+    const video = await authorizeRemoteTranscoderRequest(videoId, req.headers.get("authorization"));
+
+    if (!video) {
+      return NextResponse.json({ error: "Unknown or superseded transcode" }, { status: 403 });
+    }
+
+    const body: unknown = await req.json().catch(() => null);
+
+    if (!isReport(body)) {
+      return NextResponse.json({ error: "Invalid report" }, { status: 400 });
+    }
+
+    await applyRemoteTranscoderReport(video, body);
+
+    return NextResponse.json({ received: true });
+  } catch (error: unknown) {
+    console.error("Error handling transcoder callback:", error);
+    return NextResponse.json({ error: "Failed to apply report" }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+// src/app/api/transcoder/[id]/output/[...path]/route.ts
+import { NextResponse } from "next/server";
+import { getStorage } from "@/lib/storage";
+import { authorizeRemoteTranscoderRequest, remoteOutputKey } from "@/lib/transcoder-remote";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Receives one output file (playlist, segment, sprite) from the remote
+ * transcoder and stores it in the video's HLS directory
+ */
+export async function PUT(
+  req: Request,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  try {
+    const { id: videoId, path: pathSegments } = await params;
+    const video = await authorizeRemoteTranscoderRequest(videoId, req.headers.get("authorization"));
+
+    if (!video) {
+      return NextResponse.json({ error: "Unknown or superseded transcode" }, { status: 403 });
+    }
+
+    const key = remoteOutputKey(videoId, pathSegments.join("/"));
+
+    if (!key) {
+      return NextResponse.json({ error: "Invalid path" }, { status: 400 });
+    }
+
+    // Buffered, since S3 needs the length up front; output files are segment-sized
+    const body = Buffer.from(await req.arrayBuffer());
+    await getStorage().putObject(key, body, req.headers.get("content-type") || undefined);
+
+    return NextResponse.json({ key });
+  } catch (error: unknown) {
+    console.error("Error storing transcoder output:", error);
+    return NextResponse.json({ error: "Failed to store output" }, { status: 500 });
+  }
+}
@@ -2,16 +2,27 @@
 import { auth } from "@clerk/nextjs/server";
 import { createUploadthing, type FileRouter } from "uploadthing/next";
 import { UploadThingError } from "uploadthing/server";
-import { mux } from "@/lib/mux";
+import { z } from "zod";
+import connectToDatabase from "@/lib/mongodb";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { assertCanUpload, EntitlementError } from "@/lib/entitlements";
+import { getWorkspacePlan } from "@/lib/UserMembership";
+import { isTranscoderAllowed, isTranscoderConfigured } from "@/lib/transcoder";
+import { enqueueTranscodeJob } from "@/lib/video-jobs";
+import { recordVideoStorage } from "@/lib/storage-usage";
+import Video from "@/models/video";
+import Workspace from "@/models/workspace";
 
 const f = createUploadthing();
 
 // FileRouter for your app, can contain multiple FileRoutes
 export const ourFileRouter = {
-  // Define as many FileRoutes as you like, each with a unique routeSlug
+  // Videos uploaded here are stored by UploadThing and always transcoded by
+  // Mux, as an alternative to the multipart upload to storage
   videoUploader: f({ video: { maxFileSize: "512MB", maxFileCount: 1 } })
+    .input(z.object({ workspaceId: z.string() }))
     // Set permissions and file types for this FileRoute
-    .middleware(async ({ req }) => {
+    .middleware(async ({ input, files }) => {
       // Get user from clerk auth
       const { userId } = await auth();
 
@@ -20,30 +31,80 @@ export const ourFileRouter = {
         throw new UploadThingError("Unauthorized");
       }
 
+      await connectToDatabase();
+
+      const workspace = await Workspace.findById(input.workspaceId);
+      const role = getWorkspaceRole(workspace, userId);
+
+      if (!workspace || !role || role === "viewer") {
+        throw new UploadThingError("You don't have permission to upload to this workspace");
+      }
+
+      // Everything uploaded here goes to Mux, so the server and the plan must allow it
+      if (!isTranscoderConfigured("mux")) {
+        throw new UploadThingError({ code: "FORBIDDEN", message: "Uploading through UploadThing isn't available on this server" });
+      }
+      if (!isTranscoderAllowed("mux", workspace, await getWorkspacePlan(workspace.ownerId))) {
+        throw new UploadThingError({ code: "FORBIDDEN", message: "Upgrade to a paid plan to upload through UploadThing" });
+      }
+
+      try {
+        await assertCanUpload(workspace, userId, {
+          fileSize: files.reduce((sum, file) => sum + file.size, 0),
+          isNewVideo: true,
+        });
+      } catch (error) {
+        if (error instanceof EntitlementError) {
+          throw new UploadThingError({ code: "FORBIDDEN", message: error.message });
+        }
+        throw error;
+      }
+
       // Return metadata to be stored with the file
-      return { userId };
+      return { userId, workspaceId: input.workspaceId };
     })
     .onUploadComplete(async ({ metadata, file }) => {
-      // Create a new Mux asset from the uploaded file
+      await connectToDatabase();
+
+      // The video is listed as processing until Mux's webhook says it's ready
+      const video = await Video.create({
+        title: file.name.replace(/\.[^.]+$/, ""),
+        workspaceId: metadata.workspaceId,
+        uploadedById: metadata.userId,
+        fileName: file.name,
+        fileSize: file.size,
+        uploadthingKey: file.key,
+        status: "processing",
+        transcoder: "mux",
+        uploadCompletedAt: new Date(),
+      });
+
+      // The source lives with UploadThing but counts towards the storage quota
       try {
-        const asset = await mux.video.assets.create({
-          inputs: [{ url: file.url }],
-          playback_policy: ["public"],
-        });
+        await recordVideoStorage(video._id.toString());
+      } catch (error) {
+        console.error(`Failed to record storage for video ${video._id}:`, error);
+      }
 
-        // Return URL and other metadata
-        return {
-          uploadedBy: metadata.userId,
-          assetId: asset.id,
-          playbackId: asset.playback_ids?.[0]?.id,
-          status: "processing",
-          url: file.url,
-        };
+      // The worker hands the file to Mux, retrying if Mux is unavailable
+      try {
+        await enqueueTranscodeJob(video._id.toString(), { url: file.ufsUrl }, "mux");
       } catch (error) {
-        console.error("Error creating Mux asset:", error);
+        console.error("Error queueing Mux transcode:", error);
+        await Video.updateOne(
+          { _id: video._id },
+          { status: "error", processingError: "Couldn't start processing this video" }
+        );
         throw new UploadThingError("Failed to process video");
       }
+
+      return {
+        videoId: video._id.toString(),
+        uploadedBy: metadata.userId,
+        status: "processing",
+        url: file.ufsUrl,
+      };
     }),
 } satisfies FileRouter;
 
-export type OurFileRouter = typeof ourFileRouter;
\ No newline at end of file
+export type OurFileRouter = typeof ourFileRouter;
@@ -0,0 +1,16 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { getUserMembership } from "@/lib/UserMembership";
+
+/**
+ * The signed-in user's membership, for client components
+ */
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return NextResponse.json(await getUserMembership(userId));
+}
@@ -0,0 +1,127 @@
+// src/app/api/videos/[id]/events/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import Video from "@/models/video";
+import Workspace from "@/models/workspace";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+
+export const dynamic = "force-dynamic";
+
+const POLL_INTERVAL_MS = 2000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+/**
+ * Server-sent events stream of a video's processing status and progress.
+ * Emits a `progress` event whenever the document changes and closes once
+ * the video is ready or has failed.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id: videoId } = await params;
+
+  await connectToDatabase();
+
+  const video = await Video.findById(videoId).select("workspaceId").lean();
+
+  if (!video) {
+    return NextResponse.json({ error: "Video not found" }, { status: 404 });
+  }
+
+  const workspace = await Workspace.findById(video.workspaceId);
+  if (!getWorkspaceRole(workspace, userId)) {
+    return NextResponse.json({ error: "You don't have access to this video" }, { status: 403 });
+  }
+
+  const encoder = new TextEncoder();
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let keepaliveTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastPayload = "";
+      let closed = false;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(pollTimer);
+        clearInterval(keepaliveTimer);
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const poll = async () => {
+        try {
+          const current = await Video.findById(videoId)
+            .select("status processingProgress processingError hlsKey")
+            .lean();
+
+          if (!current) {
+            send("error", { error: "Video not found" });
+            close();
+            return;
+          }
+
+          const payload = JSON.stringify({
+            status: current.status,
+            progress: current.processingProgress ?? null,
+            error: current.processingError ?? null,
+          });
+
+          if (payload !== lastPayload) {
+            lastPayload = payload;
+            send("progress", JSON.parse(payload));
+          }
+
+          if (current.status === "ready" || current.status === "error") {
+            send("done", { status: current.status });
+            close();
+          }
+        } catch (error) {
+          console.error(`Error polling progress for video ${videoId}:`, error);
+        }
+      };
+
+      // Tell EventSource to wait a few seconds before reconnecting
+      controller.enqueue(encoder.encode(`retry: 5000\n\n`));
+
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL_MS);
+      keepaliveTimer = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(`: keepalive\n\n`));
+      }, KEEPALIVE_INTERVAL_MS);
+
+      req.signal.addEventListener("abort", close);
+    },
+    cancel() {
+      clearInterval(pollTimer);
+      clearInterval(keepaliveTimer);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
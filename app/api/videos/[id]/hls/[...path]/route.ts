@@ -0,0 +1,130 @@
+// src/app/api/videos/[id]/hls/[...path]/route.ts
+import path from "path";
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import Video from "@/models/video";
+import Workspace from "@/models/workspace";
+import { getStorage, StorageNotFoundError } from "@/lib/storage";
+import { getUserMembership } from "@/lib/UserMembership";
+import { getMaxResolution } from "@/lib/mux";
+import { rewriteMediaPlaylist, rewriteThumbnailsVtt } from "@/lib/hls-playlist";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+
+export const dynamic = "force-dynamic";
+
+// Segment URLs only need to outlive one playthrough of the video, since
+// players fetch a VOD media playlist once and then walk its segments
+const BASE_URL_TTL_SECONDS = 5 * 60;
+const MAX_URL_TTL_SECONDS = 4 * 60 * 60;
+
+/**
+ * Authenticated proxy for the HLS output of a video. Media playlists and the
+ * thumbnails track are returned with every segment or sprite URI individually
+ * presigned; any other file is answered with a redirect to a presigned URL.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: videoId, path: pathSegments } = await params;
+
+    // Keep requests inside the video's HLS directory
+    const relativePath = path.posix.normalize(pathSegments.join("/"));
+    if (relativePath.startsWith("..") || path.posix.isAbsolute(relativePath)) {
+      return NextResponse.json({ error: "Invalid path" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const video = await Video.findOne({ _id: videoId, status: "ready" });
+
+    if (!video || !video.hlsKey) {
+      return NextResponse.json({ error: "Video not found or not ready" }, { status: 404 });
+    }
+
+    const workspace = await Workspace.findById(video.workspaceId);
+    if (!getWorkspaceRole(workspace, userId)) {
+      return NextResponse.json({ error: "You don't have access to this video" }, { status: 403 });
+    }
+
+    // Variants the viewer isn't entitled to are left out of their master
+    // playlist; refuse them here too so the URL can't simply be guessed
+    const rung = relativePath.match(/^(\d+)p\//);
+    if (rung) {
+      const { tier } = await getUserMembership(userId);
+      const maxResolution = getMaxResolution(tier);
+
+      if (Number(rung[1]) > parseInt(maxResolution, 10)) {
+        return NextResponse.json(
+          { error: `Your plan is limited to ${maxResolution} playback` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const expiresIn = Math.min(
+      MAX_URL_TTL_SECONDS,
+      BASE_URL_TTL_SECONDS + Math.ceil(video.duration || 0)
+    );
+    const storage = getStorage();
+    const presign = (key: string) => storage.getDownloadUrl(key, expiresIn);
+
+    const objectKey = `${video.hlsKey}/${relativePath}`;
+
+    const isPlaylist = relativePath.endsWith(".m3u8");
+    const isThumbnailsTrack = relativePath.endsWith(".vtt");
+
+    if (!isPlaylist && !isThumbnailsTrack) {
+      return NextResponse.redirect(await presign(objectKey), 302);
+    }
+
+    const fileContents = await storage.getObjectText(objectKey);
+
+    if (!fileContents) {
+      return NextResponse.json({ error: "File is empty" }, { status: 404 });
+    }
+
+    // URIs inside are relative to the file's own directory
+    const fileDir = path.posix.dirname(relativePath);
+    const resolveUri = (uri: string) => {
+      if (/^https?:\/\//.test(uri)) return uri;
+      return presign(`${video.hlsKey}/${path.posix.join(fileDir, uri)}`);
+    };
+
+    if (isThumbnailsTrack) {
+      return new Response(await rewriteThumbnailsVtt(fileContents, resolveUri), {
+        headers: {
+          "Content-Type": "text/vtt",
+          "Cache-Control": "private, no-store",
+        },
+      });
+    }
+
+    const playlist = await rewriteMediaPlaylist(fileContents, resolveUri);
+
+    return new Response(playlist, {
+      headers: {
+        "Content-Type": "application/vnd.apple.mpegurl",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof StorageNotFoundError) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+
+    console.error("Error serving HLS file:", error);
+    return NextResponse.json(
+      { error: "Failed to load playlist" },
+      { status: 500 }
+    );
+  }
+}
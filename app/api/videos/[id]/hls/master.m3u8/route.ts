@@ -0,0 +1,75 @@
+// src/app/api/videos/[id]/hls/master.m3u8/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import Video from "@/models/video";
+import Workspace from "@/models/workspace";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { getStorage } from "@/lib/storage";
+import { getUserMembership } from "@/lib/UserMembership";
+import { getMaxResolution } from "@/lib/mux";
+import { rewriteMasterPlaylist } from "@/lib/hls-playlist";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Master playlist tailored to the viewer: variants above their plan's maximum
+ * resolution are removed before the playlist leaves the server, and the
+ * remaining variant playlists point at the authenticated HLS proxy.
+ */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: videoId } = await params;
+
+    await connectToDatabase();
+
+    const video = await Video.findOne({ _id: videoId, status: "ready" });
+
+    if (!video || !video.hlsKey) {
+      return NextResponse.json({ error: "Video not found or not ready" }, { status: 404 });
+    }
+
+    const workspace = await Workspace.findById(video.workspaceId);
+    if (!getWorkspaceRole(workspace, userId)) {
+      return NextResponse.json({ error: "You don't have access to this video" }, { status: 403 });
+    }
+
+    const { tier } = await getUserMembership(userId);
+    const maxResolution = getMaxResolution(tier);
+
+    const masterPlaylist = await getStorage().getObjectText(`${video.hlsKey}/master.m3u8`);
+
+    if (!masterPlaylist) {
+      return NextResponse.json({ error: "Master playlist is empty" }, { status: 404 });
+    }
+
+    // Variant playlists go through the HLS proxy, which presigns their segments
+    const playlist = await rewriteMasterPlaylist(masterPlaylist, {
+      maxRung: parseInt(maxResolution, 10),
+      resolveUri: (uri) => `/api/videos/${videoId}/hls/${uri}`,
+    });
+
+    return new Response(playlist, {
+      headers: {
+        "Content-Type": "application/vnd.apple.mpegurl",
+        // Contents depend on the viewer's plan, so never share it between users
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error serving master playlist:", error);
+    return NextResponse.json(
+      { error: "Failed to load playlist" },
+      { status: 500 }
+    );
+  }
+}
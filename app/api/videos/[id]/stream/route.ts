@@ -1,12 +1,13 @@
 // src/app/api/videos/[id]/stream/route.ts
 import { NextResponse } from "next/server";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { auth } from "@clerk/nextjs/server";
 import connectToDatabase from "@/lib/mongodb";
 import { Video } from "@/models/video";
-import { s3Client, bucketName } from "@/lib/s3-client";
-import { getUserMembership } from "@/lib/UserMembership"; // You'll need to create this
+import Workspace from "@/models/workspace";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { getStorage } from "@/lib/storage";
+import { getUserMembership } from "@/lib/UserMembership";
+import { getMaxResolution, getMuxPlaybackUrl, getSignedMuxPlaybackUrl } from "@/lib/mux";
 
 export async function GET(req: Request, { params }: { params: { id: string } }) {
   try {
@@ -30,43 +31,50 @@ export async function GET(req: Request, { params }: { params: { id: string } })
       return NextResponse.json({ error: "Video not found or not ready" }, { status: 404 });
     }
 
+    const workspace = await Workspace.findById(video.workspaceId);
+    if (!getWorkspaceRole(workspace, userId)) {
+      return NextResponse.json({ error: "You don't have access to this video" }, { status: 403 });
+    }
+
     // Increment view count
     await Video.findByIdAndUpdate(videoId, { $inc: { viewCount: 1 } });
 
     // Get user's membership status
-    const { isPaidMember } = await getUserMembership(userId);
+    const { isPaidMember, tier } = await getUserMembership(userId);
 
     // Determine if we should use HLS or direct video
     let streamUrl;
-    let isHLS = true;
-
     if (video.hlsKey) {
-      // Generate a presigned URL for the master playlist
-      const masterPlaylistKey = `${video.hlsKey}/master.m3u8`;
-      
-      const command = new GetObjectCommand({
-        Bucket: bucketName,
-        Key: masterPlaylistKey,
-      });
-      
-      streamUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
-      
-      // Record the user's quality permission in the response
-      const userAllowedHD = isPaidMember;
+      // The master playlist is served by the app so variants above the
+      // viewer's plan are stripped server-side rather than hidden in the player
+      streamUrl = `/api/videos/${videoId}/hls/master.m3u8`;
       
       return NextResponse.json({
         url: streamUrl,
         isHLS: true,
-        allowedQuality: userAllowedHD ? "1080p" : "720p"
+        isPaidMember,
+        allowedQuality: getMaxResolution(tier),
+        previewThumbnailsUrl: video.previewThumbnailsKey
+          ? `/api/videos/${videoId}/hls/thumbnails.vtt`
+          : null
+      });
+    } else if (video.muxPlaybackId) {
+      // Mux streams HLS itself. A signed playback token carries the plan's
+      // max_resolution as a claim; on a public playback ID it's only a hint
+      // the client can drop.
+      const maxResolution = getMaxResolution(tier);
+      return NextResponse.json({
+        url: video.muxPlaybackPolicy === "signed"
+          ? await getSignedMuxPlaybackUrl(video.muxPlaybackId, maxResolution)
+          : getMuxPlaybackUrl(video.muxPlaybackId, maxResolution),
+        isHLS: true,
+        isPaidMember,
+        allowedQuality: getMaxResolution(tier),
+        previewThumbnailsUrl: null
       });
     } else if (video.videoKey) {
       // Fallback to direct video if HLS is not available
-      const command = new GetObjectCommand({
-        Bucket: bucketName,
-        Key: video.videoKey,
-      });
-      
-      streamUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
+      streamUrl = await getStorage().getDownloadUrl(video.videoKey, 3600);
       
       return NextResponse.json({
         url: streamUrl,
@@ -3,12 +3,21 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import connectToDatabase from "@/lib/mongodb";
 import Video from "@/models/video";
-import { GetObjectCommand } from "@aws-sdk/client-s3";
-import { s3Client, bucketName } from "@/lib/s3-client";
+import Workspace from "@/models/workspace";
+import { getStorage } from "@/lib/storage";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { getSignedMuxThumbnailUrl } from "@/lib/mux";
 
+const THUMBNAIL_URL_TTL_SECONDS = 3600;
+
+/**
+ * Redirects to the video's poster frame, or to one of its thumbnail
+ * candidates with `?candidate=N`. Videos without a poster get a placeholder
+ * that reflects their status.
+ */
 export async function GET(
   req: Request,
-  { params }: { params: { id: string } }
+  { params }: { params: Promise<{ id: string }> }
 ) {
   try {
     const { userId } = await auth();
@@ -17,8 +26,7 @@ export async function GET(
       return new NextResponse('Unauthorized', { status: 401 });
     }
     
-    const param = await params;
-    const videoId = param.id;
+    const { id: videoId } = await params;
     
     await connectToDatabase();
     
@@ -29,45 +37,50 @@ export async function GET(
       return new NextResponse('Video not found', { status: 404 });
     }
     
-    // Check if the video has a thumbnail or is ready
-    if (video.thumbnailUrl) {
-      // Redirect to the existing thumbnail
-      return NextResponse.redirect(video.thumbnailUrl);
+    const workspace = await Workspace.findById(video.workspaceId);
+    if (!getWorkspaceRole(workspace, userId)) {
+      return new NextResponse('Forbidden', { status: 403 });
     }
     
-    // If the video is ready but has no thumbnail, try to generate one
-    if (video.status === 'ready' && video.hlsKey) {
-      try {
-        // For a real implementation, you should generate an actual thumbnail
-        // Here we'll just redirect to a generic thumbnail
-        return NextResponse.redirect(new URL('/api/placeholder-thumbnail', req.url));
-      } catch (error) {
-        console.error('Error generating thumbnail:', error);
+    const candidateParam = new URL(req.url).searchParams.get('candidate');
+    let thumbnailKey = video.thumbnailKey;
+    
+    if (candidateParam !== null) {
+      thumbnailKey = video.thumbnailCandidates?.[Number(candidateParam)]?.key;
+      
+      if (!thumbnailKey) {
+        return new NextResponse('Thumbnail candidate not found', { status: 404 });
       }
     }
     
-    // Return a placeholder based on status
-    let placeholderPath;
+    if (thumbnailKey) {
+      const signedUrl = await getStorage().getDownloadUrl(thumbnailKey, THUMBNAIL_URL_TTL_SECONDS);
+      
+      const response = NextResponse.redirect(signedUrl);
+      // Let the browser reuse the redirect for a while, well within the URL's lifetime
+      response.headers.set('Cache-Control', 'private, max-age=300');
+      return response;
+    }
     
-    switch (video.status) {
-      case 'uploading':
-        placeholderPath = '/images/uploading-placeholder.png';
-        break;
-      case 'processing':
-        placeholderPath = '/images/processing-placeholder.png';
-        break;
-      case 'error':
-        placeholderPath = '/images/error-placeholder.png';
-        break;
-      default:
-        placeholderPath = '/images/video-placeholder.png';
+    // Signed Mux playback IDs need a token for their thumbnail too
+    if (video.muxPlaybackId && video.muxPlaybackPolicy === 'signed') {
+      const response = NextResponse.redirect(await getSignedMuxThumbnailUrl(video.muxPlaybackId));
+      response.headers.set('Cache-Control', 'private, max-age=300');
+      return response;
     }
     
-    // Return a redirect to the placeholder image
-    return NextResponse.redirect(new URL(placeholderPath, req.url));
+    // Mux-hosted videos with a public playback ID carry a public thumbnail URL
+    if (video.thumbnailUrl) {
+      return NextResponse.redirect(video.thumbnailUrl);
+    }
+    
+    // Return a placeholder that reflects the video's status
+    const placeholderUrl = new URL('/api/placeholder-thumbnail', req.url);
+    placeholderUrl.searchParams.set('status', video.status);
+    
+    return NextResponse.redirect(placeholderUrl);
   } catch (error) {
     console.error('Error getting video thumbnail:', error);
     return new NextResponse('Internal Server Error', { status: 500 });
   }
 }
-
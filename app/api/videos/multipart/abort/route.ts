@@ -0,0 +1,52 @@
+// src/app/api/videos/multipart/abort/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import { Video } from "@/models/video";
+import { abortUpload } from "@/lib/multipart-upload";
+
+/**
+ * Cancel an unfinished upload: S3 drops the stored parts and the placeholder
+ * Video is removed
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { videoId } = await req.json();
+
+    if (!videoId) {
+      return NextResponse.json({ error: "videoId is required" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const video = await Video.findOne({ _id: videoId, uploadedById: userId });
+
+    if (!video) {
+      return NextResponse.json({ error: "Upload not found or unauthorized" }, { status: 404 });
+    }
+
+    // Videos uploaded through UploadThing never had an S3 upload
+    if (video.status !== "uploading" || !video.s3Key || !video.uploadId) {
+      return NextResponse.json({ error: "This upload has already finished" }, { status: 409 });
+    }
+
+    await abortUpload(video.s3Key, video.uploadId);
+
+    // Only remove the Video if a concurrent complete hasn't moved it on
+    await Video.deleteOne({ _id: videoId, status: "uploading" });
+
+    return NextResponse.json({ success: true, videoId });
+  } catch (error) {
+    console.error("Error aborting multipart upload:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to abort upload" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,19 @@
 // src/app/api/videos/multipart/complete/route.ts
 import { NextResponse } from "next/server";
-import {
-  CopyObjectCommand,
-  DeleteObjectCommand,
-  CompleteMultipartUploadCommand
-} from "@aws-sdk/client-s3";
 import { auth } from "@clerk/nextjs/server";
 import connectToDatabase from "@/lib/mongodb";
 import { Video } from "@/models/video";
-import { s3Client, bucketName } from "@/lib/s3-client";
-import { generateHLSContent } from "@/lib/video-processor";
+import { getStorage } from "@/lib/storage";
+import { enqueueTranscodeJob } from "@/lib/video-jobs";
+import { promoteVersion } from "@/lib/video-versions";
+import { findPartMismatches, listUploadedParts } from "@/lib/multipart-upload";
+import { recordVideoStorage } from "@/lib/storage-usage";
 
 // Define the types for multipart upload parts
 interface UploadPart {
   ETag: string;
   PartNumber: number;
+  ChecksumSHA256?: string;
 }
 
 export async function POST(req: Request) {
@@ -55,107 +54,139 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Video not found" }, { status: 404 });
     }
 
-    // First, complete the multipart upload to finalize the object in S3
+    const storage = getStorage();
+
+    // Don't take the client's word for which parts arrived: check its list
+    // against what storage received before stitching them together
+    console.log("🔎 Verifying uploaded parts against storage...");
+    const uploadedParts = await listUploadedParts(key, uploadId);
+    const mismatches = findPartMismatches(parts, uploadedParts);
+    
+    if (mismatches.length > 0) {
+      console.log("❌ Part verification failed:", mismatches);
+      // The upload stays open, so the client can resume and resend these parts
+      return NextResponse.json(
+        { error: "Uploaded parts failed verification", details: mismatches },
+        { status: 400 }
+      );
+    }
+    
+    // First, complete the multipart upload to finalize the object in storage
     try {
-      console.log("🧩 Completing multipart upload in S3...");
+      console.log("🧩 Completing multipart upload in storage...");
       
-      // Sort parts with proper TypeScript typing
-      const sortedParts = [...parts].sort((a: UploadPart, b: UploadPart) => a.PartNumber - b.PartNumber);
+      // Use storage's record of each part, including the checksum it verified
+      const uploadedByNumber = new Map(uploadedParts.map((part) => [part.PartNumber, part]));
+      const sortedParts = [...parts]
+        .sort((a: UploadPart, b: UploadPart) => a.PartNumber - b.PartNumber)
+        .map((part: UploadPart) => {
+          const { ETag, PartNumber, ChecksumSHA256 } = uploadedByNumber.get(part.PartNumber)!;
+          return { ETag, PartNumber, ChecksumSHA256 };
+        });
       
-      const completeCommand = new CompleteMultipartUploadCommand({
-        Bucket: bucketName,
-        Key: key,
-        UploadId: uploadId,
-        MultipartUpload: {
-          Parts: sortedParts
-        }
-      });
-      
-      const completeResponse = await s3Client.send(completeCommand);
-      console.log("✅ Multipart upload completed in S3:", completeResponse.Location);
+      const { checksumSHA256 } = await storage.completeMultipartUpload(key, uploadId, sortedParts);
+      console.log("✅ Multipart upload completed in storage:", key);
       
       // Update the database with the processing status
       await Video.findByIdAndUpdate(videoId, {
         status: "processing",
+        checksumSHA256,
       });
       
-    } catch (s3CompleteError) {
-      console.error("❌ S3 multipart completion failed:", s3CompleteError);
+    } catch (completeError) {
+      console.error("❌ Multipart completion failed:", completeError);
       await Video.findByIdAndUpdate(videoId, { 
         status: "error", 
-        errorMessage: "Failed to complete S3 multipart upload" 
+        processingError: "Failed to complete multipart upload" 
       });
       return NextResponse.json({ 
-        error: "Failed to complete S3 multipart upload",
-        details: s3CompleteError instanceof Error ? s3CompleteError.message : "Unknown error"
+        error: "Failed to complete multipart upload",
+        details: completeError instanceof Error ? completeError.message : "Unknown error"
       }, { status: 500 });
     }
 
     console.log("📁 Defining final storage location...");
     const finalKey = `videos/${videoId}/${existingVideo.fileName}`;
-    console.log("🗂️ Final S3 key:", finalKey);
+    console.log("🗂️ Final storage key:", finalKey);
 
     try {
       console.log("🚚 Moving uploaded file to final location...");
-      console.log("📝 Copy source:", `${bucketName}/${key}`);
+      console.log("📝 Copy source:", key);
       
-      await s3Client.send(new CopyObjectCommand({
-        Bucket: bucketName,
-        CopySource: `${bucketName}/${key}`,
-        Key: finalKey,
-      }));
+      await storage.copyObject(key, finalKey);
 
       console.log("✅ File successfully copied to final location");
+      
+      const copied = await storage.headObject(finalKey);
+      
+      if (copied?.size !== existingVideo.fileSize) {
+        throw new Error(
+          `Stored file is ${copied?.size} bytes, expected ${existingVideo.fileSize}`
+        );
+      }
 
       console.log("🗑️ Deleting the temporary upload...");
-      await s3Client.send(new DeleteObjectCommand({
-        Bucket: bucketName,
-        Key: key,
-      }));
+      await storage.deleteObject(key);
       console.log("✅ Temporary upload deleted:", key);
-    } catch (s3Error) {
-      console.error("❌ S3 operation failed:", s3Error);
+    } catch (storageError) {
+      console.error("❌ Storage operation failed:", storageError);
       await Video.findByIdAndUpdate(videoId, { 
         status: "error", 
-        errorMessage: "S3 file operation failed: " + (s3Error instanceof Error ? s3Error.message : String(s3Error))
+        processingError: "Storage file operation failed: " + (storageError instanceof Error ? storageError.message : String(storageError))
       });
       return NextResponse.json({ 
         error: "Failed to process video in storage",
-        details: s3Error instanceof Error ? s3Error.message : "Unknown error"
+        details: storageError instanceof Error ? storageError.message : "Unknown error"
       }, { status: 500 });
     }
 
     try {
-      console.log("🎥 Generating HLS content for streaming...");
-      const hlsKey = await generateHLSContent(videoId, finalKey);
-      console.log("✅ HLS content generated successfully:", hlsKey);
-
       console.log("📝 Updating video record in the database...");
       await Video.findByIdAndUpdate(videoId, {
-        status: "ready",
         videoKey: finalKey,
-        hlsKey,
         uploadCompletedAt: new Date(),
       });
 
-      console.log("✅ Video processing completed successfully:", { videoId, videoKey: finalKey, hlsKey });
+      // Transcoding runs in the background worker, which drives the
+      // processing → ready/error transitions from here on
+      console.log("📬 Queueing transcoding job...");
+      const job = await enqueueTranscodeJob(videoId, { key: finalKey });
+      console.log("✅ Transcoding job queued:", job._id.toString());
+
+      try {
+        await recordVideoStorage(videoId);
+      } catch (storageError) {
+        console.error("❌ Failed to record storage usage:", storageError);
+      }
+
+      // A new version replaces the previous one in listings as soon as it's uploaded
+      if (existingVideo.versionGroupId) {
+        try {
+          const carried = await promoteVersion(videoId);
+          console.log(`📚 Promoted to latest version, carried ${carried} open comment thread(s) forward`);
+        } catch (versionError) {
+          console.error("❌ Failed to promote new version:", versionError);
+        }
+      }
+
       return NextResponse.json({ 
         success: true, 
         videoId, 
         videoKey: finalKey, 
-        hlsKey,
-        message: "Video processing completed successfully"
-      });
-    } catch (processingError) {
-      console.error("❌ Video processing failed:", processingError);
+        jobId: job._id.toString(),
+        status: "processing",
+        message: "Upload completed, video queued for processing"
+      }, { status: 202 });
+    } catch (queueError) {
+      console.error("❌ Failed to queue video processing:", queueError);
       await Video.findByIdAndUpdate(videoId, { 
         status: "error", 
-        errorMessage: "Video processing failed: " + 
-          (processingError instanceof Error ? processingError.message : String(processingError))
+        processingError: "Failed to queue video processing: " + 
+          (queueError instanceof Error ? queueError.message : String(queueError))
       });
       return NextResponse.json({ 
-        error: "Failed to process video content",
-        details: processingError instanceof Error ? processingError.message : "Unknown error"
+        error: "Failed to queue video processing",
+        details: queueError instanceof Error ? queueError.message : "Unknown error"
       }, { status: 500 });
     }
   } catch (error) {
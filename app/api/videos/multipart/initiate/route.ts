@@ -1,12 +1,20 @@
 // src/app/api/videos/multipart/initiate/route.ts
 import { NextResponse } from "next/server";
-import { CreateMultipartUploadCommand } from "@aws-sdk/client-s3";
 import { auth } from "@clerk/nextjs/server";
 import connectToDatabase from "@/lib/mongodb";
 import Video, { IVideo } from "@/models/video";
-import { s3Client, bucketName } from "@/lib/s3-client";
+import Workspace from "@/models/workspace";
+import { getStorage } from "@/lib/storage";
+import { getWorkspaceRole } from "@/lib/workspace-access";
+import { getNextVersion } from "@/lib/video-versions";
+import { assertCanUpload, EntitlementError } from "@/lib/entitlements";
+import { abortUpload } from "@/lib/multipart-upload";
+import mongoose from "mongoose";
 import crypto from "crypto";
 
+// How many version numbers to try when other uploads onto the stack race us
+const MAX_VERSION_ATTEMPTS = 5;
+
 export async function POST(req: Request) {
   try {
     const { userId } = await auth();
@@ -24,36 +32,79 @@ export async function POST(req: Request) {
       fileSize,
       workspaceId,
       title,
-      description = ""
+      description = "",
+      parentVideoId,
+      fileFingerprint,
+      chunkSize
     } = await req.json();
     
+    console.log("Connecting to database...");
+    await connectToDatabase();
+    
+    // Uploading onto an existing video adds a version to its stack
+    const parent = parentVideoId ? await Video.findById(parentVideoId) : null;
+    
+    if (parentVideoId) {
+      if (!parent) {
+        return NextResponse.json({ error: "Video not found" }, { status: 404 });
+      }
+      
+      const workspace = await Workspace.findById(parent.workspaceId);
+      const role = getWorkspaceRole(workspace, userId);
+      
+      if (!role || role === "viewer") {
+        return NextResponse.json(
+          { error: "You don't have permission to upload versions of this video" },
+          { status: 403 }
+        );
+      }
+    }
+    
+    // Check the upload fits the workspace owner's plan: a video slot for new
+    // videos, and storage for everything
+    const targetWorkspace = await Workspace.findById(parent?.workspaceId ?? workspaceId);
+    
+    if (!targetWorkspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+    
+    try {
+      await assertCanUpload(targetWorkspace, userId, {
+        fileSize: Number(fileSize) || 0,
+        isNewVideo: !parentVideoId,
+      });
+    } catch (entitlementError) {
+      if (entitlementError instanceof EntitlementError) {
+        return NextResponse.json(
+          {
+            error: entitlementError.message,
+            code: entitlementError.code,
+            upgradeRequired: {
+              entitlement: entitlementError.entitlement,
+              canUpgrade: entitlementError.canUpgrade,
+            },
+          },
+          { status: 403 }
+        );
+      }
+      throw entitlementError;
+    }
+    
     // Generate a unique ID for the upload
     const uploadId = crypto.randomUUID();
     const key = `uploads/${uploadId}/${fileName}`;
     
-    // Create multipart upload in S3
-    const createCommand = new CreateMultipartUploadCommand({
-      Bucket: bucketName,
-      Key: key,
-      ContentType: fileType,
-      Metadata: {
+    // Create the multipart upload in storage. Every part then carries a
+    // SHA-256 that's verified on receipt.
+    console.log("Creating multipart upload in storage...");
+    const storageUploadId = await getStorage().createMultipartUpload(key, {
+      contentType: fileType,
+      metadata: {
         'original-filename': fileName,
         'user-id': userId,
       },
     });
     
-    console.log("Creating multipart upload in S3...");
-    const multipartUpload = await s3Client.send(createCommand);
-    const s3UploadId = multipartUpload.UploadId;
-    
-    if (!s3UploadId) {
-      throw new Error("Failed to initiate multipart upload");
-    }
-    
-    // Save upload info to the database
-    console.log("Connecting to database...");
-    await connectToDatabase();
-    
     // Create video document
     console.log("Creating video document...");
     
@@ -65,42 +116,71 @@ export async function POST(req: Request) {
       uploadedById: userId,
       fileName,
       fileSize,
-      uploadId: s3UploadId,
+      uploadId: storageUploadId,
       s3Key: key,
       status: "uploading",
       viewCount: 0,
+      fileFingerprint,
+      chunkSize,
     };
     
     // Print the actual data to debug
     console.log("Video data:", JSON.stringify(videoData));
     
-    // Create the document
-    let video: IVideo;
+    // Create the document. Concurrent uploads onto the same stack can pick the
+    // same version number; the unique index refuses the loser, which takes the
+    // next number and tries again.
+    let video: IVideo | null = null;
     try {
-      video = new Video(videoData);
-      await video.validate(); // Explicitly validate before saving
-      await video.save();
+      for (let attempt = 1; !video; attempt++) {
+        const candidate = new Video({
+          ...videoData,
+          ...(parent && {
+            ...(await getNextVersion(parent)),
+            workspaceId: parent.workspaceId,
+            title: title || parent.title,
+            // The previous version stays listed until this one finishes uploading
+            isLatestVersion: false,
+          }),
+        });
+        
+        try {
+          await candidate.validate(); // Explicitly validate before saving
+          await candidate.save();
+          video = candidate;
+        } catch (saveError: unknown) {
+          const isVersionConflict = parent && (saveError as { code?: number }).code === 11000;
+          if (!isVersionConflict || attempt >= MAX_VERSION_ATTEMPTS) throw saveError;
+        }
+      }
       console.log("Video document created successfully");
-    } catch (validationError) {
-      if (validationError instanceof Error) {
-        console.error("Validation error:", validationError.message);
+    } catch (saveError: unknown) {
+      // Nothing will ever complete or clean up the storage upload without its video
+      await abortUpload(key, storageUploadId).catch((abortError) =>
+        console.error(`Failed to abort upload ${storageUploadId}:`, abortError)
+      );
+      
+      if (saveError instanceof mongoose.Error.ValidationError) {
+        console.error("Validation error:", saveError.message);
         return NextResponse.json(
-          { error: `Validation error: ${validationError.message}` },
+          { error: `Validation error: ${saveError.message}` },
           { status: 400 }
         );
-      } else {
-        console.error("Unknown validation error:", validationError);
+      }
+      if ((saveError as { code?: number }).code === 11000) {
+        console.error("Version number conflict:", saveError);
         return NextResponse.json(
-          { error: "Unknown validation error" },
-          { status: 500 }
+          { error: "Another version of this video is being uploaded. Try again in a moment." },
+          { status: 409 }
         );
       }
+      throw saveError;
     }
     
     // Return success response
     return NextResponse.json({
       success: true,
-      uploadId: s3UploadId,
+      uploadId: storageUploadId,
       key,
       videoId: video._id.toString(),
     });
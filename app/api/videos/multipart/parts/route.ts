@@ -0,0 +1,68 @@
+// src/app/api/videos/multipart/parts/route.ts
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import connectToDatabase from "@/lib/mongodb";
+import { Video } from "@/models/video";
+import { listUploadedParts } from "@/lib/multipart-upload";
+import { StorageNotFoundError } from "@/lib/storage";
+
+/**
+ * List the parts S3 already holds for an unfinished upload, so the client
+ * only sends what's missing
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const videoId = new URL(req.url).searchParams.get("videoId");
+
+    if (!videoId) {
+      return NextResponse.json({ error: "videoId is required" }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const video = await Video.findOne({ _id: videoId, uploadedById: userId });
+
+    if (!video) {
+      return NextResponse.json({ error: "Upload not found or unauthorized" }, { status: 404 });
+    }
+
+    // Videos uploaded through UploadThing never had an S3 upload
+    if (video.status !== "uploading" || !video.s3Key || !video.uploadId) {
+      return NextResponse.json({ error: "This upload has already finished" }, { status: 409 });
+    }
+
+    let parts;
+    try {
+      parts = await listUploadedParts(video.s3Key, video.uploadId);
+    } catch (error) {
+      // Storage forgets uploads that were aborted or expired
+      if (error instanceof StorageNotFoundError) {
+        return NextResponse.json({ error: "This upload has expired" }, { status: 410 });
+      }
+      throw error;
+    }
+
+    // S3 is the source of truth; bring the recorded parts back in line with it
+    await Video.findByIdAndUpdate(videoId, { chunkParts: parts });
+
+    return NextResponse.json({
+      videoId,
+      uploadId: video.uploadId,
+      key: video.s3Key,
+      chunkSize: video.chunkSize,
+      parts,
+    });
+  } catch (error) {
+    console.error("Error listing uploaded parts:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to list uploaded parts" },
+      { status: 500 }
+    );
+  }
+}
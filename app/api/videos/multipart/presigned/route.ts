@@ -1,13 +1,12 @@
 // src/app/api/videos/multipart/presigned/route.ts
 import { NextResponse } from "next/server";
-import { 
-  UploadPartCommand
-} from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import { auth } from "@clerk/nextjs/server";
 import connectToDatabase from "@/lib/mongodb";
 import { Video } from "@/models/video";
-import { s3Client, bucketName } from "@/lib/s3-client";
+import { getStorage } from "@/lib/storage";
+import { isSha256Base64 } from "@/lib/checksums";
+
+const MAX_PARTS_PER_REQUEST = 100;
 
 export async function POST(req: Request) {
   try {
@@ -26,9 +25,35 @@ export async function POST(req: Request) {
       key,
       videoId,
       partNumber,
+      partNumbers,
+      checksums = {},
     } = await req.json();
     
-    console.log("Presigned URL request params:", { uploadId, key, videoId, partNumber });
+    console.log("Presigned URL request params:", { uploadId, key, videoId, partNumber, partNumbers });
+    
+    // Either a single part or a batch of them
+    const requestedParts: number[] = Array.isArray(partNumbers) ? partNumbers : [partNumber];
+    
+    if (
+      requestedParts.length === 0 ||
+      requestedParts.length > MAX_PARTS_PER_REQUEST ||
+      requestedParts.some((n) => !Number.isInteger(n) || n < 1 || n > 10000)
+    ) {
+      return NextResponse.json(
+        { error: `Request between 1 and ${MAX_PARTS_PER_REQUEST} part numbers from 1 to 10000` },
+        { status: 400 }
+      );
+    }
+    
+    // Optional SHA-256 per part, keyed by part number
+    const partChecksums: Record<number, string | undefined> = checksums;
+    
+    if (requestedParts.some((n) => partChecksums[n] !== undefined && !isSha256Base64(partChecksums[n]))) {
+      return NextResponse.json(
+        { error: "Checksums must be base64-encoded SHA-256 digests" },
+        { status: 400 }
+      );
+    }
     
     // Validate that the upload exists and belongs to this user
     await connectToDatabase();
@@ -40,7 +65,7 @@ export async function POST(req: Request) {
       uploadedById: userId
     });
     
-    if (!video) {
+    if (!video || !video.s3Key) {
       console.error("Video not found or unauthorized:", { videoId, uploadId, userId });
       return NextResponse.json(
         { error: "Upload not found or unauthorized" },
@@ -50,29 +75,26 @@ export async function POST(req: Request) {
     
     console.log("Found video document:", video._id);
     
-    // Generate pre-signed URL for this part
-    console.log("Generating presigned URL for part:", partNumber);
-    const command = new UploadPartCommand({
-      Bucket: bucketName,
-      Key: key,
-      UploadId: uploadId,
-      PartNumber: partNumber,
-    });
+    // Generate pre-signed URLs for the requested parts. Signing is local, so
+    // a batch costs no more round trips to storage than a single part.
+    console.log("Generating presigned URLs for parts:", requestedParts);
+    const presignedUrls: Record<number, string> = {};
     
-    console.log("Command parameters:", { 
-      Bucket: bucketName,
-      Key: key,
-      UploadId: uploadId,
-      PartNumber: partNumber,
-    });
+    for (const n of requestedParts) {
+      presignedUrls[n] = await getStorage().getUploadPartUrl(video.s3Key, uploadId, n, {
+        checksumSHA256: partChecksums[n],
+        expiresIn: 3600,
+      });
+    }
     
-    const presignedUrl = await getSignedUrl(s3Client, command, { expiresIn: 3600 });
-    console.log("Presigned URL generated (redacted):", presignedUrl.substring(0, 50) + "...");
+    if (!Array.isArray(partNumbers)) {
+      return NextResponse.json({
+        presignedUrl: presignedUrls[partNumber],
+        partNumber,
+      });
+    }
     
-    return NextResponse.json({
-      presignedUrl,
-      partNumber,
-    });
+    return NextResponse.json({ presignedUrls });
   } catch (error: any) {
     console.error("Error generating presigned URL:", error);
     return NextResponse.json(
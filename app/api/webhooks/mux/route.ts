@@ -1,83 +1,41 @@
 // src/app/api/webhooks/mux/route.ts
 import { NextResponse } from "next/server";
 import { headers } from "next/headers";
-import connectToDatabase from "@/lib/mongodb";
-import Video from "@/models/video";
-import { parseMuxWebhookEvent } from "@/lib/mux";
+import { parseMuxWebhookEvent, MuxWebhookSignatureError } from "@/lib/mux";
+import { processWebhookEvent, WebhookInProgressError } from "@/lib/webhook-events";
+import type { MuxWebhookEvent } from "@/lib/mux-webhook";
 
 export async function POST(req: Request) {
+  let event: MuxWebhookEvent;
+
   try {
-    // Get the raw request body
-    const payload = await req.json();
+    // The signature covers the raw request body
+    const rawBody = await req.text();
     
     // Get the Mux signature header
     const headersList = await headers();
     const muxSignature = headersList.get("mux-signature") || "";
     
-    // Validate the webhook payload
-    const event = parseMuxWebhookEvent(payload, muxSignature);
-    
-    // Process different event types
-    if (event.type === "video.asset.ready") {
-      await handleAssetReady(event.data);
-    } else if (event.type === "video.asset.errored") {
-      await handleAssetError(event.data);
-    }
-    
-    return NextResponse.json({ received: true });
+    // Verify the signature and parse the event
+    event = parseMuxWebhookEvent(rawBody, muxSignature);
   } catch (error) {
-    console.error("Error processing Mux webhook:", error);
-    return NextResponse.json({ error: "Failed to process webhook" }, { status: 400 });
+    console.error("Error verifying Mux webhook:", error);
+    const message = error instanceof MuxWebhookSignatureError ? error.message : "Invalid webhook";
+    return NextResponse.json({ error: message }, { status: 400 });
   }
-}
 
-async function handleAssetReady(data: any) {
-  try {
-    await connectToDatabase();
-    
-    const assetId = data.id;
-    const playbackId = data.playback_ids?.[0]?.id;
-    const duration = data.duration;
-    
-    if (!assetId) {
-      console.error("No asset ID in webhook data");
-      return;
-    }
-    
-    // Update the video record in the database
-    await Video.findOneAndUpdate(
-      { muxAssetId: assetId },
-      {
-        status: "ready",
-        duration,
-        muxPlaybackId: playbackId,
-        thumbnailUrl: playbackId ? `https://image.mux.com/${playbackId}/thumbnail.jpg?time=0` : undefined,
-      }
-    );
-  } catch (error) {
-    console.error("Error handling asset ready event:", error);
+  if (!event?.id || !event.type) {
+    return NextResponse.json({ error: "Missing event ID or type" }, { status: 400 });
   }
-}
 
-async function handleAssetError(data: any) {
   try {
-    await connectToDatabase();
-    
-    const assetId = data.id;
-    
-    if (!assetId) {
-      console.error("No asset ID in webhook data");
-      return;
+    const result = await processWebhookEvent("mux", event.id, event.type, event as unknown as Record<string, unknown>);
+    return NextResponse.json({ received: true, duplicate: result === "duplicate" });
+  } catch (error: unknown) {
+    // A non-2xx answer makes Mux retry the delivery
+    if (error instanceof WebhookInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
-    
-    // Update the video record in the database
-    await Video.findOneAndUpdate(
-      { muxAssetId: assetId },
-      {
-        status: "error",
-      }
-    );
-  } catch (error) {
-    console.error("Error handling asset error event:", error);
+    return NextResponse.json({ error: "Failed to process webhook" }, { status: 500 });
   }
-}
\ No newline at end of file
+}
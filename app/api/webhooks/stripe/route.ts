@@ -2,8 +2,7 @@ import { headers } from 'next/headers';
 import { NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { stripe } from '@/lib/stripe';
-import connectToDatabase from '@/lib/mongodb';
-import User from '@/models/user';
+import { processWebhookEvent, WebhookInProgressError } from '@/lib/webhook-events';
 
 export async function POST(req: Request) {
   const body = await req.text();
@@ -31,70 +30,19 @@ export async function POST(req: Request) {
     });
   }
 
-  // Connect to database
-  await connectToDatabase();
-
-  // Handle specific Stripe events
-  switch (event.type) {
-    case 'checkout.session.completed':
-      const checkoutSession = event.data.object as Stripe.Checkout.Session;
-      
-      // Update user subscription status
-      if (checkoutSession.customer && checkoutSession.metadata?.userId) {
-        await User.findOneAndUpdate(
-          { clerkId: checkoutSession.metadata.userId },
-          {
-            $set: {
-              stripeCustomerId: checkoutSession.customer,
-              subscriptionStatus: 'active',
-              subscriptionPlan: 'pro',
-            },
-          }
-        );
-      }
-      break;
-      
-    case 'invoice.payment_succeeded':
-      const invoice = event.data.object as Stripe.Invoice;
-
-if (invoice.customer && (invoice as any).subscription) {
-    const subscriptionId = (invoice as any).subscription as string;
-
-    // Fetch subscription to get metadata with the userId
-    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-    
-    if (subscription.metadata?.userId) {
-        await User.findOneAndUpdate(
-            { stripeCustomerId: invoice.customer },
-            {
-                $set: {
-                    subscriptionStatus: 'active',
-                    subscriptionPlan: 'pro',
-                },
-            }
-        );
+  try {
+    const result = await processWebhookEvent(
+      'stripe',
+      event.id,
+      event.type,
+      event as unknown as Record<string, unknown>
+    );
+    return NextResponse.json({ received: true, duplicate: result === 'duplicate' });
+  } catch (error: unknown) {
+    // A non-2xx answer makes Stripe retry the delivery
+    if (error instanceof WebhookInProgressError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
-}
-
-      break;
-      
-    case 'customer.subscription.deleted':
-      const subscription = event.data.object as Stripe.Subscription;
-      
-      // Handle subscription cancellation
-      if (subscription.metadata?.userId) {
-        await User.findOneAndUpdate(
-          { clerkId: subscription.metadata.userId },
-          {
-            $set: {
-              subscriptionStatus: 'inactive',
-              subscriptionPlan: 'free',
-            },
-          }
-        );
-      }
-      break;
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
   }
-
-  return NextResponse.json({ received: true });
-}
\ No newline at end of file
+}
@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+import type { AnnotationShape, AnnotationTool } from "@/lib/annotations";
+
+type AnnotationOverlayProps = {
+  shapes: AnnotationShape[];
+  /** Intrinsic video size, used to line shapes up with the letterboxed picture */
+  videoWidth: number;
+  videoHeight: number;
+  /** Drawing mode: set both to let the user add shapes */
+  tool?: AnnotationTool;
+  color?: string;
+  onChange?: (shapes: AnnotationShape[]) => void;
+};
+
+type Point = { x: number; y: number };
+
+/**
+ * Renders annotation shapes over the video picture and, in drawing mode,
+ * lets the user add new ones. Points are stored as fractions of the frame.
+ */
+export function AnnotationOverlay({
+  shapes,
+  videoWidth,
+  videoHeight,
+  tool,
+  color = "#ef4444",
+  onChange,
+}: AnnotationOverlayProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<AnnotationShape | null>(null);
+  const [pendingText, setPendingText] = useState<Point | null>(null);
+  const [textValue, setTextValue] = useState("");
+  const isDrawing = Boolean(tool && onChange);
+
+  // Track the player size so the overlay follows resizes and fullscreen
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, []);
+
+  // The picture is object-contain, so find the box it actually occupies
+  const scale = videoWidth && videoHeight
+    ? Math.min(containerSize.width / videoWidth, containerSize.height / videoHeight)
+    : 0;
+  const width = videoWidth * scale;
+  const height = videoHeight * scale;
+  const left = (containerSize.width - width) / 2;
+  const top = (containerSize.height - height) / 2;
+
+  const strokeWidth = Math.max(2, width * 0.004);
+  const fontSize = Math.max(12, height * 0.045);
+
+  const toFramePoint = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!isDrawing || !tool) return;
+    event.preventDefault();
+
+    const point = toFramePoint(event);
+
+    if (tool === "text") {
+      setPendingText(point);
+      setTextValue("");
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ type: tool, color, points: tool === "freehand" ? [point] : [point, point] });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!draft) return;
+
+    const point = toFramePoint(event);
+    setDraft({
+      ...draft,
+      points: draft.type === "freehand" ? [...draft.points, point] : [draft.points[0], point],
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+
+    // Ignore accidental clicks that didn't draw anything
+    const [start, end] = [draft.points[0], draft.points[draft.points.length - 1]];
+    if (Math.abs(end.x - start.x) + Math.abs(end.y - start.y) > 0.005) {
+      onChange?.([...shapes, draft]);
+    }
+    setDraft(null);
+  };
+
+  const commitText = () => {
+    if (pendingText && textValue.trim()) {
+      onChange?.([...shapes, { type: "text", color, points: [pendingText], text: textValue.trim() }]);
+    }
+    setPendingText(null);
+  };
+
+  const renderShape = (shape: AnnotationShape, key: string | number) => {
+    const points = shape.points.map((point) => ({ x: point.x * width, y: point.y * height }));
+    const common = {
+      stroke: shape.color,
+      strokeWidth,
+      fill: "none",
+      strokeLinecap: "round" as const,
+      strokeLinejoin: "round" as const,
+    };
+
+    switch (shape.type) {
+      case "freehand":
+        return <polyline key={key} points={points.map((p) => `${p.x},${p.y}`).join(" ")} {...common} />;
+      case "rect": {
+        const [a, b] = points;
+        return (
+          <rect
+            key={key}
+            x={Math.min(a.x, b.x)}
+            y={Math.min(a.y, b.y)}
+            width={Math.abs(b.x - a.x)}
+            height={Math.abs(b.y - a.y)}
+            {...common}
+          />
+        );
+      }
+      case "arrow": {
+        const [tail, head] = points;
+        const angle = Math.atan2(head.y - tail.y, head.x - tail.x);
+        const headLength = Math.max(10, width * 0.02);
+        const wing = (offset: number) =>
+          `${head.x - headLength * Math.cos(angle + offset)},${head.y - headLength * Math.sin(angle + offset)}`;
+        return (
+          <g key={key}>
+            <line x1={tail.x} y1={tail.y} x2={head.x} y2={head.y} {...common} />
+            <polyline points={`${wing(Math.PI / 7)} ${head.x},${head.y} ${wing(-Math.PI / 7)}`} {...common} />
+          </g>
+        );
+      }
+      case "text":
+        return (
+          <text
+            key={key}
+            x={points[0].x}
+            y={points[0].y}
+            fill={shape.color}
+            fontSize={fontSize}
+            fontWeight={600}
+            dominantBaseline="hanging"
+            style={{ paintOrder: "stroke", stroke: "rgba(0,0,0,0.6)", strokeWidth: fontSize / 8 }}
+          >
+            {shape.text}
+          </text>
+        );
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn("absolute inset-0", !isDrawing && "pointer-events-none")}>
+      {width > 0 && (
+        <svg
+          ref={svgRef}
+          className={cn("absolute touch-none", isDrawing && "cursor-crosshair")}
+          style={{ left, top, width, height }}
+          viewBox={`0 0 ${width} ${height}`}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          {shapes.map(renderShape)}
+          {draft && renderShape(draft, "draft")}
+        </svg>
+      )}
+      {pendingText && (
+        <input
+          autoFocus
+          value={textValue}
+          maxLength={200}
+          placeholder="Type, then press Enter"
+          onChange={(e) => setTextValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commitText();
+            if (e.key === "Escape") setPendingText(null);
+          }}
+          onBlur={commitText}
+          className="absolute rounded bg-black/70 px-1 text-sm text-white outline-none ring-1 ring-white/60"
+          style={{ left: left + pendingText.x * width, top: top + pendingText.y * height, color }}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
@@ -33,6 +33,8 @@ import {
 } from "@/components/ui/select";
 import { toast } from "sonner";
 import { sendWorkspaceInvitation } from "@/actions/invitation";
+import { getWorkspaceLimits } from "@/actions/workspace";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
 
 // Define form validation schema
 const invitationFormSchema = z.object({
@@ -54,6 +56,28 @@ type InvitationFormProps = {
 export function InvitationForm({ workspaceId, onSuccess }: InvitationFormProps) {
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [upgradePrompt, setUpgradePrompt] = useState<{ message: string; canUpgrade: boolean } | null>(null);
+
+  // Check for a free seat when the dialog opens, rather than after filling it in
+  useEffect(() => {
+    if (!open) return;
+
+    getWorkspaceLimits(workspaceId).then((response) => {
+      if (!response.success || !response.entitlements || response.entitlements.canInviteMember) {
+        setUpgradePrompt(null);
+        return;
+      }
+
+      const { planName, limits } = response.entitlements;
+      setUpgradePrompt({
+        message:
+          `The ${planName} plan allows up to ${limits.membersPerWorkspace} members per workspace, ` +
+          `counting pending invitations.` +
+          (response.isOwner ? " Upgrade to Pro to invite more people." : " Ask the workspace owner to upgrade to Pro."),
+        canUpgrade: !!response.isOwner,
+      });
+    });
+  }, [open, workspaceId]);
 
   // Initialize form
   const form = useForm<InvitationFormValues>({
@@ -71,6 +95,11 @@ export function InvitationForm({ workspaceId, onSuccess }: InvitationFormProps)
     try {
       const response = await sendWorkspaceInvitation(workspaceId, values);
       
+      if (response.upgradeRequired) {
+        setUpgradePrompt({ message: response.error, canUpgrade: response.upgradeRequired.canUpgrade });
+        return;
+      }
+      
       if (!response.success) {
         throw new Error(response.error);
       }
@@ -156,8 +185,11 @@ export function InvitationForm({ workspaceId, onSuccess }: InvitationFormProps)
                 </FormItem>
               )}
             />
+            {upgradePrompt && (
+              <UpgradePrompt message={upgradePrompt.message} canUpgrade={upgradePrompt.canUpgrade} />
+            )}
             <DialogFooter>
-              <Button type="submit" disabled={isSubmitting}>
+              <Button type="submit" disabled={isSubmitting || !!upgradePrompt}>
                 {isSubmitting ? "Sending..." : "Send Invitation"}
               </Button>
             </DialogFooter>
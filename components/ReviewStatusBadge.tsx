@@ -0,0 +1,31 @@
+import { CheckCircle2, CircleDashed, Eye, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { REVIEW_STATUS_LABELS, ReviewStatus } from "@/lib/review";
+
+const STATUS_STYLES: Record<ReviewStatus, { className: string; icon: typeof Eye }> = {
+  draft: { className: "bg-muted text-muted-foreground", icon: CircleDashed },
+  in_review: { className: "bg-blue-500/10 text-blue-700 border-blue-500/20", icon: Eye },
+  changes_requested: { className: "bg-orange-500/10 text-orange-700 border-orange-500/20", icon: RotateCcw },
+  approved: { className: "bg-green-500/10 text-green-700 border-green-500/20", icon: CheckCircle2 },
+};
+
+type ReviewStatusBadgeProps = {
+  status?: ReviewStatus;
+  className?: string;
+};
+
+/**
+ * Shows where a video is in its review lifecycle. Videos from before reviews
+ * existed have no status and count as drafts.
+ */
+export function ReviewStatusBadge({ status = "draft", className }: ReviewStatusBadgeProps) {
+  const { className: statusClassName, icon: Icon } = STATUS_STYLES[status] ?? STATUS_STYLES.draft;
+
+  return (
+    <Badge variant="outline" className={cn(statusClassName, className)}>
+      <Icon className="h-3 w-3" />
+      {REVIEW_STATUS_LABELS[status] ?? REVIEW_STATUS_LABELS.draft}
+    </Badge>
+  );
+}
@@ -1,17 +1,19 @@
 // src/components/S3MultipartUploadForm.tsx
 "use client";
 
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm, FormProvider } from "react-hook-form";
 import * as z from "zod";
 import { useDropzone } from "react-dropzone";
-import { Upload, X } from "lucide-react";
+import { Layers, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogFooter,
   DialogHeader,
   DialogTitle,
@@ -20,7 +22,21 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
+import { formatDuration } from "@/lib/mux";
+import { formatBytes } from "@/lib/utils";
 import { toast } from "sonner";
+import { findDuplicateVideo, findResumableUpload, updateMultipartUploadParts } from "@/actions/video";
+import type { UploadedPart } from "@/lib/multipart-upload";
+import {
+  computePartChecksums,
+  getChunkSize,
+  uploadParts,
+  UploadAbortedError,
+  UploadProgress,
+} from "@/lib/upload-engine";
+import { getCompositeChecksum } from "@/lib/checksums";
+import { getWorkspaceLimits } from "@/actions/workspace";
+import { UpgradePrompt } from "@/components/UpgradePrompt";
 
 const videoFormSchema = z.object({
   title: z.string().min(3).max(100),
@@ -29,18 +45,59 @@ const videoFormSchema = z.object({
 
 type VideoFormValues = z.infer<typeof videoFormSchema>;
 
-export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string }) {
+const UPLOAD_CONCURRENCY = 4;
+
+type UpgradePromptState = {
+  message: string;
+  canUpgrade: boolean;
+  /** Out of storage can be fixed by picking a smaller file; out of video slots or read-only can't */
+  entitlement: "videos" | "storage" | "readOnly";
+};
+
+// The server refused the upload because of a plan limit
+class PlanLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly canUpgrade: boolean,
+    public readonly entitlement: UpgradePromptState["entitlement"]
+  ) {
+    super(message);
+    this.name = "PlanLimitError";
+  }
+}
+
+type DuplicateVideo = {
+  videoId: string;
+  title: string;
+  versionNumber: number;
+  createdAt: string;
+};
+
+type S3MultipartUploadFormProps = {
+  workspaceId: string;
+  /** Upload a new version of this video instead of a new video */
+  parentVideo?: { id: string; title: string };
+  onSuccess?: () => void;
+};
+
+export function S3MultipartUploadForm({ workspaceId, parentVideo, onSuccess }: S3MultipartUploadFormProps) {
   const [open, setOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [transferStats, setTransferStats] = useState<UploadProgress | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const activeUploadRef = useRef<string | null>(null);
+  const [isHashing, setIsHashing] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicateVideo | null>(null);
+  const allowDuplicateRef = useRef(false);
+  const [upgradePrompt, setUpgradePrompt] = useState<UpgradePromptState | null>(null);
   
   const router = useRouter();
 
   const form = useForm<VideoFormValues>({
     resolver: zodResolver(videoFormSchema),
-    defaultValues: { title: "", description: "" },
+    defaultValues: { title: parentVideo?.title ?? "", description: "" },
   });
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
@@ -48,10 +105,53 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
       const file = acceptedFiles[0];
       console.log("📁 File selected:", file.name);
       setSelectedFile(file);
+      setDuplicate(null);
+      allowDuplicateRef.current = false;
+      setUpgradePrompt((prompt) => (prompt?.entitlement === "storage" ? null : prompt));
+      // New versions keep the title of the video they replace
+      if (parentVideo) return;
       const defaultTitle = file.name.split(".")[0].replace(/[-_]/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
       form.setValue("title", defaultTitle);
     }
-  }, [form]);
+  }, [form, parentVideo]);
+
+  // A new video needs a free slot on the workspace's plan; new versions
+  // don't, but nothing can be uploaded while the workspace is read-only
+  useEffect(() => {
+    if (!open) return;
+
+    getWorkspaceLimits(workspaceId).then((response) => {
+      if (!response.success || !response.entitlements) {
+        setUpgradePrompt(null);
+        return;
+      }
+
+      if (response.entitlements.isReadOnly) {
+        setUpgradePrompt({
+          message: response.readOnlyMessage ?? "",
+          canUpgrade: !!response.isOwner,
+          entitlement: "readOnly",
+        });
+        return;
+      }
+
+      if (parentVideo || response.entitlements.canAddVideo) {
+        setUpgradePrompt(null);
+        return;
+      }
+
+      const { planName, limits } = response.entitlements;
+      setUpgradePrompt({
+        message:
+          `The ${planName} plan allows ${limits.videosPerWorkspace} videos per workspace.` +
+          (response.isOwner
+            ? " Upgrade to Pro to upload more, or delete a video to make room."
+            : " Ask the workspace owner to upgrade to Pro."),
+        canUpgrade: !!response.isOwner,
+        entitlement: "videos",
+      });
+    });
+  }, [open, parentVideo, workspaceId]);
 
   const { getRootProps, getInputProps } = useDropzone({ 
     onDrop,
@@ -61,7 +161,39 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
     maxFiles: 1
   });
 
-  const initiateMultipartUpload = async (file: File, values: VideoFormValues) => {
+  // Identifies the file across reloads so an interrupted upload can be resumed
+  const getFileFingerprint = (file: File) =>
+    [parentVideo?.id ?? "new", file.name, file.size, file.lastModified].join(":");
+
+  const findUploadToResume = async (fileFingerprint: string) => {
+    try {
+      const { upload } = await findResumableUpload(workspaceId, fileFingerprint);
+      
+      if (!upload?.chunkSize) return null;
+      
+      const response = await fetch(`/api/videos/multipart/parts?videoId=${upload.videoId}`);
+      
+      if (!response.ok) {
+        // Expired or already finished, so start over
+        return null;
+      }
+      
+      const data: { parts: UploadedPart[] } = await response.json();
+      console.log(`♻️ Resuming upload ${upload.videoId} with ${data.parts.length} parts in S3`);
+      
+      return { ...upload, chunkSize: upload.chunkSize, uploadedParts: data.parts };
+    } catch (error) {
+      console.error("❌ Error checking for an upload to resume:", error);
+      return null;
+    }
+  };
+
+  const initiateMultipartUpload = async (
+    file: File,
+    values: VideoFormValues,
+    fileFingerprint: string,
+    chunkSize: number
+  ) => {
     try {
       console.log("🚀 Starting multipart upload...");
       const response = await fetch("/api/videos/multipart/initiate", {
@@ -74,11 +206,18 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
           workspaceId,
           title: values.title,
           description: values.description,
+          parentVideoId: parentVideo?.id,
+          fileFingerprint,
+          chunkSize,
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.upgradeRequired) {
+          const { canUpgrade, entitlement } = errorData.upgradeRequired;
+          throw new PlanLimitError(errorData.error, canUpgrade, entitlement);
+        }
         throw new Error(errorData.error || "Failed to initiate upload");
       }
 
@@ -87,64 +226,6 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
       return data;
     } catch (error) {
       console.error("❌ Error initiating multipart upload:", error);
-      toast.error("Failed to initiate upload. Please try again.");
-      throw error;
-    }
-  };
-
-  const uploadPart = async (
-    partNumber: number, 
-    chunk: Blob, 
-    uploadId: string, 
-    key: string, 
-    videoId: string
-  ) => {
-    try {
-      console.log(`🚀 Requesting presigned URL for part ${partNumber}...`);
-      
-      const presignedResponse = await fetch("/api/videos/multipart/presigned", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          uploadId,
-          key,
-          videoId,
-          partNumber,
-        }),
-      });
-
-      if (!presignedResponse.ok) {
-        const errorData = await presignedResponse.json();
-        throw new Error(errorData.error || `Failed to get presigned URL for part ${partNumber}`);
-      }
-
-      const { presignedUrl } = await presignedResponse.json();
-      console.log(`🔗 Received presigned URL for part ${partNumber}`);
-
-      // Create an abort controller for this request
-      const controller = new AbortController();
-      abortControllerRef.current = controller;
-
-      const response = await fetch(presignedUrl, {
-        method: "PUT",
-        body: chunk,
-        signal: controller.signal
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to upload part ${partNumber}: ${response.statusText}`);
-      }
-
-      const ETag = response.headers.get("ETag")?.replace(/"/g, "") || "";
-      console.log(`✅ Part ${partNumber} uploaded successfully. ETag: ${ETag}`);
-
-      return { ETag, PartNumber: partNumber };
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        console.log(`🛑 Upload of part ${partNumber} was aborted`);
-        return null;
-      }
-      console.error(`❌ Error uploading part ${partNumber}:`, error);
       throw error;
     }
   };
@@ -177,22 +258,60 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
 
       const data = await response.json();
       console.log("✅ Multipart upload completed successfully:", data);
-      toast.success("Video upload completed successfully!");
+      toast.success("Upload complete! Your video is now being processed.");
       setOpen(false);
-      router.refresh();
+      onSuccess?.();
+      if (parentVideo) {
+        router.push(`/videos/${videoId}`);
+      } else {
+        router.refresh();
+      }
     } catch (error) {
       console.error("❌ Error completing multipart upload:", error);
-      toast.error("Upload failed. Please try again.");
       throw error;
     }
   };
 
+  // Stop sending parts and tell S3 to discard the ones it already has
+  const abortUpload = async (videoId: string) => {
+    try {
+      const response = await fetch("/api/videos/multipart/abort", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ videoId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Failed to abort upload");
+      }
+
+      console.log("🗑️ Multipart upload aborted:", videoId);
+    } catch (error) {
+      // The cleanup job removes it once it can no longer be resumed
+      console.error("❌ Error aborting multipart upload:", error);
+    }
+  };
+
+  // Upload the file even though the workspace already has a copy
+  const uploadDuplicateAnyway = () => {
+    allowDuplicateRef.current = true;
+    setDuplicate(null);
+    form.handleSubmit(onSubmit)();
+  };
+
   const cancelUpload = () => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
+      if (activeUploadRef.current) {
+        abortUpload(activeUploadRef.current);
+        activeUploadRef.current = null;
+      }
       setIsUploading(false);
+      setIsHashing(false);
       setUploadProgress(0);
+      setTransferStats(null);
       toast.info("Upload cancelled");
     }
   };
@@ -206,62 +325,127 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
 
       setIsUploading(true);
       setUploadProgress(0);
+      setDuplicate(null);
+      
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      
+      // Step 1: Find an unfinished upload of this file to pick up
+      const fileFingerprint = getFileFingerprint(selectedFile);
+      const resumed = await findUploadToResume(fileFingerprint);
+      const chunkSize = resumed?.chunkSize ?? getChunkSize(selectedFile.size);
+      
+      // Step 2: Hash each part so S3 can verify what it receives
+      setIsHashing(true);
+      const checksums = await computePartChecksums(selectedFile, chunkSize, {
+        signal: controller.signal,
+        onProgress: setUploadProgress,
+      });
+      setIsHashing(false);
+      setUploadProgress(0);
       
-      // Step 1: Initiate the multipart upload
-      const data = await initiateMultipartUpload(selectedFile, values);
-      const { uploadId, key, videoId } = data;
+      // Step 3: Offer the existing video if this exact file is already in the workspace
+      if (!resumed && !allowDuplicateRef.current) {
+        const checksumSHA256 = await getCompositeChecksum(checksums);
+        const { duplicate: existing } = await findDuplicateVideo(workspaceId, checksumSHA256);
+        
+        if (existing) {
+          setDuplicate(existing);
+          setIsUploading(false);
+          abortControllerRef.current = null;
+          return;
+        }
+      }
+      
+      // Step 4: Resume the unfinished upload or start a new one
+      const { uploadId, key, videoId, uploadedParts } = resumed ?? {
+        ...(await initiateMultipartUpload(selectedFile, values, fileFingerprint, chunkSize)),
+        uploadedParts: [],
+      };
 
       if (!uploadId || !key || !videoId) {
         throw new Error("Invalid response from server when initiating upload");
       }
 
-      // Step 2: Upload all parts
-      const chunkSize = 5 * 1024 * 1024; // 5MB
-      const totalChunks = Math.ceil(selectedFile.size / chunkSize);
+      // Step 5: Upload the parts S3 doesn't have yet
+      const totalChunks = checksums.length;
       console.log(`🗂️ Total chunks: ${totalChunks}`);
 
-      const parts: { ETag: string; PartNumber: number }[] = [];
+      // Only keep parts whose checksum (or, for parts sent without one, size)
+      // matches this file, in case an earlier attempt was cut off mid-part
+      const completedParts = uploadedParts
+        .filter((part: UploadedPart) => {
+          if (part.PartNumber > totalChunks) return false;
+          if (part.ChecksumSHA256) return part.ChecksumSHA256 === checksums[part.PartNumber - 1];
+          const expectedSize = Math.min(chunkSize, selectedFile.size - (part.PartNumber - 1) * chunkSize);
+          return part.Size === expectedSize;
+        })
+        .map(({ ETag, PartNumber, ChecksumSHA256 }: UploadedPart) => ({ ETag, PartNumber, ChecksumSHA256 }));
       
-      // Upload parts sequentially to avoid overwhelming the server
-      for (let i = 0; i < totalChunks; i++) {
-        if (!abortControllerRef.current) {
-          abortControllerRef.current = new AbortController();
-        }
-        
-        const partNumber = i + 1;
-        const start = i * chunkSize;
-        const end = Math.min(start + chunkSize, selectedFile.size);
-        const chunk = selectedFile.slice(start, end);
-        
-        console.log(`🚀 Uploading part ${partNumber}...`);
-        
-        const part = await uploadPart(partNumber, chunk, uploadId, key, videoId);
-        
-        if (part === null) {
-          // Upload was aborted
-          setIsUploading(false);
-          return;
-        }
-        
-        parts.push(part);
-        
-        // Update progress
-        setUploadProgress(Math.round((partNumber / totalChunks) * 100));
+      if (completedParts.length > 0) {
+        toast.info(`Resuming upload: ${completedParts.length} of ${totalChunks} parts already uploaded`);
       }
+      
+      activeUploadRef.current = videoId;
+      
+      const parts = await uploadParts({
+        file: selectedFile,
+        chunkSize,
+        uploadId,
+        key,
+        videoId,
+        completedParts,
+        checksums,
+        concurrency: UPLOAD_CONCURRENCY,
+        signal: controller.signal,
+        // Record each part so the upload can resume from here after a reload
+        onPartUploaded: (part) => {
+          updateMultipartUploadParts(videoId, uploadId, part);
+        },
+        onProgress: (progress) => {
+          setUploadProgress(progress.percent);
+          setTransferStats(progress);
+        },
+      });
+      
+      abortControllerRef.current = null;
 
-      // Step 3: Complete the multipart upload
+      // Step 6: Complete the multipart upload
       await completeUpload(uploadId, videoId, key, parts);
+      activeUploadRef.current = null;
       
       // Reset state
       setSelectedFile(null);
       setIsUploading(false);
       setUploadProgress(0);
+      setTransferStats(null);
       form.reset();
       
     } catch (error) {
       setIsUploading(false);
+      setIsHashing(false);
+      setTransferStats(null);
+      
+      if (error instanceof UploadAbortedError) {
+        // Cancelled by the user
+        return;
+      }
+      
+      if (error instanceof PlanLimitError) {
+        setUpgradePrompt({ message: error.message, canUpgrade: error.canUpgrade, entitlement: error.entitlement });
+        return;
+      }
+      
       console.error("❌ Upload error:", error);
-      toast.error("Upload failed. Please try again.");
+      
+      // Parts already sent can be picked up again; anything earlier just failed
+      const uploadStarted = activeUploadRef.current !== null;
+      activeUploadRef.current = null;
+      toast.error(
+        uploadStarted
+          ? "Upload interrupted. Select the same file again to resume where it stopped."
+          : error instanceof Error && error.message ? error.message : "Failed to start the upload. Please try again."
+      );
     }
   };
 
@@ -272,6 +456,7 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
         if (!newOpen) {
           setSelectedFile(null);
           setUploadProgress(0);
+          setDuplicate(null);
           form.reset();
         }
       } else if (!newOpen) {
@@ -279,11 +464,20 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
       }
     }}>
       <DialogTrigger asChild>
-        <Button><Upload className="mr-2 h-4 w-4" /> Upload Video</Button>
+        {parentVideo ? (
+          <Button variant="outline" size="sm"><Layers className="mr-2 h-4 w-4" /> Upload New Version</Button>
+        ) : (
+          <Button><Upload className="mr-2 h-4 w-4" /> Upload Video</Button>
+        )}
       </DialogTrigger>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Upload Video</DialogTitle>
+          <DialogTitle>{parentVideo ? "Upload New Version" : "Upload Video"}</DialogTitle>
+          {parentVideo && (
+            <DialogDescription>
+              The new version replaces &quot;{parentVideo.title}&quot; in the workspace. Open comments are carried over.
+            </DialogDescription>
+          )}
         </DialogHeader>
         <FormProvider {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
@@ -301,6 +495,7 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
                         onClick={(e) => {
                           e.stopPropagation();
                           setSelectedFile(null);
+                          setDuplicate(null);
                         }}
                       >
                         <X className="h-4 w-4" />
@@ -350,10 +545,53 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
             {(uploadProgress > 0 || isUploading) && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Upload Progress</span>
+                  <span>{isHashing ? "Checking file" : "Upload Progress"}</span>
                   <span>{uploadProgress}%</span>
                 </div>
                 <Progress value={uploadProgress} className="h-2" />
+                {transferStats && (
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>
+                      {formatBytes(transferStats.uploadedBytes)} of {formatBytes(transferStats.totalBytes)}
+                      {transferStats.bytesPerSecond > 0 && ` · ${formatBytes(transferStats.bytesPerSecond)}/s`}
+                    </span>
+                    {transferStats.etaSeconds !== null && (
+                      <span>{formatDuration(transferStats.etaSeconds)} left</span>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {upgradePrompt && (
+              <UpgradePrompt message={upgradePrompt.message} canUpgrade={upgradePrompt.canUpgrade} />
+            )}
+
+            {duplicate && (
+              <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/40">
+                <p>
+                  This file is already in the workspace as{" "}
+                  <span className="font-medium">&quot;{duplicate.title}&quot;</span>
+                  {duplicate.versionNumber > 1 && ` (version ${duplicate.versionNumber})`}, uploaded{" "}
+                  {new Date(duplicate.createdAt).toLocaleDateString()}.
+                </p>
+                <div className="mt-3 flex gap-2">
+                  <Button type="button" size="sm" asChild>
+                    <Link
+                      href={`/videos/${duplicate.videoId}`}
+                      onClick={() => {
+                        setOpen(false);
+                        setSelectedFile(null);
+                        setDuplicate(null);
+                      }}
+                    >
+                      Open Existing Video
+                    </Link>
+                  </Button>
+                  <Button type="button" size="sm" variant="outline" onClick={uploadDuplicateAnyway}>
+                    Upload Anyway
+                  </Button>
+                </div>
               </div>
             )}
 
@@ -369,7 +607,7 @@ export function S3MultipartUploadForm({ workspaceId }: { workspaceId: string })
               )}
               <Button 
                 type="submit" 
-                disabled={!selectedFile || isUploading}
+                disabled={!selectedFile || isUploading || !!upgradePrompt}
                 className="min-w-24"
               >
                 {isUploading ? "Uploading..." : "Upload Video"}
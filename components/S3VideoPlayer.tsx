@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from "react";
 import Hls from "hls.js";
 import { Play, Pause, Volume2, VolumeX, Maximize, Settings, Crown } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -15,14 +15,72 @@ import { Slider } from "@/components/ui/slider";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useUserMembership } from "@/lib/UseUserMembership";
+import { usePreviewThumbnails } from "@/lib/UsePreviewThumbnails";
+import { AnnotationOverlay } from "@/components/AnnotationOverlay";
+import { ANNOTATION_HOLD_SECONDS, AnnotationShape, AnnotationTool } from "@/lib/annotations";
+
+export type TimelineMarker = {
+  id: string;
+  start: number;
+  end?: number;
+  resolved?: boolean;
+};
+
+export type FrameAnnotation = {
+  id: string;
+  time: number;
+  shapes: AnnotationShape[];
+};
+
+export type S3VideoPlayerHandle = {
+  seek: (time: number) => void;
+  play: () => void;
+  pause: () => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+};
 
 interface S3VideoPlayerProps {
   hlsUrl: string;
   title: string;
   isHls?: boolean;
+  /** WebVTT thumbnails track used for the seek bar hover preview */
+  previewThumbnailsUrl?: string | null;
+  /** Points (or ranges) drawn on the seek bar, e.g. comment timecodes */
+  markers?: TimelineMarker[];
+  onMarkerClick?: (id: string) => void;
+  /** Drawings shown when playback reaches their frame */
+  annotations?: FrameAnnotation[];
+  /** Source frame rate, used to match annotations to a single frame */
+  frameRate?: number;
+  /** Puts the player in drawing mode over the current (paused) frame */
+  drawing?: {
+    shapes: AnnotationShape[];
+    tool: AnnotationTool;
+    color: string;
+    onChange: (shapes: AnnotationShape[]) => void;
+  } | null;
+  /** Hide the built-in controls when the parent drives playback, e.g. when comparing versions */
+  controls?: boolean;
+  muted?: boolean;
 }
 
-export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProps) {
+export const S3VideoPlayer = forwardRef<S3VideoPlayerHandle, S3VideoPlayerProps>(function S3VideoPlayer(
+  {
+    hlsUrl,
+    title,
+    isHls = true,
+    previewThumbnailsUrl,
+    markers = [],
+    onMarkerClick,
+    annotations = [],
+    frameRate,
+    drawing,
+    controls = true,
+    muted = false,
+  },
+  ref
+) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const hlsRef = useRef<Hls | null>(null);
@@ -39,10 +97,46 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
   const [selectedQuality, setSelectedQuality] = useState<string>("auto");
   const [availableQualities, setAvailableQualities] = useState<string[]>([]);
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [hoverPosition, setHoverPosition] = useState<{ time: number; left: number } | null>(null);
+  const seekBarRef = useRef<HTMLDivElement>(null);
+  const getPreviewThumbnail = usePreviewThumbnails(previewThumbnailsUrl);
 
+  // Let the parent drive playback (e.g. seeking to a comment's timecode)
+  useImperativeHandle(ref, () => ({
+    seek: (time: number) => {
+      if (!videoRef.current) return;
+      videoRef.current.currentTime = time;
+      setCurrentTime(time);
+    },
+    play: () => {
+      videoRef.current?.play().catch((error) => console.error("Playback failed:", error));
+    },
+    pause: () => videoRef.current?.pause(),
+    getCurrentTime: () => videoRef.current?.currentTime ?? 0,
+    getDuration: () => videoRef.current?.duration || 0,
+  }), []);
+  
+  // Keep the element in sync when the parent mutes or unmutes it
+  useEffect(() => {
+    if (!videoRef.current) return;
+    videoRef.current.muted = muted;
+    setIsMuted(muted);
+  }, [muted]);
+  
   // Get the user's membership status
   const { isPaidMember } = useUserMembership();
   
+  // Label a level by its ladder rung (e.g. "1080p"), which for portrait or
+  // ultra-wide sources doesn't match the pixel height
+  const getLevelLabel = (level: { url: string[] | string; height: number; width: number }) => {
+    const url = Array.isArray(level.url) ? level.url[0] : level.url;
+    const rung = url?.match(/(\d+p)\/playlist\.m3u8/);
+    if (rung) return rung[1];
+    if (!level.height) return "Unknown";
+    return `${Math.min(level.width || level.height, level.height)}p`;
+  };
+  
   // Format time (seconds) to MM:SS
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
@@ -78,10 +172,7 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
           console.log("HLS manifest parsed, levels:", data.levels);
           
           // Get available quality levels
-          const parsedLevels = data.levels.map((level) => {
-            const height = level.height;
-            return height ? `${height}p` : "Unknown";
-          });
+          const parsedLevels = data.levels.map(getLevelLabel);
           
           setAvailableQualities(["auto", ...parsedLevels]);
           
@@ -90,7 +181,7 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
             console.log("Non-paid member - forcing 720p quality");
             
             // Find the index of the 720p level
-            const quality720Index = hls.levels.findIndex(level => level.height === 720);
+            const quality720Index = hls.levels.findIndex(level => getLevelLabel(level) === "720p");
             if (quality720Index !== -1) {
               // Set the quality to 720p
               hls.currentLevel = quality720Index;
@@ -197,6 +288,28 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
     setCurrentTime(newTime);
   };
   
+  // Track the time under the cursor on the seek bar for the hover preview
+  const handleSeekBarHover = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!seekBarRef.current || !duration) return;
+    
+    const rect = seekBarRef.current.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    setHoverPosition({ time: fraction * duration, left: event.clientX - rect.left });
+  };
+  
+  const hoverPreview = hoverPosition ? getPreviewThumbnail(hoverPosition.time) : null;
+  
+  // When paused, an annotation shows only on its own frame; during playback it
+  // stays up briefly after its frame so it can actually be seen
+  const halfFrame = 0.5 / (frameRate || 30);
+  const activeAnnotation = drawing
+    ? null
+    : annotations.find((annotation) =>
+        isPlaying
+          ? currentTime >= annotation.time - halfFrame && currentTime < annotation.time + ANNOTATION_HOLD_SECONDS
+          : Math.abs(currentTime - annotation.time) < halfFrame
+      );
+  
   // Handle fullscreen
   const toggleFullscreen = () => {
     if (!wrapperRef.current) return;
@@ -226,7 +339,7 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
     } else {
       // Find the level index that matches the selected quality
       const levelIndex = hlsRef.current.levels.findIndex(
-        l => l.height === parseInt(level.replace("p", ""))
+        l => getLevelLabel(l) === level
       );
       
       if (levelIndex !== -1) {
@@ -262,7 +375,10 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
       setIsMuted(video.muted);
     };
     const onTimeUpdate = () => setCurrentTime(video.currentTime);
-    const onLoadedMetadata = () => setDuration(video.duration);
+    const onLoadedMetadata = () => {
+      setDuration(video.duration);
+      setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+    };
     const onWaiting = () => setBuffering(true);
     const onPlaying = () => setBuffering(false);
     
@@ -301,10 +417,28 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
         className="w-full h-full"
         playsInline
         preload="auto"
-        onClick={togglePlay}
-        onDoubleClick={toggleFullscreen}
+        onClick={controls ? togglePlay : undefined}
+        onDoubleClick={controls ? toggleFullscreen : undefined}
       />
       
+      {/* Annotations: the one being drawn, or the one at the current frame */}
+      {drawing ? (
+        <AnnotationOverlay
+          shapes={drawing.shapes}
+          videoWidth={videoSize.width}
+          videoHeight={videoSize.height}
+          tool={drawing.tool}
+          color={drawing.color}
+          onChange={drawing.onChange}
+        />
+      ) : activeAnnotation && (
+        <AnnotationOverlay
+          shapes={activeAnnotation.shapes}
+          videoWidth={videoSize.width}
+          videoHeight={videoSize.height}
+        />
+      )}
+      
       {/* Premium Upgrade Dialog */}
       <Dialog open={showUpgradeDialog} onOpenChange={setShowUpgradeDialog}>
         <DialogContent className="sm:max-w-md">
@@ -351,7 +485,7 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
       )}
       
       {/* Big play button */}
-      {!isPlaying && videoReady && (
+      {!isPlaying && videoReady && !drawing && controls && (
         <div 
           className="absolute inset-0 flex items-center justify-center cursor-pointer"
           onClick={togglePlay}
@@ -366,7 +500,8 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
       <div 
         className={cn(
           "absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/80 to-transparent px-4 pb-4 pt-12 transition-opacity duration-300",
-          showControls ? "opacity-100" : "opacity-0 pointer-events-none"
+          showControls && !drawing ? "opacity-100" : "opacity-0 pointer-events-none",
+          !controls && "hidden"
         )}
       >
         {/* Title bar */}
@@ -441,7 +576,59 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
         </div>
         
         {/* Progress bar */}
-        <div className="flex items-center gap-2 mb-2">
+        <div
+          ref={seekBarRef}
+          className="relative flex items-center gap-2 mb-2"
+          onMouseMove={handleSeekBarHover}
+          onMouseLeave={() => setHoverPosition(null)}
+        >
+          {/* Scrubbing preview */}
+          {hoverPosition && (
+            <div
+              className="absolute bottom-full mb-3 -translate-x-1/2 pointer-events-none flex flex-col items-center gap-1"
+              style={{
+                left: Math.min(
+                  Math.max(hoverPosition.left, (hoverPreview?.width ?? 0) / 2),
+                  (seekBarRef.current?.clientWidth ?? 0) - (hoverPreview?.width ?? 0) / 2
+                ),
+              }}
+            >
+              {hoverPreview && (
+                <div
+                  className="rounded border border-white/40 shadow-lg"
+                  style={{
+                    width: hoverPreview.width,
+                    height: hoverPreview.height,
+                    backgroundImage: `url("${hoverPreview.url}")`,
+                    backgroundPosition: `-${hoverPreview.x}px -${hoverPreview.y}px`,
+                  }}
+                />
+              )}
+              <span className="rounded bg-black/80 px-1.5 py-0.5 text-xs text-white">
+                {formatTime(hoverPosition.time)}
+              </span>
+            </div>
+          )}
+          {/* Timeline markers */}
+          {duration > 0 && markers.map((marker) => (
+            <button
+              key={marker.id}
+              type="button"
+              title={formatTime(marker.start)}
+              onClick={() => {
+                if (videoRef.current) videoRef.current.currentTime = marker.start;
+                onMarkerClick?.(marker.id);
+              }}
+              className={cn(
+                "absolute -top-2.5 z-10 h-2 min-w-2 rounded-full -translate-x-1 hover:scale-125 transition-transform",
+                marker.resolved ? "bg-white/40" : "bg-yellow-400"
+              )}
+              style={{
+                left: `${(marker.start / duration) * 100}%`,
+                width: marker.end ? `${((marker.end - marker.start) / duration) * 100}%` : undefined,
+              }}
+            />
+          ))}
           <Slider
             value={[currentTime]}
             max={duration || 100}
@@ -503,4 +690,4 @@ export function S3VideoPlayer({ hlsUrl, title, isHls = true }: S3VideoPlayerProp
       </div>
     </div>
   );
-}
\ No newline at end of file
+});
@@ -0,0 +1,73 @@
+import { HardDrive } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn, formatBytes } from "@/lib/utils";
+import type { StorageBreakdown } from "@/lib/storage-usage";
+
+type StorageUsageMeterProps = {
+  usedBytes: number;
+  quotaBytes: number;
+  /** In-progress uploads held against the quota */
+  reservedBytes?: number;
+  byKind?: StorageBreakdown;
+  label?: string;
+  className?: string;
+};
+
+const KIND_LABELS: Record<keyof StorageBreakdown, string> = {
+  source: "Source files",
+  hls: "Streaming renditions",
+  thumbnail: "Thumbnails",
+};
+
+// Warn before uploads start being refused
+const WARNING_RATIO = 0.8;
+
+/**
+ * Bar showing storage used against a plan's quota, with a per-kind breakdown
+ */
+export function StorageUsageMeter({
+  usedBytes,
+  quotaBytes,
+  reservedBytes = 0,
+  byKind,
+  label = "Storage",
+  className,
+}: StorageUsageMeterProps) {
+  const ratio = quotaBytes > 0 ? (usedBytes + reservedBytes) / quotaBytes : 0;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 font-medium">
+          <HardDrive className="h-4 w-4 text-muted-foreground" />
+          {label}
+        </span>
+        <span className="tabular-nums text-muted-foreground">
+          {formatBytes(usedBytes)} of {formatBytes(quotaBytes)}
+        </span>
+      </div>
+      <Progress
+        value={Math.min(100, ratio * 100)}
+        className={cn("h-2", ratio >= 1 ? "[&>*]:bg-destructive" : ratio >= WARNING_RATIO && "[&>*]:bg-amber-500")}
+      />
+      {reservedBytes > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {formatBytes(reservedBytes)} reserved for uploads in progress
+        </p>
+      )}
+      {ratio >= 1 && (
+        <p className="text-xs text-destructive">Storage is full. New uploads are blocked until space is freed.</p>
+      )}
+      {byKind && (
+        <dl className="grid grid-cols-3 gap-2 pt-1 text-xs">
+          {(Object.keys(KIND_LABELS) as (keyof StorageBreakdown)[]).map((kind) => (
+            <div key={kind}>
+              <dt className="text-muted-foreground">{KIND_LABELS[kind]}</dt>
+              <dd className="tabular-nums">{formatBytes(byKind[kind])}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import Link from "next/link";
+import { Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CheckoutButton } from "@/components/checkout-button";
+import { cn } from "@/lib/utils";
+
+type UpgradePromptProps = {
+  message: string;
+  /** Only the workspace owner's plan matters, so others are sent to the plans page */
+  canUpgrade: boolean;
+  className?: string;
+};
+
+/**
+ * Shown in place of an action that would go over a plan limit
+ */
+export function UpgradePrompt({ message, canUpgrade, className }: UpgradePromptProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-md border border-amber-300 bg-amber-50 p-3 text-sm dark:border-amber-900 dark:bg-amber-950/40",
+        className
+      )}
+    >
+      <p className="flex gap-2">
+        <Sparkles className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+        <span>{message}</span>
+      </p>
+      <div className="mt-3">
+        {canUpgrade ? (
+          <CheckoutButton plan="PRO" />
+        ) : (
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/pricing">See plans</Link>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
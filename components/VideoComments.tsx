@@ -0,0 +1,469 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ArrowUpRight,
+  Brush,
+  CheckCircle,
+  Clock,
+  CornerDownRight,
+  Layers,
+  MessageSquare,
+  Pencil,
+  RotateCcw,
+  Square,
+  Trash2,
+  Type,
+  Undo2,
+  X,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { formatDuration } from "@/lib/mux";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { createComment, deleteComment, resolveComment, updateComment } from "@/actions/comment";
+import type { CommentPermissions, VideoComment } from "@/lib/UseVideoComments";
+import type { AnnotationDrawing } from "@/lib/UseAnnotationDrawing";
+import { ANNOTATION_COLORS, AnnotationTool } from "@/lib/annotations";
+
+type VideoCommentsProps = {
+  videoId: string;
+  comments: VideoComment[];
+  permissions: CommentPermissions;
+  currentUserId: string | null;
+  isLoading: boolean;
+  onChange: () => void;
+  /** Reads the player's position when a new comment is started */
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  onComposerFocus?: () => void;
+  highlightedId?: string | null;
+  drawing: AnnotationDrawing;
+  /** Pause on the comment's frame so it can be drawn on */
+  onStartDrawing: (time: number) => void;
+};
+
+const TOOL_ICONS: Record<AnnotationTool, typeof Brush> = {
+  freehand: Brush,
+  arrow: ArrowUpRight,
+  rect: Square,
+  text: Type,
+};
+
+// Get initials from name for avatar fallback
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .substring(0, 2);
+
+const formatTimecode = (comment: Pick<VideoComment, "timecodeIn" | "timecodeOut">) => {
+  if (comment.timecodeIn === undefined || comment.timecodeIn === null) return null;
+  return comment.timecodeOut
+    ? `${formatDuration(comment.timecodeIn)} – ${formatDuration(comment.timecodeOut)}`
+    : formatDuration(comment.timecodeIn);
+};
+
+export function VideoComments({
+  videoId,
+  comments,
+  permissions,
+  currentUserId,
+  isLoading,
+  onChange,
+  getCurrentTime,
+  onSeek,
+  onComposerFocus,
+  highlightedId,
+  drawing,
+  onStartDrawing,
+}: VideoCommentsProps) {
+  const [body, setBody] = useState("");
+  const [timecodeIn, setTimecodeIn] = useState<number | null>(null);
+  const [timecodeOut, setTimecodeOut] = useState<number | null>(null);
+  const [isPosting, setIsPosting] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+
+  const threads = comments.filter((comment) => !comment.parentId);
+  const visibleThreads = threads.filter((comment) => showResolved || !comment.resolved);
+  const resolvedCount = threads.filter((comment) => comment.resolved).length;
+  const getReplies = (commentId: string) => comments.filter((comment) => comment.parentId === commentId);
+
+  // Run a comment action, reporting failures and refreshing on success
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    const response = await action();
+
+    if (!response.success) {
+      toast.error(response.error || "Something went wrong");
+      return false;
+    }
+
+    onChange();
+    return true;
+  };
+
+  // Starting a comment pauses playback and pins it to the current frame
+  const handleComposerFocus = () => {
+    if (timecodeIn === null && !body) {
+      // Keep millisecond precision so drawings land on the exact frame
+      setTimecodeIn(Math.round(getCurrentTime() * 1000) / 1000);
+      setTimecodeOut(null);
+    }
+    onComposerFocus?.();
+  };
+
+  const handleSetOutPoint = () => {
+    const time = Math.round(getCurrentTime() * 1000) / 1000;
+
+    if (timecodeIn === null || time <= timecodeIn) {
+      toast.error("Move the playhead past the comment's start to set an out point");
+      return;
+    }
+
+    setTimecodeOut(time);
+  };
+
+  const handlePost = async () => {
+    if (!body.trim()) return;
+
+    setIsPosting(true);
+    const posted = await runAction(() =>
+      createComment(videoId, {
+        body,
+        timecodeIn: timecodeIn ?? undefined,
+        timecodeOut: timecodeOut ?? undefined,
+        annotations: timecodeIn !== null && drawing.shapes.length > 0 ? drawing.shapes : undefined,
+      })
+    );
+    setIsPosting(false);
+
+    if (posted) {
+      setBody("");
+      setTimecodeIn(null);
+      setTimecodeOut(null);
+      drawing.stop();
+    }
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (!replyBody.trim()) return;
+
+    if (await runAction(() => createComment(videoId, { body: replyBody, parentId }))) {
+      setReplyBody("");
+      setReplyingTo(null);
+    }
+  };
+
+  const handleSaveEdit = async (commentId: string) => {
+    if (await runAction(() => updateComment(commentId, { body: editBody }))) {
+      setEditingId(null);
+    }
+  };
+
+  const renderComment = (comment: VideoComment, isReply = false) => {
+    const timecode = formatTimecode(comment);
+    const isAuthor = comment.author.id === currentUserId;
+    const canDelete = isAuthor || permissions.canModerate;
+
+    return (
+      <div key={comment._id} className={cn("flex gap-3", isReply && "pl-8")}>
+        <Avatar className="h-7 w-7">
+          <AvatarImage src={comment.author.profileImage} alt={comment.author.name} />
+          <AvatarFallback className="text-xs">{getInitials(comment.author.name)}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 min-w-0 space-y-1">
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="font-medium text-sm">{comment.author.name}</span>
+            <span className="text-muted-foreground">{formatRelativeTime(comment.createdAt)}</span>
+            {comment.editedAt && <span className="text-muted-foreground">(edited)</span>}
+            {comment.annotations && comment.annotations.length > 0 && (
+              <span className="inline-flex items-center gap-1 text-muted-foreground">
+                <Brush className="h-3 w-3" />
+                Drawing
+              </span>
+            )}
+            {comment.carriedFromVersion && (
+              <span className="inline-flex items-center gap-1 text-muted-foreground">
+                <Layers className="h-3 w-3" />
+                From v{comment.carriedFromVersion}
+              </span>
+            )}
+          </div>
+
+          {editingId === comment._id ? (
+            <div className="space-y-2">
+              <Textarea value={editBody} onChange={(e) => setEditBody(e.target.value)} className="min-h-16 resize-none" />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => handleSaveEdit(comment._id)} disabled={!editBody.trim()}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {!isReply && timecode && (
+                <button
+                  type="button"
+                  onClick={() => onSeek(comment.timecodeIn!)}
+                  className="mr-2 inline-flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 text-xs font-medium text-primary hover:bg-primary/20"
+                >
+                  <Clock className="h-3 w-3" />
+                  {timecode}
+                </button>
+              )}
+              {comment.body}
+            </p>
+          )}
+
+          {editingId !== comment._id && (
+            <div className="flex items-center gap-1 -ml-2">
+              {!isReply && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplyingTo(comment._id)}>
+                  <CornerDownRight className="h-3 w-3 mr-1" />
+                  Reply
+                </Button>
+              )}
+              {isAuthor && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => {
+                    setEditingId(comment._id);
+                    setEditBody(comment.body);
+                  }}
+                >
+                  <Pencil className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+              )}
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-destructive hover:text-destructive"
+                  onClick={() => runAction(() => deleteComment(comment._id))}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Delete
+                </Button>
+              )}
+              {!isReply && permissions.canResolve && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => runAction(() => resolveComment(comment._id, !comment.resolved))}
+                >
+                  {comment.resolved ? (
+                    <>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Reopen
+                    </>
+                  ) : (
+                    <>
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Resolve
+                    </>
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="font-medium flex items-center gap-2">
+          <MessageSquare className="h-4 w-4" />
+          Comments ({threads.length - resolvedCount} open)
+        </h2>
+        {resolvedCount > 0 && (
+          <div className="flex items-center gap-2">
+            <Switch id="show-resolved" checked={showResolved} onCheckedChange={setShowResolved} />
+            <Label htmlFor="show-resolved" className="text-sm text-muted-foreground">
+              Show resolved ({resolvedCount})
+            </Label>
+          </div>
+        )}
+      </div>
+
+      {/* Composer */}
+      <div className="space-y-2 rounded-lg border p-3">
+        <Textarea
+          placeholder="Leave a comment at the current frame..."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onFocus={handleComposerFocus}
+          className="min-h-16 resize-none"
+        />
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-xs">
+            {timecodeIn !== null ? (
+              <>
+                <span className="inline-flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 font-medium text-primary">
+                  <Clock className="h-3 w-3" />
+                  {formatTimecode({ timecodeIn, timecodeOut: timecodeOut ?? undefined })}
+                  <button
+                    type="button"
+                    aria-label="Remove timecode"
+                    onClick={() => {
+                      setTimecodeIn(null);
+                      setTimecodeOut(null);
+                      drawing.stop();
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+                {timecodeOut === null && (
+                  <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={handleSetOutPoint}>
+                    Set out point
+                  </Button>
+                )}
+                {!drawing.isDrawing && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => {
+                      onStartDrawing(timecodeIn);
+                      drawing.start();
+                    }}
+                  >
+                    <Brush className="h-3 w-3 mr-1" />
+                    Draw
+                  </Button>
+                )}
+              </>
+            ) : (
+              <span className="text-muted-foreground">General comment</span>
+            )}
+          </div>
+          <Button size="sm" onClick={handlePost} disabled={isPosting || !body.trim()}>
+            {isPosting ? "Posting..." : "Comment"}
+          </Button>
+        </div>
+
+        {/* Drawing tools, used on the paused frame in the player */}
+        {drawing.isDrawing && (
+          <div className="flex flex-wrap items-center gap-1 border-t pt-2">
+            {(Object.keys(TOOL_ICONS) as AnnotationTool[]).map((tool) => {
+              const Icon = TOOL_ICONS[tool];
+              return (
+                <Button
+                  key={tool}
+                  variant={drawing.tool === tool ? "secondary" : "ghost"}
+                  size="icon"
+                  className="h-7 w-7"
+                  aria-label={tool}
+                  onClick={() => drawing.setTool(tool)}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </Button>
+              );
+            })}
+            <div className="mx-1 flex items-center gap-1">
+              {ANNOTATION_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  aria-label={`Colour ${color}`}
+                  onClick={() => drawing.setColor(color)}
+                  className={cn(
+                    "h-5 w-5 rounded-full border",
+                    drawing.color === color && "ring-2 ring-primary ring-offset-1"
+                  )}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Undo"
+              onClick={drawing.undo}
+              disabled={drawing.shapes.length === 0}
+            >
+              <Undo2 className="h-3.5 w-3.5" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs ml-auto" onClick={drawing.stop}>
+              Discard drawing
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Threads */}
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading comments...</p>
+      ) : visibleThreads.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic">
+          {threads.length === 0 ? "No comments yet" : "All comments are resolved"}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {visibleThreads.map((thread) => (
+            <div
+              key={thread._id}
+              id={`comment-${thread._id}`}
+              className={cn(
+                "space-y-3 rounded-lg border p-3 transition-colors",
+                thread.resolved && "opacity-60",
+                highlightedId === thread._id && "border-primary bg-primary/5"
+              )}
+            >
+              {renderComment(thread)}
+              {getReplies(thread._id).map((reply) => renderComment(reply, true))}
+
+              {replyingTo === thread._id && (
+                <div className="space-y-2 pl-8">
+                  <Textarea
+                    autoFocus
+                    placeholder="Write a reply..."
+                    value={replyBody}
+                    onChange={(e) => setReplyBody(e.target.value)}
+                    className="min-h-14 resize-none"
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleReply(thread._id)} disabled={!replyBody.trim()}>
+                      Reply
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setReplyingTo(null);
+                        setReplyBody("");
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Blend, ChevronLeft, Columns2, Pause, Play, SquareSplitHorizontal, Volume2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/mux";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { S3VideoPlayer, S3VideoPlayerHandle } from "@/components/S3VideoPlayer";
+import { VideoComments } from "@/components/VideoComments";
+import { useVideoComments, VideoComment } from "@/lib/UseVideoComments";
+import { useAnnotationDrawing } from "@/lib/UseAnnotationDrawing";
+import { useVideoStream } from "@/lib/UseVideoStream";
+
+type CompareMode = "side-by-side" | "wipe" | "difference";
+
+type CompareVideo = {
+  _id: string;
+  title: string;
+  status: string;
+  versionNumber?: number;
+  mediaInfo?: {
+    frameRate?: number;
+  };
+};
+
+type VideoCompareProps = {
+  left: CompareVideo;
+  right: CompareVideo;
+  /** Versions in the stack, for picking what goes on each side */
+  versions: { _id: string; versionNumber: number; status: string; isLatest: boolean }[];
+};
+
+const MODES: { value: CompareMode; label: string; icon: typeof Columns2 }[] = [
+  { value: "side-by-side", label: "Side by side", icon: Columns2 },
+  { value: "wipe", label: "Wipe", icon: SquareSplitHorizontal },
+  { value: "difference", label: "Difference", icon: Blend },
+];
+
+// The follower is nudged back into line when it drifts further than this
+const MAX_DRIFT_SECONDS = 0.1;
+const SYNC_INTERVAL_MS = 250;
+
+// Top-level comments with drawings, as shown by the player
+const toFrameAnnotations = (comments: VideoComment[]) =>
+  comments
+    .filter((comment) => !comment.parentId && comment.annotations?.length && comment.timecodeIn !== undefined)
+    .map((comment) => ({ id: comment._id, time: comment.timecodeIn!, shapes: comment.annotations! }));
+
+/**
+ * Plays two versions of a video in lockstep, either next to each other, as a
+ * wipe between them or as a difference blend, with each side's comments below
+ */
+export function VideoCompare({ left, right, versions }: VideoCompareProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<CompareMode>("side-by-side");
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [wipePosition, setWipePosition] = useState(50);
+  const [audioSide, setAudioSide] = useState<"left" | "right">("left");
+  const stageRef = useRef<HTMLDivElement>(null);
+  const leftRef = useRef<S3VideoPlayerHandle>(null);
+  const rightRef = useRef<S3VideoPlayerHandle>(null);
+
+  const leftStream = useVideoStream(left._id, left.status === "ready");
+  const rightStream = useVideoStream(right._id, right.status === "ready");
+  const leftComments = useVideoComments(left._id);
+  const rightComments = useVideoComments(right._id);
+  const leftDrawing = useAnnotationDrawing();
+  const rightDrawing = useAnnotationDrawing();
+
+  const play = useCallback(() => {
+    leftRef.current?.play();
+    rightRef.current?.play();
+    setIsPlaying(true);
+  }, []);
+
+  const pause = useCallback(() => {
+    leftRef.current?.pause();
+    rightRef.current?.pause();
+    setIsPlaying(false);
+  }, []);
+
+  const seek = useCallback((time: number) => {
+    leftRef.current?.seek(time);
+    rightRef.current?.seek(time);
+    setCurrentTime(time);
+  }, []);
+
+  // The left player leads; the right one is kept in step with it
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const leader = leftRef.current;
+      const follower = rightRef.current;
+      if (!leader || !follower) return;
+
+      const time = leader.getCurrentTime();
+      const leaderDuration = leader.getDuration();
+      setCurrentTime(time);
+      setDuration(Math.max(leaderDuration, follower.getDuration()));
+
+      if (!isPlaying) return;
+
+      if (leaderDuration && time >= leaderDuration - 0.05) {
+        pause();
+      } else if (Math.abs(follower.getCurrentTime() - time) > MAX_DRIFT_SECONDS) {
+        follower.seek(time);
+      }
+    }, SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, pause]);
+
+  // Drag anywhere on the stage to move the wipe
+  const handleWipePointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (mode !== "wipe" || (event.type === "pointermove" && event.buttons !== 1)) return;
+
+    const rect = stageRef.current!.getBoundingClientRect();
+    setWipePosition(Math.min(100, Math.max(0, ((event.clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const getLabel = (video: CompareVideo) => `Version ${video.versionNumber ?? 1}`;
+
+  // Swap one side for another version, keeping the other side
+  const changeSide = (side: "left" | "right", videoId: string) => {
+    const [leftId, rightId] = side === "left" ? [videoId, right._id] : [left._id, videoId];
+    router.push(`/videos/${leftId}/compare?with=${rightId}`);
+  };
+
+  const renderPlayer = (side: "left" | "right") => {
+    const video = side === "left" ? left : right;
+    const { stream, isLoading, error } = side === "left" ? leftStream : rightStream;
+    const comments = side === "left" ? leftComments.comments : rightComments.comments;
+    const drawing = side === "left" ? leftDrawing : rightDrawing;
+
+    if (video.status !== "ready" || error) {
+      return (
+        <div className="aspect-video w-full bg-muted/60 rounded-lg flex items-center justify-center border">
+          <p className="text-sm text-muted-foreground">{error || "This version isn't ready for playback"}</p>
+        </div>
+      );
+    }
+
+    if (isLoading || !stream) {
+      return <div className="aspect-video w-full bg-muted animate-pulse rounded-lg" />;
+    }
+
+    return (
+      <S3VideoPlayer
+        ref={side === "left" ? leftRef : rightRef}
+        hlsUrl={stream.url}
+        isHls={stream.isHls}
+        title={video.title}
+        controls={false}
+        muted={audioSide !== side}
+        annotations={toFrameAnnotations(comments)}
+        frameRate={video.mediaInfo?.frameRate}
+        drawing={drawing.isDrawing ? {
+          shapes: drawing.shapes,
+          tool: drawing.tool,
+          color: drawing.color,
+          onChange: drawing.setShapes,
+        } : null}
+      />
+    );
+  };
+
+  const renderSidePicker = (side: "left" | "right") => {
+    const video = side === "left" ? left : right;
+    const other = side === "left" ? right : left;
+
+    return (
+      <Select value={video._id} onValueChange={(id) => changeSide(side, id)}>
+        <SelectTrigger size="sm" className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions
+            .filter((version) => version._id !== other._id)
+            .map((version) => (
+              <SelectItem key={version._id} value={version._id}>
+                Version {version.versionNumber}
+                {version.isLatest ? " (latest)" : ""}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const renderComments = (side: "left" | "right") => {
+    const video = side === "left" ? left : right;
+    const { comments, permissions, currentUserId, isLoading, refresh } =
+      side === "left" ? leftComments : rightComments;
+    const playerRef = side === "left" ? leftRef : rightRef;
+
+    return (
+      <div className="min-w-0 flex-1">
+        <h2 className="text-sm font-medium text-muted-foreground mb-2">{getLabel(video)}</h2>
+        <VideoComments
+          videoId={video._id}
+          comments={comments}
+          permissions={permissions}
+          currentUserId={currentUserId}
+          isLoading={isLoading}
+          onChange={refresh}
+          getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+          onSeek={(time) => {
+            pause();
+            seek(time);
+          }}
+          onComposerFocus={pause}
+          drawing={side === "left" ? leftDrawing : rightDrawing}
+          onStartDrawing={(time) => {
+            // Drawing needs the side's own frame in view
+            setMode("side-by-side");
+            pause();
+            seek(time);
+          }}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Button
+          variant="ghost"
+          size="sm"
+          asChild
+          className="gap-1 text-muted-foreground hover:text-foreground"
+        >
+          <Link href={`/videos/${left._id}`}>
+            <ChevronLeft className="h-4 w-4" />
+            Back to {left.title}
+          </Link>
+        </Button>
+
+        <div className="flex items-center gap-1 rounded-md border p-1">
+          {MODES.map(({ value, label, icon: Icon }) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={mode === value ? "secondary" : "ghost"}
+              onClick={() => setMode(value)}
+            >
+              <Icon className="mr-1 h-4 w-4" />
+              {label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        {renderSidePicker("left")}
+        {renderSidePicker("right")}
+      </div>
+
+      {/* Both players stay mounted across modes so playback isn't interrupted */}
+      <div
+        ref={stageRef}
+        className={cn(mode === "side-by-side" ? "grid gap-4 md:grid-cols-2" : "relative aspect-video select-none")}
+        onPointerDown={handleWipePointer}
+        onPointerMove={handleWipePointer}
+      >
+        <div className={cn(mode !== "side-by-side" && "absolute inset-0")}>{renderPlayer("left")}</div>
+        <div
+          className={cn(mode !== "side-by-side" && "absolute inset-0 pointer-events-none")}
+          style={
+            mode === "wipe"
+              ? { clipPath: `inset(0 0 0 ${wipePosition}%)` }
+              : mode === "difference"
+                ? { mixBlendMode: "difference" }
+                : undefined
+          }
+        >
+          {renderPlayer("right")}
+        </div>
+        {mode === "wipe" && (
+          <div
+            className="absolute inset-y-0 w-0.5 -translate-x-1/2 bg-white shadow cursor-ew-resize"
+            style={{ left: `${wipePosition}%` }}
+          />
+        )}
+      </div>
+
+      {/* Shared transport for both players */}
+      <div className="flex items-center gap-3 rounded-lg border px-3 py-2">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={isPlaying ? pause : play}>
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" fill="currentColor" />}
+        </Button>
+        <Slider
+          value={[currentTime]}
+          max={duration || 100}
+          step={0.01}
+          onValueChange={([time]) => seek(time)}
+          className="flex-1 cursor-pointer"
+        />
+        <span className="text-xs tabular-nums text-muted-foreground">
+          {formatDuration(currentTime)} / {formatDuration(duration)}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setAudioSide(audioSide === "left" ? "right" : "left")}
+          title="Switch which version you hear"
+        >
+          <Volume2 className="mr-1 h-4 w-4" />
+          {audioSide === "left" ? getLabel(left) : getLabel(right)}
+        </Button>
+      </div>
+
+      <div className="flex flex-col gap-6 md:flex-row">
+        {renderComments("left")}
+        {renderComments("right")}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import Link from "next/link";
-import { ChevronLeft, Calendar, User, Eye } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, Calendar, User, Eye, GitCompare } from "lucide-react";
 import { formatDate } from "@/lib/utils";
+import { formatDuration } from "@/lib/mux";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { S3VideoPlayer } from "@/components/S3VideoPlayer";
+import { S3VideoPlayer, S3VideoPlayerHandle } from "@/components/S3VideoPlayer";
+import { VideoComments } from "@/components/VideoComments";
+import { VideoReviewPanel } from "@/components/VideoReviewPanel";
+import { useVideoComments } from "@/lib/UseVideoComments";
+import { useAnnotationDrawing } from "@/lib/UseAnnotationDrawing";
+import { VideoProcessingProgress } from "@/components/VideoProcessingProgress";
+import { S3MultipartUploadForm } from "@/components/S3MultipartUploadForm";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 
 type VideoDetailProps = {
@@ -18,6 +33,20 @@ type VideoDetailProps = {
     hlsKey?: string;
     videoKey?: string;
     viewCount: number;
+    duration?: number;
+    processingError?: string;
+    fileSize?: number;
+    mediaInfo?: {
+      container?: string;
+      width?: number;
+      height?: number;
+      frameRate?: number;
+      videoCodec?: string;
+      audioCodec?: string;
+      bitrate?: number;
+      audioChannels?: number;
+      rotation?: number;
+    };
     createdAt: string | undefined; // Updated to allow undefined
     uploader: {
       id: string;
@@ -29,6 +58,15 @@ type VideoDetailProps = {
       name: string;
       slug: string;
     };
+    versionNumber?: number;
+    versions?: {
+      _id: string;
+      versionNumber: number;
+      status: string;
+      isLatest: boolean;
+      createdAt: string;
+    }[];
+    canUploadVersion?: boolean;
   };
 };
 
@@ -37,8 +75,16 @@ export function VideoDetail({ video }: VideoDetailProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isHls, setIsHls] = useState(true);
+  const [previewThumbnailsUrl, setPreviewThumbnailsUrl] = useState<string | null>(null);
   const [isPremiumVideo, setIsPremiumVideo] = useState(false);
   const [userHasPremium, setUserHasPremium] = useState(false);
+  const router = useRouter();
+  const playerRef = useRef<S3VideoPlayerHandle>(null);
+  const [highlightedCommentId, setHighlightedCommentId] = useState<string | null>(null);
+  const { comments, permissions, currentUserId, isLoading: commentsLoading, refresh: refreshComments } =
+    useVideoComments(video._id);
+  const drawing = useAnnotationDrawing();
+  const isProcessing = video.status === 'uploading' || video.status === 'processing';
   
   // Get the HLS streaming URL
   useEffect(() => {
@@ -54,6 +100,7 @@ export function VideoDetail({ video }: VideoDetailProps) {
         
         const data = await response.json();
         setHlsUrl(data.url);
+        setPreviewThumbnailsUrl(data.previewThumbnailsUrl || null);
         setIsHls(data.isHLS !== false);
         setUserHasPremium(data.isPaidMember || false);
         setError(null);
@@ -70,11 +117,15 @@ export function VideoDetail({ video }: VideoDetailProps) {
     
     if (video.status === 'ready' && (video.hlsKey || video.videoKey)) {
       getStreamUrl();
+    } else if (video.status === 'uploading' || video.status === 'processing') {
+      // Progress is streamed below; the page refreshes once processing settles
+      setError(null);
+      setIsLoading(false);
     } else {
-      setError('Video is not ready for playback');
+      setError(video.processingError || 'Video is not ready for playback');
       setIsLoading(false);
     }
-  }, [video._id, video.status, video.hlsKey, video.videoKey]);
+  }, [video._id, video.status, video.hlsKey, video.videoKey, video.processingError]);
 
   // Get initials from name for avatar fallback
   const getInitials = (name: string) => {
@@ -86,6 +137,56 @@ export function VideoDetail({ video }: VideoDetailProps) {
       .substring(0, 2);
   };
 
+  // Technical details from ffprobe, skipping anything we couldn't read
+  const getTechnicalDetails = () => {
+    const info = video.mediaInfo;
+    if (!info) return [];
+
+    const channelLabels: Record<number, string> = { 1: "Mono", 2: "Stereo", 6: "5.1", 8: "7.1" };
+
+    return [
+      { label: "Duration", value: video.duration ? formatDuration(video.duration) : undefined },
+      { label: "Resolution", value: info.width && info.height ? `${info.width} × ${info.height}` : undefined },
+      { label: "Rotation", value: info.rotation ? `${info.rotation}°` : undefined },
+      { label: "Frame rate", value: info.frameRate ? `${info.frameRate} fps` : undefined },
+      { label: "Video codec", value: info.videoCodec },
+      { label: "Audio codec", value: info.audioCodec },
+      {
+        label: "Audio channels",
+        value: info.audioChannels ? channelLabels[info.audioChannels] || `${info.audioChannels} channels` : undefined,
+      },
+      { label: "Bitrate", value: info.bitrate ? `${(info.bitrate / 1000000).toFixed(2)} Mbps` : undefined },
+      { label: "Container", value: info.container?.split(",")[0] },
+      { label: "File size", value: video.fileSize ? `${(video.fileSize / (1024 * 1024)).toFixed(2)} MB` : undefined },
+    ].filter((detail): detail is { label: string; value: string } => Boolean(detail.value));
+  };
+
+  const technicalDetails = getTechnicalDetails();
+  const versions = video.versions ?? [];
+  const latestVersion = versions.find((version) => version.isLatest);
+  const isOlderVersion = Boolean(latestVersion && latestVersion._id !== video._id);
+
+  // Top-level comments with a timecode become markers on the seek bar
+  const commentMarkers = comments
+    .filter((comment) => !comment.parentId && comment.timecodeIn !== undefined && comment.timecodeIn !== null)
+    .map((comment) => ({
+      id: comment._id,
+      start: comment.timecodeIn!,
+      end: comment.timecodeOut,
+      resolved: comment.resolved,
+    }));
+
+  // Drawings are shown when playback reaches the frame they were made on
+  const frameAnnotations = comments
+    .filter((comment) => !comment.parentId && comment.annotations?.length && comment.timecodeIn !== undefined)
+    .map((comment) => ({ id: comment._id, time: comment.timecodeIn!, shapes: comment.annotations! }));
+
+  // Clicking a marker brings its thread into view
+  const handleMarkerClick = (commentId: string) => {
+    setHighlightedCommentId(commentId);
+    document.getElementById(`comment-${commentId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
   // Safely format date, handling undefined
   const safeFormatDate = (dateString: string | undefined) => {
     if (!dateString) return 'Unknown date';
@@ -108,7 +209,15 @@ export function VideoDetail({ video }: VideoDetailProps) {
         </Button>
       </div>
       
-      {isLoading ? (
+      {isProcessing ? (
+        <div className="aspect-video w-full bg-muted/60 rounded-lg flex items-center justify-center border">
+          <VideoProcessingProgress
+            videoId={video._id}
+            onSettled={() => router.refresh()}
+            showRenditions
+          />
+        </div>
+      ) : isLoading ? (
         <div className="aspect-video w-full bg-muted animate-pulse rounded-lg flex items-center justify-center">
           <p className="text-muted-foreground">Loading video...</p>
         </div>
@@ -122,8 +231,20 @@ export function VideoDetail({ video }: VideoDetailProps) {
        ) : hlsUrl ? (
         <S3VideoPlayer 
           hlsUrl={hlsUrl} 
+          ref={playerRef}
           title={video.title}
           isHls={isHls}
+          previewThumbnailsUrl={previewThumbnailsUrl}
+          markers={commentMarkers}
+          onMarkerClick={handleMarkerClick}
+          annotations={frameAnnotations}
+          frameRate={video.mediaInfo?.frameRate}
+          drawing={drawing.isDrawing ? {
+            shapes: drawing.shapes,
+            tool: drawing.tool,
+            color: drawing.color,
+            onChange: drawing.setShapes,
+          } : null}
         />
       ) : (
         <div className="aspect-video w-full bg-muted/60 rounded-lg flex items-center justify-center border">
@@ -133,7 +254,49 @@ export function VideoDetail({ video }: VideoDetailProps) {
       
       <div className="flex flex-col md:flex-row gap-6">
         <div className="flex-1">
-          <h1 className="text-2xl font-bold mb-2">{video.title}</h1>
+          <div className="flex flex-wrap items-start justify-between gap-3 mb-2">
+            <h1 className="text-2xl font-bold">{video.title}</h1>
+            <div className="flex items-center gap-2">
+              {versions.length > 1 && (
+                <Select value={video._id} onValueChange={(id) => router.push(`/videos/${id}`)}>
+                  <SelectTrigger size="sm" className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version._id} value={version._id}>
+                        Version {version.versionNumber}
+                        {version.isLatest ? " (latest)" : version.status !== "ready" ? ` (${version.status})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {versions.length > 1 && (
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/videos/${video._id}/compare`}>
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    Compare
+                  </Link>
+                </Button>
+              )}
+              {video.canUploadVersion && (
+                <S3MultipartUploadForm
+                  workspaceId={video.workspace.id}
+                  parentVideo={{ id: video._id, title: video.title }}
+                />
+              )}
+            </div>
+          </div>
+          
+          {isOlderVersion && latestVersion && (
+            <div className="mb-4 rounded-md border bg-muted/40 px-3 py-2 text-sm">
+              You&apos;re viewing version {video.versionNumber ?? 1}.{" "}
+              <Link href={`/videos/${latestVersion._id}`} className="font-medium underline underline-offset-2">
+                Go to the latest version (v{latestVersion.versionNumber})
+              </Link>
+            </div>
+          )}
           
           <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mb-4">
             <div className="flex items-center gap-1">
@@ -161,6 +324,30 @@ export function VideoDetail({ video }: VideoDetailProps) {
             <p className="text-sm text-muted-foreground italic">No description provided</p>
           )}
           
+          <div className="mt-8">
+            <VideoComments
+              videoId={video._id}
+              comments={comments}
+              permissions={permissions}
+              currentUserId={currentUserId}
+              isLoading={commentsLoading}
+              onChange={refreshComments}
+              getCurrentTime={() => playerRef.current?.getCurrentTime() ?? 0}
+              onSeek={(time) => {
+                // Pause on the comment's frame so any drawing on it stays visible
+                playerRef.current?.seek(time);
+                playerRef.current?.pause();
+              }}
+              onComposerFocus={() => playerRef.current?.pause()}
+              highlightedId={highlightedCommentId}
+              drawing={drawing}
+              onStartDrawing={(time) => {
+                playerRef.current?.pause();
+                playerRef.current?.seek(time);
+              }}
+            />
+          </div>
+          
           {/* Premium upgrade notice */}
           {isPremiumVideo && !userHasPremium && (
             <div className="mt-6 bg-primary/10 rounded-lg p-4 border border-primary/20">
@@ -194,6 +381,28 @@ export function VideoDetail({ video }: VideoDetailProps) {
               </div>
             </CardContent>
           </Card>
+
+          <VideoReviewPanel
+            videoId={video._id}
+            workspaceId={video.workspace.id}
+            isReady={video.status === "ready"}
+          />
+
+          {technicalDetails.length > 0 && (
+            <Card className="mt-4">
+              <CardContent className="pt-6">
+                <h3 className="font-medium mb-3">Technical Details</h3>
+                <dl className="grid grid-cols-2 gap-x-3 gap-y-2 text-sm">
+                  {technicalDetails.map((detail) => (
+                    <div key={detail.label} className="contents">
+                      <dt className="text-muted-foreground">{detail.label}</dt>
+                      <dd className="font-medium text-right truncate">{detail.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,52 @@
+"use client";
+
+import { Clock } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { useVideoProgress, VideoProgressState } from "@/lib/UseVideoProgress";
+import { formatDuration } from "@/lib/mux";
+
+type VideoProcessingProgressProps = {
+  videoId: string;
+  onSettled?: (status: VideoProgressState["status"]) => void;
+  showRenditions?: boolean;
+};
+
+export function VideoProcessingProgress({
+  videoId,
+  onSettled,
+  showRenditions = false,
+}: VideoProcessingProgressProps) {
+  const state = useVideoProgress(videoId, true, onSettled);
+  const progress = state?.progress;
+  const percent = progress?.percent ?? 0;
+
+  return (
+    <div className="w-full max-w-xs space-y-2 text-center p-4">
+      <div className="animate-pulse rounded-full h-8 w-8 bg-yellow-500/20 mx-auto flex items-center justify-center">
+        <Clock className="h-4 w-4 text-yellow-500" />
+      </div>
+      <p className="text-sm font-medium">
+        {progress ? `Processing ${Math.round(percent)}%` : "Waiting to process..."}
+      </p>
+      <Progress value={percent} className="h-2" />
+      {progress && (
+        <p className="text-xs text-muted-foreground">
+          {progress.currentRendition && `Encoding ${progress.currentRendition}`}
+          {progress.etaSeconds !== undefined && progress.etaSeconds !== null &&
+            ` · about ${formatDuration(progress.etaSeconds)} left`}
+        </p>
+      )}
+      {showRenditions && progress && progress.renditions.length > 0 && (
+        <div className="space-y-1 pt-2 text-left">
+          {progress.renditions.map((rendition) => (
+            <div key={rendition.name} className="flex items-center gap-2 text-xs">
+              <span className="w-12 text-muted-foreground">{rendition.name}</span>
+              <Progress value={rendition.percent} className="h-1.5 flex-1" />
+              <span className="w-10 text-right">{Math.round(rendition.percent)}%</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
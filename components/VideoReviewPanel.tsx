@@ -0,0 +1,298 @@
+"use client";
+
+import { useState } from "react";
+import { Check, CheckCircle, Clock, RotateCcw, Send, Users } from "lucide-react";
+import { toast } from "sonner";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ReviewStatusBadge } from "@/components/ReviewStatusBadge";
+import { getWorkspaceMembers } from "@/actions/workspace";
+import { approveVideo, reopenReview, requestChanges, submitForReview, updateReviewers } from "@/actions/review";
+import { useVideoReview } from "@/lib/UseVideoReview";
+import { REVIEW_ACTION_LABELS, REVIEW_STATUS_LABELS } from "@/lib/review";
+
+type VideoReviewPanelProps = {
+  videoId: string;
+  workspaceId: string;
+  /** Reviews can only start once the video has finished processing */
+  isReady: boolean;
+};
+
+type Member = {
+  userId: string;
+  name: string;
+  email: string;
+  profileImage: string;
+};
+
+// Get initials from name for avatar fallback
+const getInitials = (name: string) =>
+  name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase()
+    .substring(0, 2);
+
+/**
+ * Review status, reviewers and approval history for a video, with the
+ * transitions the current user is allowed to make
+ */
+export function VideoReviewPanel({ videoId, workspaceId, isReady }: VideoReviewPanelProps) {
+  const { review, permissions, currentUserId, isLoading, refresh } = useVideoReview(videoId);
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reviewerDialog, setReviewerDialog] = useState<"submit" | "edit" | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [selectedReviewerIds, setSelectedReviewerIds] = useState<string[]>([]);
+
+  if (isLoading || !review) {
+    return null;
+  }
+
+  const approvals = review.reviewers.filter((reviewer) => reviewer.approved).length;
+  const hasApproved = review.reviewers.some((reviewer) => reviewer.id === currentUserId && reviewer.approved);
+  const isInReview = review.status === "in_review";
+
+  // Runs a review action, refreshing the panel and clearing the note on success
+  const runAction = async (action: () => Promise<{ success: boolean; error?: string }>, message: string) => {
+    setIsSubmitting(true);
+    try {
+      const response = await action();
+
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+
+      toast.success(message);
+      setNote("");
+      setReviewerDialog(null);
+      await refresh();
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openReviewerDialog = async (mode: "submit" | "edit") => {
+    setSelectedReviewerIds(review.reviewers.map((reviewer) => reviewer.id));
+    setReviewerDialog(mode);
+
+    const response = await getWorkspaceMembers(workspaceId);
+    if (response.success) {
+      setMembers(response.members);
+    } else {
+      toast.error(response.error || "Failed to load workspace members");
+    }
+  };
+
+  const toggleReviewer = (userId: string) => {
+    setSelectedReviewerIds((current) =>
+      current.includes(userId) ? current.filter((id) => id !== userId) : [...current, userId]
+    );
+  };
+
+  const handleSaveReviewers = () => {
+    if (reviewerDialog === "submit") {
+      runAction(
+        () => submitForReview(videoId, { reviewerIds: selectedReviewerIds, note }),
+        "Video submitted for review"
+      );
+    } else {
+      runAction(() => updateReviewers(videoId, { reviewerIds: selectedReviewerIds }), "Reviewers updated");
+    }
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-medium">Review</h3>
+          <ReviewStatusBadge status={review.status} />
+        </div>
+
+        {review.reviewers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {approvals} of {review.requiredApprovals} required approval{review.requiredApprovals === 1 ? "" : "s"}
+            </p>
+            {review.reviewers.map((reviewer) => (
+              <div key={reviewer.id} className="flex items-center gap-2 text-sm">
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={reviewer.profileImage} alt={reviewer.name} />
+                  <AvatarFallback className="text-[10px]">{getInitials(reviewer.name)}</AvatarFallback>
+                </Avatar>
+                <span className="flex-1 truncate">{reviewer.name}</span>
+                {reviewer.approved ? (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                ) : (
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Reviewers sign off or send the video back */}
+        {permissions.canReview && isInReview && !hasApproved && (
+          <div className="space-y-2">
+            <Textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="Add a note (required when requesting changes)"
+              className="min-h-16 resize-none text-sm"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={isSubmitting}
+                onClick={() => runAction(() => approveVideo(videoId, { note }), "Approval recorded")}
+              >
+                <Check className="mr-1 h-4 w-4" />
+                Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1"
+                disabled={isSubmitting || !note.trim()}
+                onClick={() => runAction(() => requestChanges(videoId, { note }), "Changes requested")}
+              >
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Request changes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {permissions.canManage && (
+          <div className="flex flex-col gap-2">
+            {(review.status === "draft" || review.status === "changes_requested") && (
+              <Button size="sm" disabled={!isReady || isSubmitting} onClick={() => openReviewerDialog("submit")}>
+                <Send className="mr-1 h-4 w-4" />
+                {review.status === "draft" ? "Submit for review" : "Resubmit for review"}
+              </Button>
+            )}
+            {isInReview && (
+              <Button size="sm" variant="outline" disabled={isSubmitting} onClick={() => openReviewerDialog("edit")}>
+                <Users className="mr-1 h-4 w-4" />
+                Edit reviewers
+              </Button>
+            )}
+            {review.status !== "draft" && (
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={isSubmitting}
+                onClick={() => runAction(() => reopenReview(videoId), "Moved back to draft")}
+              >
+                Move back to draft
+              </Button>
+            )}
+          </div>
+        )}
+
+        {review.history.length > 0 && (
+          <div className="border-t pt-4">
+            <h4 className="text-sm font-medium mb-2">History</h4>
+            <ol className="space-y-3">
+              {review.history.map((event, index) => (
+                <li key={`${event.createdAt}-${index}`} className="text-sm">
+                  <p>
+                    <span className="font-medium">{event.user.name}</span>{" "}
+                    {REVIEW_ACTION_LABELS[event.action]}
+                    {event.action === "approved" && event.toStatus === "approved" && (
+                      <span className="text-muted-foreground"> · {REVIEW_STATUS_LABELS.approved}</span>
+                    )}
+                  </p>
+                  {event.note && (
+                    <p className="mt-0.5 whitespace-pre-wrap text-muted-foreground">{event.note}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">{formatRelativeTime(event.createdAt)}</p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={reviewerDialog !== null} onOpenChange={(open) => !open && setReviewerDialog(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{reviewerDialog === "submit" ? "Submit for review" : "Edit reviewers"}</DialogTitle>
+            <DialogDescription>
+              Pick at least {review.requiredApprovals} reviewer{review.requiredApprovals === 1 ? "" : "s"}.
+              {reviewerDialog === "submit" && " Approvals from earlier rounds no longer count."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-64 space-y-1 overflow-y-auto">
+            {members.map((member) => {
+              const isSelected = selectedReviewerIds.includes(member.userId);
+              return (
+                <button
+                  key={member.userId}
+                  type="button"
+                  onClick={() => toggleReviewer(member.userId)}
+                  className={cn(
+                    "flex w-full items-center gap-3 rounded-md border px-3 py-2 text-left text-sm transition-colors",
+                    isSelected ? "border-primary bg-primary/5" : "border-transparent hover:bg-muted"
+                  )}
+                >
+                  <Avatar className="h-7 w-7">
+                    <AvatarImage src={member.profileImage} alt={member.name} />
+                    <AvatarFallback className="text-xs">{getInitials(member.name)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{member.name}</p>
+                    <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                  </div>
+                  {isSelected && <Check className="h-4 w-4 text-primary" />}
+                </button>
+              );
+            })}
+          </div>
+
+          {reviewerDialog === "submit" && (
+            <div className="space-y-2">
+              <Label htmlFor="review-note">Note for reviewers</Label>
+              <Textarea
+                id="review-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="What should reviewers focus on?"
+                className="min-h-16 resize-none"
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewerDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={isSubmitting || selectedReviewerIds.length < review.requiredApprovals}
+              onClick={handleSaveReviewers}
+            >
+              {reviewerDialog === "submit" ? "Submit" : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
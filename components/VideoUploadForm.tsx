@@ -28,7 +28,7 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
 import { UploadDropzone } from "@/lib/uploadthing"
-import { createVideo } from "@/actions/video";
+import { deleteVideo, updateVideo } from "@/actions/video";
 
 // Define form validation schema
 const videoFormSchema = z.object({
@@ -54,9 +54,9 @@ export function VideoUploadForm({ workspaceId, onSuccess }: VideoUploadFormProps
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [uploadComplete, setUploadComplete] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  // The Video is created when the upload completes; the form only names it
   const [uploadData, setUploadData] = useState<{
-    assetId?: string;
-    playbackId?: string;
+    videoId: string;
   } | null>(null);
   const router = useRouter();
 
@@ -79,12 +79,9 @@ export function VideoUploadForm({ workspaceId, onSuccess }: VideoUploadFormProps
     setIsSubmitting(true);
     
     try {
-      const response = await createVideo({
+      const response = await updateVideo(uploadData.videoId, {
         title: values.title,
         description: values.description,
-        workspaceId,
-        muxAssetId: uploadData.assetId,
-        muxPlaybackId: uploadData.playbackId,
       });
       
       if (!response.success) {
@@ -152,18 +149,13 @@ export function VideoUploadForm({ workspaceId, onSuccess }: VideoUploadFormProps
           <div className="space-y-4">
             <UploadDropzone
               endpoint="videoUploader"
-              onClientUploadComplete={(res: Array<{ 
-                name: string; 
-                url: string; 
-                assetId?: string; 
-                playbackId?: string; 
-              }>) => {
+              input={{ workspaceId }}
+              onClientUploadComplete={(res) => {
                 const uploadedFile = res[0];
                 if (uploadedFile) {
                   setUploadComplete(true);
                   setUploadData({
-                    assetId: uploadedFile.assetId,
-                    playbackId: uploadedFile.playbackId,
+                    videoId: uploadedFile.serverData.videoId,
                   });
                   setUploadError(null);
                   
@@ -209,6 +201,10 @@ export function VideoUploadForm({ workspaceId, onSuccess }: VideoUploadFormProps
               size="icon"
               className="absolute top-2 right-2"
               onClick={() => {
+                // The upload already created a video, so discard it
+                if (uploadData) {
+                  deleteVideo(uploadData.videoId);
+                }
                 setUploadComplete(false);
                 setUploadData(null);
               }}
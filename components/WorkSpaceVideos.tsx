@@ -34,7 +34,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { S3MultipartUploadForm } from "@/components/S3MultipartUploadForm";
 import { VideoEditForm } from "@/components/video-edit-form";
+import { VideoProcessingProgress } from "@/components/VideoProcessingProgress";
+import { ReviewStatusBadge } from "@/components/ReviewStatusBadge";
 import { getWorkspaceVideos, deleteVideo } from "@/actions/video";
+import type { ReviewStatus } from "@/lib/review";
 
 type VideoItem = {
   _id: string;
@@ -43,8 +46,13 @@ type VideoItem = {
   status: "uploading" | "processing" | "ready" | "error";
   hlsKey?: string;
   thumbnailUrl?: string;
+  thumbnailKey?: string;
+  thumbnailTimestamp?: number;
+  thumbnailCandidates?: { key: string; timestamp: number }[];
   duration?: number;
   viewCount: number;
+  reviewStatus?: ReviewStatus;
+  versionNumber?: number;
   createdAt: string;
   uploader: {
     id: string;
@@ -144,8 +152,10 @@ export function WorkspaceVideos({ workspaceId, slug, isOwner }: WorkspaceVideosP
   const getThumbnailUrl = (video: VideoItem) => {
     if (video.thumbnailUrl) return video.thumbnailUrl;
     
-    // Generate a default thumbnail based on status
-    return `/api/videos/${video._id}/thumbnail`;
+    // The route redirects to a presigned poster (or a status placeholder);
+    // the key busts the browser cache when the poster changes
+    const version = video.thumbnailKey ? `?v=${encodeURIComponent(video.thumbnailKey.split("/").pop() || "")}` : "";
+    return `/api/videos/${video._id}/thumbnail${version}`;
   };
 
   // Render status badge and icon
@@ -242,6 +252,7 @@ export function WorkspaceVideos({ workspaceId, slug, isOwner }: WorkspaceVideosP
                         src={getThumbnailUrl(video)}
                         alt={video.title}
                         fill
+                        unoptimized
                         className="object-cover transition-opacity group-hover:opacity-90"
                       />
                       <div className="absolute inset-0 bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
@@ -264,12 +275,10 @@ export function WorkspaceVideos({ workspaceId, slug, isOwner }: WorkspaceVideosP
                         <p className="text-sm font-medium">Uploading...</p>
                       </div>
                     ) : video.status === "processing" ? (
-                      <div className="text-center p-4">
-                        <div className="animate-pulse rounded-full h-8 w-8 bg-yellow-500/20 mx-auto mb-2 flex items-center justify-center">
-                          <Clock className="h-4 w-4 text-yellow-500" />
-                        </div>
-                        <p className="text-sm font-medium">Processing...</p>
-                      </div>
+                      <VideoProcessingProgress
+                        videoId={video._id}
+                        onSettled={() => setRefreshTrigger(prev => prev + 1)}
+                      />
                     ) : (
                       <div className="text-center p-4 text-destructive">
                         <AlertCircle className="h-8 w-8 mx-auto mb-2" />
@@ -327,6 +336,13 @@ export function WorkspaceVideos({ workspaceId, slug, isOwner }: WorkspaceVideosP
                     {video.description}
                   </p>
                 )}
+
+                <div className="flex items-center gap-2 mt-2">
+                  {video.status === "ready" && <ReviewStatusBadge status={video.reviewStatus} />}
+                  {(video.versionNumber ?? 1) > 1 && (
+                    <Badge variant="secondary">v{video.versionNumber}</Badge>
+                  )}
+                </div>
               </CardContent>
               
               <CardFooter className="border-t p-3 bg-muted/30 flex justify-between items-center">
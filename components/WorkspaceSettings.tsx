@@ -23,19 +23,88 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
-import { deleteWorkspace } from "@/actions/workspace";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { deleteWorkspace, updateRequiredApprovals, updateWorkspaceTranscoder } from "@/actions/workspace";
+import { MAX_REQUIRED_APPROVALS } from "@/lib/review";
+import { TRANSCODER_LABELS, TRANSCODER_NAMES, TranscoderName } from "@/lib/transcoder-driver";
 import { WorkspaceForm } from "@/components/WorkspaceForm";
+import { StorageUsageMeter } from "@/components/StorageUsageMeter";
+import type { OwnerStorage, StorageUsage } from "@/lib/storage-usage";
 
 type WorkspaceSettingsProps = {
   workspace: IWorkspace;
+  storage?: {
+    usage: StorageUsage;
+    owner: OwnerStorage;
+  };
+  /** Transcoders this server has configured and the workspace's plan allows */
+  availableTranscoders: TranscoderName[];
 };
 
-export function WorkspaceSettings({ workspace }: WorkspaceSettingsProps) {
+export function WorkspaceSettings({ workspace, storage, availableTranscoders }: WorkspaceSettingsProps) {
   const [showEditDialog, setShowEditDialog] = useState(false);
   const [showDeleteAlert, setShowDeleteAlert] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [requiredApprovals, setRequiredApprovals] = useState(workspace.requiredApprovals ?? 1);
+  const [isSavingApprovals, setIsSavingApprovals] = useState(false);
+  const [transcoder, setTranscoder] = useState<TranscoderName | "default">(workspace.transcoder ?? "default");
+  const [isSavingTranscoder, setIsSavingTranscoder] = useState(false);
   const router = useRouter();
 
+  // Keep the current choice listed even if it's no longer available, so it still shows
+  const transcoderOptions = TRANSCODER_NAMES.filter((name) =>
+    availableTranscoders.includes(name) || name === workspace.transcoder
+  );
+
+  // Save how many approvals a video needs before it's approved
+  const handleSaveApprovals = async () => {
+    setIsSavingApprovals(true);
+    try {
+      const response = await updateRequiredApprovals(workspace._id.toString(), requiredApprovals);
+
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+
+      toast.success("Review settings saved");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : "Something went wrong");
+    } finally {
+      setIsSavingApprovals(false);
+    }
+  };
+
+  // Save which transcoder processes new uploads
+  const handleSaveTranscoder = async () => {
+    setIsSavingTranscoder(true);
+    try {
+      const response = await updateWorkspaceTranscoder(
+        workspace._id.toString(),
+        transcoder === "default" ? null : transcoder
+      );
+
+      if (!response.success) {
+        throw new Error(response.error);
+      }
+
+      toast.success("Processing settings saved");
+      router.refresh();
+    } catch (error) {
+      toast.error(error instanceof Error && error.message ? error.message : "Something went wrong");
+    } finally {
+      setIsSavingTranscoder(false);
+    }
+  };
+
   // Handle workspace deletion
   const handleDelete = async () => {
     setIsDeleting(true);
@@ -97,31 +166,115 @@ export function WorkspaceSettings({ workspace }: WorkspaceSettingsProps) {
         </CardFooter>
       </Card>
 
-      {/* Storage Usage Card */}
+      {/* Review Settings Card */}
       <Card>
         <CardHeader>
-          <CardTitle>Storage Usage</CardTitle>
+          <CardTitle>Review</CardTitle>
           <CardDescription>
-            Manage your workspace storage
+            Control how videos in this workspace get approved
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span>Videos</span>
-                <span className="font-medium">0 MB</span>
-              </div>
-              <div className="h-2 bg-muted rounded-full overflow-hidden">
-                <div className="h-full bg-primary rounded-full w-0"></div>
-              </div>
-            </div>
-            
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="required-approvals">Required approvals</Label>
+            <Input
+              id="required-approvals"
+              type="number"
+              min={1}
+              max={MAX_REQUIRED_APPROVALS}
+              value={requiredApprovals}
+              onChange={(e) => setRequiredApprovals(Number(e.target.value))}
+            />
+            <p className="text-muted-foreground text-sm">
+              Reviewers who must approve before a video is marked approved.
+            </p>
+          </div>
+        </CardContent>
+        <CardFooter className="border-t p-4">
+          <Button
+            onClick={handleSaveApprovals}
+            disabled={isSavingApprovals || requiredApprovals === (workspace.requiredApprovals ?? 1)}
+          >
+            {isSavingApprovals ? "Saving..." : "Save"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Processing Settings Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Processing</CardTitle>
+          <CardDescription>
+            Choose what transcodes new uploads into streamable renditions
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="transcoder">Transcoder</Label>
+            <Select
+              value={transcoder}
+              onValueChange={(value) => setTranscoder(value as TranscoderName | "default")}
+            >
+              <SelectTrigger id="transcoder" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Server default</SelectItem>
+                {transcoderOptions.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {TRANSCODER_LABELS[name]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <p className="text-muted-foreground text-sm">
-              Free tier includes up to 2GB of storage. Upgrade to Pro for 50GB of storage and additional features.
+              Videos already processed keep their renditions.
             </p>
           </div>
         </CardContent>
+        <CardFooter className="border-t p-4">
+          <Button
+            onClick={handleSaveTranscoder}
+            disabled={isSavingTranscoder || transcoder === (workspace.transcoder ?? "default")}
+          >
+            {isSavingTranscoder ? "Saving..." : "Save"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Storage Usage Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Storage Usage</CardTitle>
+          <CardDescription>
+            Source files, streaming renditions and thumbnails count towards your plan&apos;s quota
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {storage ? (
+            <div className="space-y-6">
+              <StorageUsageMeter
+                label="This workspace"
+                usedBytes={storage.usage.usedBytes}
+                quotaBytes={storage.owner.quotaBytes}
+                byKind={storage.usage.byKind}
+              />
+              <StorageUsageMeter
+                label={`All your workspaces (${storage.owner.planName} plan)`}
+                usedBytes={storage.owner.usedBytes}
+                quotaBytes={storage.owner.quotaBytes}
+                reservedBytes={storage.owner.reservedBytes}
+              />
+              {storage.owner.plan === "FREE" && (
+                <p className="text-muted-foreground text-sm">
+                  Free tier includes up to 2GB of storage. Upgrade to Pro for 50GB of storage and additional features.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground text-sm">Storage usage is unavailable right now.</p>
+          )}
+        </CardContent>
       </Card>
 
       {/* Edit Workspace Dialog */}
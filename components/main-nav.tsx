@@ -17,6 +17,10 @@ const navItems = [
     name: "Videos",
     href: "/videos",
   },
+  {
+    name: "Billing",
+    href: "/settings/billing",
+  },
 ];
 
 export function MainNav() {
@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+
+interface ManageBillingButtonProps {
+  /** Open the portal on the cancellation flow instead of its overview */
+  flow?: "cancel";
+  label?: string;
+  variant?: "default" | "outline" | "destructive";
+}
+
+export function ManageBillingButton({ flow, label = "Manage billing", variant = "default" }: ManageBillingButtonProps) {
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    try {
+      setLoading(true);
+
+      const response = await fetch("/api/create-portal-session", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ flow }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to open billing portal");
+      }
+
+      // Redirect to the Stripe customer portal
+      window.location.href = data.url;
+    } catch (error: unknown) {
+      console.error("Billing portal error:", error);
+
+      toast.error(error instanceof Error ? error.message : "Something went wrong", {
+        description: "Please try again or contact support.",
+      });
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Button onClick={handleClick} disabled={loading} variant={variant}>
+      {loading ? "Loading..." : label}
+    </Button>
+  );
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import Image from "next/image";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
@@ -24,7 +25,10 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { toast } from "sonner";
-import { updateVideo } from "@/actions/video";
+import { Check } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatDuration } from "@/lib/mux";
+import { updateVideo, updateVideoThumbnail } from "@/actions/video";
 
 // Define form validation schema
 const videoEditSchema = z.object({
@@ -36,6 +40,9 @@ const videoEditSchema = z.object({
   description: z.string().max(1000, {
     message: "Description cannot be longer than 1000 characters."
   }).optional(),
+  thumbnailTime: z.string().regex(/^(\d+:)?\d+(\.\d+)?$/, {
+    message: "Use seconds (e.g. 42) or minutes:seconds (e.g. 1:23)."
+  }).optional().or(z.literal("")),
 });
 
 type VideoEditValues = z.infer<typeof videoEditSchema>;
@@ -47,6 +54,8 @@ type VideoItem = {
   status: "uploading" | "processing" | "ready" | "error";
   hlsKey?: string;
   thumbnailUrl?: string;
+  thumbnailKey?: string;
+  thumbnailCandidates?: { key: string; timestamp: number }[];
   duration?: number;
   viewCount: number;
   createdAt: string;
@@ -58,6 +67,12 @@ type VideoItem = {
   };
 };
 
+// Parses "42", "42.5" or "1:23" into seconds
+function parseTimestamp(value: string): number {
+  const [minutes, seconds] = value.includes(":") ? value.split(":") : ["0", value];
+  return Number(minutes) * 60 + Number(seconds);
+}
+
 type VideoEditFormProps = {
   video: VideoItem;
   open: boolean;
@@ -72,6 +87,9 @@ export function VideoEditForm({
   onSuccess,
 }: VideoEditFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const candidates = video.thumbnailCandidates || [];
+  const currentCandidateIndex = candidates.findIndex((candidate) => candidate.key === video.thumbnailKey);
+  const [selectedCandidate, setSelectedCandidate] = useState(currentCandidateIndex);
 
   // Initialize form with current video data
   const form = useForm<VideoEditValues>({
@@ -79,6 +97,7 @@ export function VideoEditForm({
     defaultValues: {
       title: video.title,
       description: video.description || "",
+      thumbnailTime: "",
     },
   });
 
@@ -96,6 +115,31 @@ export function VideoEditForm({
         throw new Error(response.error);
       }
       
+      // A custom timestamp takes precedence over picking a candidate
+      if (values.thumbnailTime) {
+        const timestamp = parseTimestamp(values.thumbnailTime);
+        
+        if (video.duration && timestamp > video.duration) {
+          throw new Error(`Thumbnail time must be within the video (${formatDuration(video.duration)})`);
+        }
+        
+        const thumbnailResponse = await updateVideoThumbnail(video._id, { timestamp });
+        
+        if (!thumbnailResponse.success) {
+          throw new Error(thumbnailResponse.error);
+        }
+        
+        toast.info("Generating thumbnail", {
+          description: "The new thumbnail will appear in a moment.",
+        });
+      } else if (selectedCandidate !== -1 && selectedCandidate !== currentCandidateIndex) {
+        const thumbnailResponse = await updateVideoThumbnail(video._id, { candidateIndex: selectedCandidate });
+        
+        if (!thumbnailResponse.success) {
+          throw new Error(thumbnailResponse.error);
+        }
+      }
+      
       toast.success("Video updated", {
         description: "Your video has been updated successfully.",
       });
@@ -122,7 +166,7 @@ export function VideoEditForm({
         <DialogHeader>
           <DialogTitle>Edit Video</DialogTitle>
           <DialogDescription>
-            Update your video's title and description.
+            Update your video's title, description and thumbnail.
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -157,6 +201,58 @@ export function VideoEditForm({
                 </FormItem>
               )}
             />
+            {video.status === "ready" && candidates.length > 0 && (
+              <div className="space-y-2">
+                <FormLabel>Thumbnail</FormLabel>
+                <div className="grid grid-cols-3 gap-2">
+                  {candidates.map((candidate, index) => (
+                    <button
+                      key={candidate.key}
+                      type="button"
+                      onClick={() => {
+                        setSelectedCandidate(index);
+                        form.setValue("thumbnailTime", "");
+                      }}
+                      className={cn(
+                        "relative aspect-video overflow-hidden rounded-md border-2 bg-muted",
+                        selectedCandidate === index && !form.watch("thumbnailTime")
+                          ? "border-primary"
+                          : "border-transparent hover:border-muted-foreground/50"
+                      )}
+                    >
+                      <Image
+                        src={`/api/videos/${video._id}/thumbnail?candidate=${index}`}
+                        alt={`Frame at ${formatDuration(candidate.timestamp)}`}
+                        fill
+                        unoptimized
+                        className="object-cover"
+                      />
+                      <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1 text-[10px] text-white">
+                        {formatDuration(candidate.timestamp)}
+                      </span>
+                      {selectedCandidate === index && !form.watch("thumbnailTime") && (
+                        <Check className="absolute top-1 right-1 h-4 w-4 rounded-full bg-primary p-0.5 text-primary-foreground" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {video.status === "ready" && (
+              <FormField
+                control={form.control}
+                name="thumbnailTime"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Custom thumbnail time (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 1:23" {...field} value={field.value || ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             <DialogFooter>
               <Button type="submit" disabled={isSubmitting}>
                 {isSubmitting ? "Saving..." : "Save Changes"}
@@ -5,7 +5,7 @@ import Link from "next/link";
 import Image from "next/image";
 import { Eye, MoreVertical, Pencil, Trash2 } from "lucide-react";
 import { formatRelativeTime } from "@/lib/utils";
-import { formatDuration, getMuxThumbnailUrl } from "@/lib/mux";
+import { formatDuration } from "@/lib/mux";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -34,7 +34,9 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
 import { VideoUploadForm } from "./VideoUploadForm";
 import { VideoEditForm } from "./video-edit-form";
+import { ReviewStatusBadge } from "./ReviewStatusBadge";
 import { deleteVideo } from "@/actions/video";
+import type { ReviewStatus } from "@/lib/review";
 
 type VideoItem = {
   _id: string;
@@ -46,6 +48,8 @@ type VideoItem = {
   duration?: number;
   thumbnailUrl?: string;
   viewCount: number;
+  reviewStatus?: ReviewStatus;
+  versionNumber?: number;
   createdAt: string;
   uploader: {
     id: string;
@@ -160,10 +164,12 @@ export function VideoList({ videos, workspaceId, canUpload }: VideoListProps) {
               <div className="relative aspect-video bg-muted group">
                 {video.status === "ready" && video.muxPlaybackId ? (
                   <Link href={`/videos/${video._id}`}>
+                    {/* The route signs the Mux thumbnail URL when playback is signed */}
                     <Image
-                      src={getMuxThumbnailUrl(video.muxPlaybackId)}
+                      src={`/api/videos/${video._id}/thumbnail`}
                       alt={video.title}
                       fill
+                      unoptimized
                       className="object-cover transition-opacity group-hover:opacity-90"
                     />
                     {video.duration && (
@@ -235,6 +241,13 @@ export function VideoList({ videos, workspaceId, canUpload }: VideoListProps) {
                     {video.description}
                   </p>
                 )}
+
+                <div className="flex items-center gap-2 mt-2">
+                  {video.status === "ready" && <ReviewStatusBadge status={video.reviewStatus} />}
+                  {(video.versionNumber ?? 1) > 1 && (
+                    <Badge variant="secondary">v{video.versionNumber}</Badge>
+                  )}
+                </div>
               </CardContent>
               
               <CardFooter className="border-t p-3 bg-muted/30 flex justify-between items-center">
@@ -0,0 +1,33 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { ANNOTATION_COLORS, AnnotationShape, AnnotationTool } from "@/lib/annotations";
+
+/**
+ * State for drawing an annotation on a paused frame while writing a comment
+ */
+export function useAnnotationDrawing() {
+  // null while not drawing
+  const [shapes, setShapes] = useState<AnnotationShape[] | null>(null);
+  const [tool, setTool] = useState<AnnotationTool>("freehand");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+
+  const start = useCallback(() => setShapes((current) => current ?? []), []);
+  const stop = useCallback(() => setShapes(null), []);
+  const undo = useCallback(() => setShapes((current) => (current ? current.slice(0, -1) : current)), []);
+
+  return {
+    isDrawing: shapes !== null,
+    shapes: shapes ?? [],
+    setShapes,
+    tool,
+    setTool,
+    color,
+    setColor,
+    start,
+    stop,
+    undo,
+  };
+}
+
+export type AnnotationDrawing = ReturnType<typeof useAnnotationDrawing>;
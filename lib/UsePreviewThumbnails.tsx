@@ -0,0 +1,104 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+
+export type PreviewThumbnail = {
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+type PreviewCue = PreviewThumbnail & {
+  start: number;
+  end: number;
+};
+
+// Parses "01:02:03.456" or "02:03.456" into seconds
+function parseVttTime(value: string): number {
+  return value
+    .trim()
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/**
+ * Parses a WebVTT thumbnails track whose cues point at sprite sheets with
+ * `#xywh=` fragments. Image URLs are resolved against the track's own URL.
+ */
+function parseThumbnailsVtt(vtt: string, baseUrl: string): PreviewCue[] {
+  const cues: PreviewCue[] = [];
+  const lines = vtt.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes("-->")) continue;
+
+    // Cue settings may follow the end time
+    const [start, end] = lines[i].split("-->").map((time) => parseVttTime(time.trim().split(/\s+/)[0]));
+    const reference = lines[i + 1]?.trim();
+    const fragment = reference?.match(/^(.*)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+
+    if (!fragment) continue;
+
+    cues.push({
+      start,
+      end,
+      url: new URL(fragment[1], baseUrl).toString(),
+      x: Number(fragment[2]),
+      y: Number(fragment[3]),
+      width: Number(fragment[4]),
+      height: Number(fragment[5]),
+    });
+    i++;
+  }
+
+  return cues;
+}
+
+/**
+ * Loads a video's scrubbing preview track and returns a lookup of the
+ * sprite tile to show for a given time
+ */
+export function usePreviewThumbnails(trackUrl?: string | null) {
+  const [cues, setCues] = useState<PreviewCue[]>([]);
+
+  useEffect(() => {
+    if (!trackUrl) {
+      setCues([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadTrack(url: string) {
+      try {
+        const response = await fetch(url);
+
+        if (!response.ok) {
+          throw new Error(`Failed to load preview thumbnails (${response.status})`);
+        }
+
+        const vtt = await response.text();
+        if (!cancelled) {
+          setCues(parseThumbnailsVtt(vtt, new URL(url, window.location.href).toString()));
+        }
+      } catch (error) {
+        // Scrubbing still works without previews
+        console.error("Error loading preview thumbnails:", error);
+      }
+    }
+
+    loadTrack(trackUrl);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trackUrl]);
+
+  return useCallback(
+    (time: number): PreviewThumbnail | null =>
+      cues.find((cue) => time >= cue.start && time < cue.end) || cues[cues.length - 1] || null,
+    [cues]
+  );
+}
@@ -2,20 +2,22 @@
 
 import { useState, useEffect } from "react";
 import { useUser } from "@clerk/nextjs";
+import type { MembershipStatus } from "@/lib/UserMembership";
 
-interface UserMembershipResult {
-  isPaidMember: boolean;
-  tier: 'free' | 'premium';
-  expiresAt?: Date | null;
-}
+const FREE_MEMBERSHIP: MembershipStatus = {
+  isPaidMember: false,
+  tier: 'free',
+  status: 'none',
+  expiresAt: null,
+  cancelAtPeriodEnd: false,
+};
 
-export function useUserMembership(): UserMembershipResult {
+/**
+ * The signed-in user's membership, as decided on the server by lib/UserMembership
+ */
+export function useUserMembership(): MembershipStatus {
   const { user, isLoaded } = useUser();
-  const [membershipData, setMembershipData] = useState<UserMembershipResult>({
-    isPaidMember: false,
-    tier: 'free',
-    expiresAt: null
-  });
+  const [membershipData, setMembershipData] = useState<MembershipStatus>(FREE_MEMBERSHIP);
 
   useEffect(() => {
     async function fetchMembershipStatus() {
@@ -24,40 +26,21 @@ export function useUserMembership(): UserMembershipResult {
       }
 
       try {
-        // Try to fetch membership status from API
         const response = await fetch('/api/user/membership');
-        
-        if (response.ok) {
-          const data = await response.json();
-          setMembershipData({
-            isPaidMember: data.isPaidMember || false,
-            tier: data.tier || 'free',
-            expiresAt: data.expiresAt ? new Date(data.expiresAt) : null
-          });
-          return;
+
+        if (!response.ok) {
+          throw new Error(`Membership request failed with status ${response.status}`);
         }
-      } catch (error) {
-        console.error('Error fetching membership status:', error);
-      }
-      
-      // Fallback to checking Clerk metadata directly
-      try {
-        const publicMetadata = user.publicMetadata || {};
-        const isPaidMember = publicMetadata.membershipTier === 'premium';
-        
+
+        const data = await response.json();
         setMembershipData({
-          isPaidMember,
-          tier: isPaidMember ? 'premium' : 'free'
+          ...data,
+          expiresAt: data.expiresAt ? new Date(data.expiresAt) : null
         });
       } catch (error) {
-        console.error('Error retrieving membership from user metadata:', error);
-        
-        // Default to free tier if all methods fail
-        setMembershipData({
-          isPaidMember: false,
-          tier: 'free',
-          expiresAt: null
-        });
+        // Default to free tier; the server enforces the plan either way
+        console.error('Error fetching membership status:', error);
+        setMembershipData(FREE_MEMBERSHIP);
       }
     }
 
@@ -65,4 +48,4 @@ export function useUserMembership(): UserMembershipResult {
   }, [user, isLoaded]);
 
   return membershipData;
-}
\ No newline at end of file
+}
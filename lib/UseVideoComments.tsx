@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { getVideoComments } from "@/actions/comment";
+import type { AnnotationShape } from "@/lib/annotations";
+
+export type VideoComment = {
+  _id: string;
+  videoId: string;
+  body: string;
+  timecodeIn?: number;
+  timecodeOut?: number;
+  parentId?: string;
+  annotations?: AnnotationShape[];
+  carriedFromVersion?: number;
+  resolved: boolean;
+  resolvedAt?: string;
+  editedAt?: string;
+  createdAt: string;
+  author: {
+    id: string;
+    name: string;
+    profileImage: string;
+  };
+};
+
+export type CommentPermissions = {
+  canResolve: boolean;
+  canModerate: boolean;
+};
+
+/**
+ * Load the comments on a video along with what the current user may do with them
+ */
+export function useVideoComments(videoId: string) {
+  const [comments, setComments] = useState<VideoComment[]>([]);
+  const [permissions, setPermissions] = useState<CommentPermissions>({ canResolve: false, canModerate: false });
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await getVideoComments(videoId);
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to load comments");
+      }
+
+      setComments(response.comments);
+      setPermissions(response.permissions ?? { canResolve: false, canModerate: false });
+      setCurrentUserId(response.currentUserId ?? null);
+      setError(null);
+    } catch (error) {
+      console.error("Error loading comments:", error);
+      setError(error instanceof Error ? error.message : "Failed to load comments");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [videoId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { comments, permissions, currentUserId, isLoading, error, refresh };
+}
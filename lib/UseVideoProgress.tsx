@@ -0,0 +1,64 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+
+export type VideoProgressState = {
+  status: "uploading" | "processing" | "ready" | "error";
+  progress: {
+    percent: number;
+    currentRendition?: string;
+    renditions: { name: string; percent: number }[];
+    etaSeconds?: number;
+  } | null;
+  error: string | null;
+};
+
+/**
+ * Subscribe to a video's processing progress over server-sent events.
+ * Calls onSettled once the video becomes ready or fails.
+ */
+export function useVideoProgress(
+  videoId: string,
+  enabled: boolean,
+  onSettled?: (status: VideoProgressState["status"]) => void
+): VideoProgressState | null {
+  const [state, setState] = useState<VideoProgressState | null>(null);
+
+  // Read through a ref so inline callbacks don't reconnect the stream
+  const onSettledRef = useRef(onSettled);
+  useEffect(() => {
+    onSettledRef.current = onSettled;
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const source = new EventSource(`/api/videos/${videoId}/events`);
+
+    source.addEventListener("progress", (event) => {
+      try {
+        setState(JSON.parse((event as MessageEvent).data));
+      } catch (error) {
+        console.error("Error parsing progress event:", error);
+      }
+    });
+
+    source.addEventListener("done", (event) => {
+      source.close();
+      try {
+        const { status } = JSON.parse((event as MessageEvent).data);
+        onSettledRef.current?.(status);
+      } catch (error) {
+        console.error("Error parsing done event:", error);
+      }
+    });
+
+    return () => {
+      source.close();
+    };
+  }, [videoId, enabled]);
+
+  return state;
+}
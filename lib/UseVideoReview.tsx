@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { getVideoReview } from "@/actions/review";
+import type { ReviewAction, ReviewStatus } from "@/lib/review";
+
+type ReviewUser = {
+  id: string;
+  name: string;
+  profileImage: string;
+};
+
+export type VideoReview = {
+  status: ReviewStatus;
+  requiredApprovals: number;
+  reviewers: (ReviewUser & { approved: boolean })[];
+  history: {
+    action: ReviewAction;
+    fromStatus: ReviewStatus;
+    toStatus: ReviewStatus;
+    note?: string;
+    createdAt: string;
+    user: ReviewUser;
+  }[];
+};
+
+export type ReviewPermissions = {
+  canManage: boolean;
+  canReview: boolean;
+};
+
+/**
+ * Load a video's review state along with what the current user may do with it
+ */
+export function useVideoReview(videoId: string) {
+  const [review, setReview] = useState<VideoReview | null>(null);
+  const [permissions, setPermissions] = useState<ReviewPermissions>({ canManage: false, canReview: false });
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await getVideoReview(videoId);
+
+      if (!response.success || !response.review) {
+        throw new Error(response.error || "Failed to load review");
+      }
+
+      setReview(response.review);
+      setPermissions(response.permissions ?? { canManage: false, canReview: false });
+      setCurrentUserId(response.currentUserId ?? null);
+      setError(null);
+    } catch (error) {
+      console.error("Error loading review:", error);
+      setError(error instanceof Error ? error.message : "Failed to load review");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [videoId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { review, permissions, currentUserId, isLoading, error, refresh };
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+export type VideoStream = {
+  url: string;
+  isHls: boolean;
+  previewThumbnailsUrl: string | null;
+};
+
+/**
+ * Resolve the playback URL for a ready video
+ */
+export function useVideoStream(videoId: string, enabled = true) {
+  const [stream, setStream] = useState<VideoStream | null>(null);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    async function loadStream() {
+      try {
+        setIsLoading(true);
+        const response = await fetch(`/api/videos/${videoId}/stream`);
+
+        if (!response.ok) {
+          throw new Error((await response.text()) || "Failed to get streaming URL");
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setStream({
+            url: data.url,
+            isHls: data.isHLS !== false,
+            previewThumbnailsUrl: data.previewThumbnailsUrl || null,
+          });
+          setError(null);
+        }
+      } catch (error) {
+        console.error("Error getting streaming URL:", error);
+        if (!cancelled) {
+          setError(error instanceof Error ? error.message : "Failed to load video");
+          setStream(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    loadStream();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, enabled]);
+
+  return { stream, isLoading, error };
+}
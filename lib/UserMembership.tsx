@@ -1,12 +1,49 @@
 // src/lib/user-membership.ts
-import User from '@/models/user';
+// The one place that decides what plan a user is on. Reads the subscription
+// that lib/subscription-sync.ts keeps in step with Stripe.
+import User, { ISubscription, SubscriptionPlan, SubscriptionStatus } from '@/models/user';
 import connectToDatabase from "@/lib/mongodb";
-import { clerkClient } from '@clerk/express'
+import { PLANS } from '@/lib/stripe';
 
-interface MembershipStatus {
+export type MembershipTier = SubscriptionPlan;
+
+export interface MembershipStatus {
   isPaidMember: boolean;
-  tier: 'free' | 'premium';
+  tier: MembershipTier;
+  status: SubscriptionStatus;
   expiresAt?: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+// Past due keeps access while Stripe retries the payment
+const PAID_STATUSES: SubscriptionStatus[] = ['active', 'trialing', 'past_due'];
+
+const FREE_MEMBERSHIP: MembershipStatus = {
+  isPaidMember: false,
+  tier: 'free',
+  status: 'none',
+  expiresAt: null,
+  cancelAtPeriodEnd: false,
+};
+
+/**
+ * Work out what a stored subscription entitles its user to
+ */
+export function getMembershipFromSubscription(subscription?: ISubscription | null): MembershipStatus {
+  if (!subscription) return FREE_MEMBERSHIP;
+
+  const expiresAt = subscription.currentPeriodEnd ?? null;
+  // A subscription set to cancel ends with its period even if the webhook saying so is missed
+  const hasLapsed = subscription.cancelAtPeriodEnd && !!expiresAt && expiresAt < new Date();
+  const isPaidMember = subscription.plan === 'pro' && PAID_STATUSES.includes(subscription.status) && !hasLapsed;
+
+  return {
+    isPaidMember,
+    tier: isPaidMember ? 'pro' : 'free',
+    status: subscription.status,
+    expiresAt,
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+  };
 }
 
 /**
@@ -14,69 +51,23 @@ interface MembershipStatus {
  */
 export async function getUserMembership(userId: string): Promise<MembershipStatus> {
   try {
-    // Connect to the database to fetch user data
     await connectToDatabase();
-    
-    // Get the Clerk user data
-    const clerkUser = await clerkClient.users.getUser(userId);
-    
-    // Get the user's membership information from Clerk metadata
-    const membershipMetadata = clerkUser.privateMetadata?.membership as any || {};
-    
-    // Build the membership status
-    const membershipStatus: MembershipStatus = {
-      isPaidMember: Boolean(membershipMetadata?.isPaid),
-      tier: membershipMetadata?.tier || 'free',
-      expiresAt: membershipMetadata?.expiresAt ? new Date(membershipMetadata.expiresAt) : null
-    };
-    
-    // Check if the membership has expired
-    if (membershipStatus.expiresAt && new Date() > membershipStatus.expiresAt) {
-      return {
-        isPaidMember: false,
-        tier: 'free',
-        expiresAt: null
-      };
-    }
-    
-    return membershipStatus;
+
+    const user = await User.findOne({ clerkId: userId }).select('subscription');
+
+    return getMembershipFromSubscription(user?.subscription);
   } catch (error) {
     console.error('Error fetching user membership:', error);
-    
+
     // Default to free tier if there's an error
-    return {
-      isPaidMember: false,
-      tier: 'free'
-    };
+    return FREE_MEMBERSHIP;
   }
 }
 
 /**
- * Update a user's membership status
+ * Get the plan a workspace is on, which follows its owner's membership
  */
-export async function updateUserMembership(
-  userId: string, 
-  membership: { 
-    tier: 'free' | 'premium',
-    isPaid: boolean,
-    expiresAt?: Date | string
-  }
-): Promise<boolean> {
-  try {
-    // Update the user's membership in Clerk's private metadata
-    await clerkClient.users.updateUser(userId, {
-      privateMetadata: {
-        membership: {
-          tier: membership.tier,
-          isPaid: membership.isPaid,
-          expiresAt: membership.expiresAt?.toString()
-        }
-      }
-    });
-    
-    return true;
-  } catch (error) {
-    console.error('Error updating user membership:', error);
-    return false;
-  }
-}
\ No newline at end of file
+export async function getWorkspacePlan(ownerId: string): Promise<keyof typeof PLANS> {
+  const { isPaidMember } = await getUserMembership(ownerId);
+  return isPaidMember ? 'PRO' : 'FREE';
+}
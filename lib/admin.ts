@@ -0,0 +1,18 @@
+// src/lib/admin.ts
+// Platform admins, as opposed to workspace admins, operate the app itself
+// (e.g. replaying failed webhooks). They're listed by Clerk user ID in
+// ADMIN_USER_IDS, separated by commas.
+
+/**
+ * Whether a user is a platform admin
+ */
+export function isPlatformAdmin(userId: string | null | undefined): boolean {
+  if (!userId) return false;
+
+  const adminIds = (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  return adminIds.includes(userId);
+}
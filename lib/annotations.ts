@@ -0,0 +1,64 @@
+// src/lib/annotations.ts
+import type { AnnotationTool, IAnnotationShape } from "@/models/comment";
+
+export type { AnnotationTool, IAnnotationShape as AnnotationShape };
+
+export const ANNOTATION_TOOLS: AnnotationTool[] = ["freehand", "arrow", "rect", "text"];
+
+export const ANNOTATION_COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#ffffff"];
+
+const MAX_SHAPES = 50;
+const MAX_POINTS_PER_SHAPE = 2000;
+const MAX_TEXT_LENGTH = 200;
+
+// How long an annotation stays on screen once playback reaches its frame
+export const ANNOTATION_HOLD_SECONDS = 2;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Validates annotation shapes from the client: known tools and colours,
+ * coordinates clamped to the frame and sensible size limits
+ */
+export function sanitizeAnnotationShapes(shapes: unknown): IAnnotationShape[] {
+  if (!Array.isArray(shapes)) {
+    throw new Error("Annotations must be a list of shapes");
+  }
+
+  if (shapes.length > MAX_SHAPES) {
+    throw new Error(`An annotation can have at most ${MAX_SHAPES} shapes`);
+  }
+
+  return shapes.map((shape) => {
+    if (!ANNOTATION_TOOLS.includes(shape?.type)) {
+      throw new Error("Unknown annotation tool");
+    }
+
+    if (!ANNOTATION_COLORS.includes(shape.color)) {
+      throw new Error("Unknown annotation colour");
+    }
+
+    const points = Array.isArray(shape.points) ? shape.points.slice(0, MAX_POINTS_PER_SHAPE) : [];
+    const requiredPoints = shape.type === "arrow" || shape.type === "rect" ? 2 : 1;
+
+    if (points.length < requiredPoints) {
+      throw new Error(`A ${shape.type} annotation needs at least ${requiredPoints} point(s)`);
+    }
+
+    const text = shape.type === "text" ? String(shape.text || "").trim().slice(0, MAX_TEXT_LENGTH) : undefined;
+
+    if (shape.type === "text" && !text) {
+      throw new Error("Text annotations can't be empty");
+    }
+
+    return {
+      type: shape.type,
+      color: shape.color,
+      points: points.map((point: { x: unknown; y: unknown }) => ({
+        x: clamp(Number(point?.x) || 0),
+        y: clamp(Number(point?.y) || 0),
+      })),
+      ...(text && { text }),
+    };
+  });
+}
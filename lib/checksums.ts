@@ -0,0 +1,47 @@
+// src/lib/checksums.ts
+// SHA-256 checksums in the base64 form S3 uses, shared by the browser and the
+// server (both provide Web Crypto)
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Base64 SHA-256 digest, as sent in S3's x-amz-checksum-sha256 header
+ */
+export async function sha256Base64(data: ArrayBuffer | Uint8Array<ArrayBuffer>) {
+  return toBase64(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+/**
+ * Whether a value looks like a base64 SHA-256 digest
+ */
+export function isSha256Base64(value: unknown): value is string {
+  return typeof value === "string" && /^[A-Za-z0-9+/]{43}=$/.test(value);
+}
+
+/**
+ * S3's checksum for a multipart object: the SHA-256 of the concatenated part
+ * digests, suffixed with the part count. The same file split into the same
+ * part size always produces the same value.
+ */
+export async function getCompositeChecksum(partChecksums: string[]) {
+  const digests = partChecksums.map(fromBase64);
+  const combined = new Uint8Array(digests.reduce((total, digest) => total + digest.length, 0));
+
+  let offset = 0;
+  for (const digest of digests) {
+    combined.set(digest, offset);
+    offset += digest.length;
+  }
+
+  return `${await sha256Base64(combined)}-${partChecksums.length}`;
+}
@@ -0,0 +1,109 @@
+// src/lib/clerk-webhook.ts
+// Applies Clerk user events to our User collection. Called by the Clerk
+// webhook route and when replaying a stored event.
+import type { DeletedObjectJSON, UserJSON, WebhookEvent as ClerkWebhookEvent } from '@clerk/nextjs/server';
+import connectToDatabase from '@/lib/mongodb';
+import User, { IUser } from '@/models/user';
+
+export type { ClerkWebhookEvent };
+
+/**
+ * Handle a verified Clerk webhook event. Throws if it couldn't be applied.
+ */
+export async function handleClerkEvent(evt: ClerkWebhookEvent) {
+  await connectToDatabase();
+
+  // Log the event type for debugging
+  console.log(`Webhook event type: ${evt.type}`);
+
+  if (evt.type === 'user.created') {
+    await handleUserCreated(evt.data);
+  } else if (evt.type === 'user.updated') {
+    await handleUserUpdated(evt.data);
+  } else if (evt.type === 'user.deleted') {
+    await handleUserDeleted(evt.data);
+  } else if (evt.type === 'session.created') {
+    // Optional: Handle session creation
+    console.log('User session created', evt.data.user_id);
+  }
+}
+
+function getPrimaryEmail(data: UserJSON) {
+  const primaryEmail = data.email_addresses?.find((email) => email.id === data.primary_email_address_id);
+  return primaryEmail?.email_address || '';
+}
+
+const getDisplayName = (data: UserJSON) =>
+  data.username || `${data.first_name || ''} ${data.last_name || ''}`.trim();
+
+async function handleUserCreated(data: UserJSON) {
+  try {
+    // Prepare user data
+    const userData = {
+      clerkId: data.id,
+      email: getPrimaryEmail(data).toLowerCase(),
+      name: getDisplayName(data),
+      profileImage: data.image_url,
+    };
+
+    // Log the data we're going to store
+    console.log('Saving user data to MongoDB:', userData);
+
+    // Create or update the user
+    await User.findOneAndUpdate(
+      { clerkId: data.id },
+      userData,
+      { upsert: true, new: true }
+    );
+
+    console.log('User created/updated in MongoDB');
+  } catch (error) {
+    console.error('Error creating user in MongoDB:', error);
+    throw error;
+  }
+}
+
+async function handleUserUpdated(data: UserJSON) {
+  try {
+    console.log('Updating user in MongoDB from Clerk webhook:', data.id);
+
+    // Prepare update data
+    const updateData: Partial<Pick<IUser, 'email' | 'name' | 'profileImage'>> = {
+      email: getPrimaryEmail(data).toLowerCase(),
+      name: getDisplayName(data),
+    };
+
+    // Only include image_url if it exists
+    if (data.image_url) {
+      updateData.profileImage = data.image_url;
+    }
+
+    console.log('Updating user data in MongoDB:', updateData);
+
+    // Update the user
+    await User.findOneAndUpdate(
+      { clerkId: data.id },
+      updateData,
+      { upsert: true } // Create if doesn't exist
+    );
+
+    console.log('User updated in MongoDB');
+  } catch (error) {
+    console.error('Error updating user in MongoDB:', error);
+    throw error;
+  }
+}
+
+async function handleUserDeleted(data: DeletedObjectJSON) {
+  try {
+    console.log('Deleting user in MongoDB from Clerk webhook:', data.id);
+
+    // Delete the user
+    await User.findOneAndDelete({ clerkId: data.id });
+
+    console.log('User deleted from MongoDB');
+  } catch (error) {
+    console.error('Error deleting user from MongoDB:', error);
+    throw error;
+  }
+}
@@ -128,4 +128,40 @@ export function generateInvitationEmail({
     </body>
     </html>
   `;
-}
\ No newline at end of file
+}
+
+/**
+ * Generate a billing notice email HTML, e.g. for a failed payment
+ */
+export function generateBillingEmail({
+  heading,
+  message,
+  actionLabel,
+  actionLink,
+}: {
+  heading: string;
+  message: string;
+  actionLabel: string;
+  actionLink: string;
+}) {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <title>${heading}</title>
+    </head>
+    <body style="font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="border: 1px solid #e1e4e8; border-radius: 8px; padding: 30px; background-color: #f9f9f9;">
+        <h1 style="margin: 0 0 20px; color: #2563eb; font-size: 24px; text-align: center;">VideoCollab</h1>
+        <h2 style="font-size: 18px;">${heading}</h2>
+        <p>${message}</p>
+        <div style="text-align: center;">
+          <a href="${actionLink}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 600; margin: 20px 0;">${actionLabel}</a>
+        </div>
+        <p style="font-size: 14px; color: #666; text-align: center; margin-top: 30px;">VideoCollab - Collaborate on videos with your team</p>
+      </div>
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,188 @@
+// src/lib/encoding-ladder.ts
+import type { IMediaInfo } from "@/models/video";
+
+export type RenditionName = '240p' | '360p' | '480p' | '720p' | '1080p' | '1440p' | '2160p';
+
+export const RENDITION_NAMES: RenditionName[] = ['240p', '360p', '480p', '720p', '1080p', '1440p', '2160p'];
+
+type LadderRung = {
+  name: RenditionName;
+  shortSide: number; // Height for landscape sources, width for portrait
+  videoBitrate: number;
+  maxBitrate: number;
+  bufferSize: number;
+  audioBitrate: number;
+};
+
+// H.264 Main profile ladder, roughly following Apple's HLS authoring guidelines
+const LADDER: LadderRung[] = [
+  { name: '240p', shortSide: 240, videoBitrate: 400000, maxBitrate: 600000, bufferSize: 800000, audioBitrate: 64000 },
+  { name: '360p', shortSide: 360, videoBitrate: 800000, maxBitrate: 1200000, bufferSize: 1600000, audioBitrate: 96000 },
+  { name: '480p', shortSide: 480, videoBitrate: 1400000, maxBitrate: 2100000, bufferSize: 2800000, audioBitrate: 128000 },
+  { name: '720p', shortSide: 720, videoBitrate: 2800000, maxBitrate: 4200000, bufferSize: 5600000, audioBitrate: 128000 },
+  { name: '1080p', shortSide: 1080, videoBitrate: 5000000, maxBitrate: 7500000, bufferSize: 10000000, audioBitrate: 192000 },
+  { name: '1440p', shortSide: 1440, videoBitrate: 9000000, maxBitrate: 13500000, bufferSize: 18000000, audioBitrate: 192000 },
+  { name: '2160p', shortSide: 2160, videoBitrate: 16000000, maxBitrate: 24000000, bufferSize: 32000000, audioBitrate: 192000 },
+];
+
+const MAX_FRAME_RATE = 60;
+
+type H264Level = {
+  name: string; // As ffmpeg's -level takes it
+  idc: number; // level_idc, as the CODECS attribute carries it
+  maxMacroblocksPerSecond: number;
+  maxFrameMacroblocks: number;
+  maxBitrate: number; // Main profile, bits/s
+  maxBufferSize: number; // Main profile, bits
+};
+
+// H.264 Annex A limits (Table A-1), from 3.0 up since nothing we encode fits lower
+const H264_LEVELS: H264Level[] = [
+  { name: '3.0', idc: 30, maxMacroblocksPerSecond: 40500, maxFrameMacroblocks: 1620, maxBitrate: 10000000, maxBufferSize: 10000000 },
+  { name: '3.1', idc: 31, maxMacroblocksPerSecond: 108000, maxFrameMacroblocks: 3600, maxBitrate: 14000000, maxBufferSize: 14000000 },
+  { name: '3.2', idc: 32, maxMacroblocksPerSecond: 216000, maxFrameMacroblocks: 5120, maxBitrate: 20000000, maxBufferSize: 20000000 },
+  { name: '4.0', idc: 40, maxMacroblocksPerSecond: 245760, maxFrameMacroblocks: 8192, maxBitrate: 20000000, maxBufferSize: 25000000 },
+  { name: '4.1', idc: 41, maxMacroblocksPerSecond: 245760, maxFrameMacroblocks: 8192, maxBitrate: 50000000, maxBufferSize: 62500000 },
+  { name: '4.2', idc: 42, maxMacroblocksPerSecond: 522240, maxFrameMacroblocks: 8704, maxBitrate: 50000000, maxBufferSize: 62500000 },
+  { name: '5.0', idc: 50, maxMacroblocksPerSecond: 589824, maxFrameMacroblocks: 22080, maxBitrate: 135000000, maxBufferSize: 135000000 },
+  { name: '5.1', idc: 51, maxMacroblocksPerSecond: 983040, maxFrameMacroblocks: 36864, maxBitrate: 240000000, maxBufferSize: 240000000 },
+  { name: '5.2', idc: 52, maxMacroblocksPerSecond: 2073600, maxFrameMacroblocks: 36864, maxBitrate: 240000000, maxBufferSize: 240000000 },
+];
+
+/**
+ * Lowest H.264 level whose limits a rendition's frame size, frame rate and
+ * bitrates fit within
+ */
+function getH264Level(width: number, height: number, frameRate: number, maxBitrate: number, bufferSize: number) {
+  const widthInMacroblocks = Math.ceil(width / 16);
+  const heightInMacroblocks = Math.ceil(height / 16);
+  const frameMacroblocks = widthInMacroblocks * heightInMacroblocks;
+
+  const level = H264_LEVELS.find((candidate) => {
+    // Neither side may exceed sqrt(8 * MaxFS) macroblocks
+    const maxSide = Math.sqrt(candidate.maxFrameMacroblocks * 8);
+
+    return frameMacroblocks <= candidate.maxFrameMacroblocks
+      && widthInMacroblocks <= maxSide
+      && heightInMacroblocks <= maxSide
+      && frameMacroblocks * frameRate <= candidate.maxMacroblocksPerSecond
+      && maxBitrate <= candidate.maxBitrate
+      && bufferSize <= candidate.maxBufferSize;
+  });
+
+  return level || H264_LEVELS[H264_LEVELS.length - 1];
+}
+
+export type Rendition = {
+  name: string;
+  width: number;
+  height: number;
+  frameRate?: number;
+  videoBitrate: number;
+  maxBitrate: number;
+  bufferSize: number;
+  audioBitrate?: number;
+  /** H.264 level to encode at, as ffmpeg's -level takes it */
+  h264Level: string;
+  /** RFC 6381 codec string for the master playlist CODECS attribute */
+  codecs: string;
+};
+
+const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Display dimensions after applying rotation metadata (ffmpeg autorotates)
+ */
+export function getDisplayDimensions(info: Pick<IMediaInfo, 'width' | 'height' | 'rotation'>) {
+  const width = info.width || 0;
+  const height = info.height || 0;
+  const isRotated = info.rotation === 90 || info.rotation === 270;
+
+  return isRotated ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Choose the renditions to encode for a source. Never upscales, preserves the
+ * source aspect ratio (including portrait) and is limited to the rungs the
+ * workspace plan allows.
+ */
+export function buildEncodingLadder(
+  source: Pick<IMediaInfo, 'width' | 'height' | 'rotation' | 'frameRate' | 'audioCodec'>,
+  allowedRenditions: RenditionName[] = RENDITION_NAMES
+): Rendition[] {
+  const display = getDisplayDimensions(source);
+
+  if (!display.width || !display.height) {
+    throw new Error("Cannot build an encoding ladder without source dimensions");
+  }
+
+  const isPortrait = display.height > display.width;
+  const frameRate = source.frameRate ? Math.min(source.frameRate, MAX_FRAME_RATE) : undefined;
+  const hasAudio = Boolean(source.audioCodec);
+
+  // Each rung is a 16:9 box (9:16 for portrait) that the source is fitted inside
+  const fitToRung = (rung: LadderRung) => {
+    const boxShort = rung.shortSide;
+    const boxLong = Math.round((rung.shortSide * 16) / 9);
+    const boxWidth = isPortrait ? boxShort : boxLong;
+    const boxHeight = isPortrait ? boxLong : boxShort;
+    return Math.min(boxWidth / display.width, boxHeight / display.height);
+  };
+
+  const allowedRungs = LADDER.filter((rung) => allowedRenditions.includes(rung.name));
+  const toRendition = (rung: LadderRung, scale: number): Rendition => {
+    const width = toEven(display.width * scale);
+    const height = toEven(display.height * scale);
+    // Without a probed rate, assume the fastest we'd keep
+    const level = getH264Level(width, height, frameRate ?? MAX_FRAME_RATE, rung.maxBitrate, rung.bufferSize);
+    const videoCodec = `avc1.4d40${level.idc.toString(16).padStart(2, '0')}`;
+
+    return {
+      name: rung.name,
+      width,
+      height,
+      frameRate,
+      videoBitrate: rung.videoBitrate,
+      maxBitrate: rung.maxBitrate,
+      bufferSize: rung.bufferSize,
+      audioBitrate: hasAudio ? rung.audioBitrate : undefined,
+      h264Level: level.name,
+      codecs: hasAudio ? `${videoCodec},mp4a.40.2` : videoCodec,
+    };
+  };
+
+  // Only rungs that downscale (or match) the source; never upscale
+  const renditions = allowedRungs
+    .filter((rung) => fitToRung(rung) <= 1)
+    .map((rung) => toRendition(rung, fitToRung(rung)));
+
+  // Tiny sources still need one rendition: keep the source size with the
+  // lowest rung's rates and name, since plan checks and players go by rung names
+  if (renditions.length === 0) {
+    const lowest = allowedRungs[0] || LADDER[0];
+    return [toRendition(lowest, 1)];
+  }
+
+  return renditions;
+}
+
+/**
+ * EXT-X-STREAM-INF line for a rendition in the master playlist
+ */
+export function getStreamInfTag(rendition: Rendition): string {
+  const peakBandwidth = rendition.maxBitrate + (rendition.audioBitrate || 0);
+  const averageBandwidth = rendition.videoBitrate + (rendition.audioBitrate || 0);
+
+  const attributes = [
+    `BANDWIDTH=${peakBandwidth}`,
+    `AVERAGE-BANDWIDTH=${averageBandwidth}`,
+    `RESOLUTION=${rendition.width}x${rendition.height}`,
+    `CODECS="${rendition.codecs}"`,
+  ];
+
+  if (rendition.frameRate) {
+    attributes.push(`FRAME-RATE=${rendition.frameRate.toFixed(3)}`);
+  }
+
+  return `#EXT-X-STREAM-INF:${attributes.join(",")}`;
+}
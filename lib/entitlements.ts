@@ -0,0 +1,202 @@
+// src/lib/entitlements.ts
+// What a workspace may do on its owner's plan. Every limit in PLANS is
+// enforced here so actions and routes don't each count things their own way.
+import connectToDatabase from "@/lib/mongodb";
+import { getWorkspacePlan } from "@/lib/UserMembership";
+import { checkStorageQuota, getOwnerStorage } from "@/lib/storage-usage";
+import { PLANS, PlanLimits } from "@/lib/stripe";
+import { formatBytes } from "@/lib/utils";
+import { Video } from "@/models/video";
+import Workspace, { IWorkspace } from "@/models/workspace";
+import Invitation from "@/models/invitation";
+
+export type Entitlement = "workspaces" | "videos" | "members" | "storage";
+
+type WorkspaceLike = Pick<IWorkspace, "ownerId" | "members"> & { _id: { toString(): string } };
+
+/**
+ * Thrown when an action would go over a plan limit. The message is meant to
+ * be shown to the user as is.
+ */
+export class EntitlementError extends Error {
+  readonly code = "PLAN_LIMIT_REACHED";
+
+  constructor(
+    message: string,
+    public readonly entitlement: Entitlement,
+    /** Whether the user who hit the limit can lift it by upgrading */
+    public readonly canUpgrade: boolean
+  ) {
+    super(message);
+    this.name = "EntitlementError";
+  }
+}
+
+/**
+ * Details for an upgrade prompt when an action failed on a plan limit
+ */
+export function getUpgradeRequired(error: unknown) {
+  return error instanceof EntitlementError
+    ? { entitlement: error.entitlement, canUpgrade: error.canUpgrade }
+    : undefined;
+}
+
+export type WorkspaceEntitlements = {
+  plan: keyof typeof PLANS;
+  planName: string;
+  limits: PlanLimits;
+  usage: {
+    videos: number;
+    members: number;
+    pendingInvitations: number;
+  };
+  canAddVideo: boolean;
+  canInviteMember: boolean;
+  /** Limits the workspace already exceeds, e.g. after its owner downgraded */
+  overLimit: Entitlement[];
+  /**
+   * Nothing is deleted when a workspace ends up over its plan's limits;
+   * instead it takes no new uploads until it's back under them
+   */
+  isReadOnly: boolean;
+};
+
+const atLimit = (count: number, limit: number | null) => limit !== null && count >= limit;
+const isOver = (count: number, limit: number | null) => limit !== null && count > limit;
+
+// Only the owner's plan applies, so only the owner can upgrade their way out
+function limitMessage(what: string, planName: string, isOwner: boolean) {
+  return isOwner
+    ? `The ${planName} plan allows ${what}. Upgrade to Pro to add more.`
+    : `This workspace's ${planName} plan allows ${what}. Ask the workspace owner to upgrade to Pro.`;
+}
+
+/**
+ * Explain why a workspace over its plan's limits can't take uploads
+ */
+export function readOnlyMessage(overLimit: Entitlement[], planName: string, isOwner: boolean) {
+  return (
+    `This workspace has more ${overLimit.join(" and ")} than the ${planName} plan allows, so it's read-only until it's back under the limit. ` +
+    (isOwner ? "Upgrade to Pro or remove some to upload again." : "Ask the workspace owner to upgrade to Pro.")
+  );
+}
+
+/**
+ * Count what a workspace is using against the limits of its owner's plan
+ */
+export async function getWorkspaceEntitlements(workspace: WorkspaceLike): Promise<WorkspaceEntitlements> {
+  await connectToDatabase();
+
+  const workspaceId = workspace._id.toString();
+  const [plan, videos, pendingInvitations, storage] = await Promise.all([
+    getWorkspacePlan(workspace.ownerId),
+    // Each version stack counts once, including uploads still in progress
+    Video.countDocuments({ workspaceId, isLatestVersion: { $ne: false } }),
+    Invitation.countDocuments({ workspaceId, status: "pending", expiresAt: { $gt: new Date() } }),
+    getOwnerStorage(workspace.ownerId),
+  ]);
+
+  const { limits, name } = PLANS[plan];
+  const members = workspace.members.length;
+
+  const overLimit: Entitlement[] = [];
+  if (isOver(videos, limits.videosPerWorkspace)) overLimit.push("videos");
+  if (isOver(members, limits.membersPerWorkspace)) overLimit.push("members");
+  if (isOver(storage.usedBytes, storage.quotaBytes)) overLimit.push("storage");
+
+  return {
+    plan,
+    planName: name,
+    limits,
+    usage: { videos, members, pendingInvitations },
+    canAddVideo: !atLimit(videos, limits.videosPerWorkspace),
+    canInviteMember: !atLimit(members + pendingInvitations, limits.membersPerWorkspace),
+    overLimit,
+    isReadOnly: overLimit.length > 0,
+  };
+}
+
+/**
+ * Check a user may create another workspace
+ */
+export async function assertCanCreateWorkspace(userId: string) {
+  await connectToDatabase();
+
+  const plan = await getWorkspacePlan(userId);
+  const { limits, name } = PLANS[plan];
+
+  if (limits.workspaces === null) return;
+
+  const owned = await Workspace.countDocuments({ ownerId: userId });
+
+  if (atLimit(owned, limits.workspaces)) {
+    throw new EntitlementError(
+      limitMessage(`${limits.workspaces} workspaces`, name, true),
+      "workspaces",
+      true
+    );
+  }
+}
+
+/**
+ * Check an upload fits the workspace: nothing goes into a read-only
+ * workspace, a new video needs a free video slot, and any upload (including
+ * a new version) needs room in the owner's storage
+ */
+export async function assertCanUpload(
+  workspace: WorkspaceLike,
+  userId: string,
+  { fileSize, isNewVideo }: { fileSize: number; isNewVideo: boolean }
+) {
+  const isOwner = workspace.ownerId === userId;
+  const { limits, planName, usage, overLimit, isReadOnly } = await getWorkspaceEntitlements(workspace);
+
+  if (isReadOnly) {
+    throw new EntitlementError(readOnlyMessage(overLimit, planName, isOwner), overLimit[0], isOwner);
+  }
+
+  if (isNewVideo) {
+    if (atLimit(usage.videos, limits.videosPerWorkspace)) {
+      throw new EntitlementError(
+        limitMessage(`${limits.videosPerWorkspace} videos per workspace`, planName, isOwner),
+        "videos",
+        isOwner
+      );
+    }
+  }
+
+  const { allowed, storage } = await checkStorageQuota(workspace.ownerId, fileSize);
+
+  if (!allowed) {
+    const available = Math.max(0, storage.quotaBytes - storage.usedBytes - storage.reservedBytes);
+    throw new EntitlementError(
+      `This file (${formatBytes(fileSize)}) is larger than the storage left on the ${storage.planName} plan ` +
+        `(${formatBytes(available)} of ${formatBytes(storage.quotaBytes)}).` +
+        (isOwner ? " Upgrade to Pro or delete videos to free up space." : " Ask the workspace owner to free up space or upgrade."),
+      "storage",
+      isOwner
+    );
+  }
+}
+
+/**
+ * Check a workspace has a seat for someone new. Pending invitations hold a
+ * seat when inviting; accepting only needs the seat to still be free.
+ */
+export async function assertCanAddMember(
+  workspace: WorkspaceLike,
+  userId: string,
+  { countPendingInvitations }: { countPendingInvitations: boolean }
+) {
+  const { limits, planName, usage } = await getWorkspaceEntitlements(workspace);
+  const seatsTaken = usage.members + (countPendingInvitations ? usage.pendingInvitations : 0);
+  const isOwner = workspace.ownerId === userId;
+
+  if (atLimit(seatsTaken, limits.membersPerWorkspace)) {
+    throw new EntitlementError(
+      limitMessage(`up to ${limits.membersPerWorkspace} members per workspace`, planName, isOwner),
+      "members",
+      isOwner
+    );
+  }
+}
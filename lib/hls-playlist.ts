@@ -0,0 +1,156 @@
+// src/lib/hls-playlist.ts
+
+type UriResolver = (uri: string) => Promise<string> | string;
+
+/**
+ * Parses an HLS attribute list (e.g. `BANDWIDTH=800000,CODECS="avc1,mp4a"`)
+ */
+export function parseAttributes(attributeList: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match;
+
+  while ((match = pattern.exec(attributeList)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, "");
+  }
+
+  return attributes;
+}
+
+/**
+ * The ladder rung of a variant, e.g. 1080 for `1080p/playlist.m3u8`. Falls back
+ * to the short side of RESOLUTION for playlists that don't follow our layout.
+ */
+export function getVariantRung(uri: string, attributes: Record<string, string>): number | null {
+  const rungMatch = uri.match(/(?:^|\/)(\d+)p\//);
+  if (rungMatch) {
+    return Number(rungMatch[1]);
+  }
+
+  const resolution = attributes.RESOLUTION?.split("x").map(Number);
+  if (resolution?.length === 2 && resolution.every(Boolean)) {
+    return Math.min(resolution[0], resolution[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Rewrites a master playlist for one viewer: drops variants above maxRung
+ * (keeping at least the lowest one) and passes every remaining URI through
+ * resolveUri, so removed variants are never disclosed.
+ */
+export async function rewriteMasterPlaylist(
+  playlist: string,
+  { maxRung, resolveUri }: { maxRung?: number; resolveUri: UriResolver }
+): Promise<string> {
+  const lines = playlist.split(/\r?\n/);
+
+  type Variant = { tag: string; uri: string; rung: number | null };
+  const header: string[] = [];
+  const variants: Variant[] = [];
+  const iFrameVariants: Variant[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (line.startsWith("#EXT-X-STREAM-INF:")) {
+      // The URI is the next line that isn't a tag or blank
+      let uriIndex = i + 1;
+      while (uriIndex < lines.length && (!lines[uriIndex].trim() || lines[uriIndex].trim().startsWith("#"))) {
+        uriIndex++;
+      }
+      const uri = lines[uriIndex]?.trim();
+      if (!uri) break;
+
+      const attributes = parseAttributes(line.slice("#EXT-X-STREAM-INF:".length));
+      variants.push({ tag: line, uri, rung: getVariantRung(uri, attributes) });
+      i = uriIndex;
+    } else if (line.startsWith("#EXT-X-I-FRAME-STREAM-INF:")) {
+      const attributes = parseAttributes(line.slice("#EXT-X-I-FRAME-STREAM-INF:".length));
+      const uri = attributes.URI || "";
+      iFrameVariants.push({ tag: line, uri, rung: getVariantRung(uri, attributes) });
+    } else if (!line.startsWith("#")) {
+      // Stray URI without a STREAM-INF tag; drop it rather than leak it
+      continue;
+    } else {
+      header.push(line);
+    }
+  }
+
+  const isAllowed = (variant: Variant) =>
+    maxRung === undefined || variant.rung === null || variant.rung <= maxRung;
+
+  let allowedVariants = variants.filter(isAllowed);
+  if (allowedVariants.length === 0 && variants.length > 0) {
+    const lowest = [...variants].sort((a, b) => (a.rung ?? 0) - (b.rung ?? 0))[0];
+    allowedVariants = [lowest];
+  }
+
+  const output: string[] = [];
+
+  for (const tagLine of header) {
+    // EXT-X-MEDIA renditions (alternate audio, subtitles) carry their own URI
+    if (tagLine.startsWith("#EXT-X-MEDIA:") && tagLine.includes('URI="')) {
+      const uri = parseAttributes(tagLine.slice("#EXT-X-MEDIA:".length)).URI;
+      output.push(tagLine.replace(`URI="${uri}"`, `URI="${await resolveUri(uri)}"`));
+    } else {
+      output.push(tagLine);
+    }
+  }
+
+  for (const variant of allowedVariants) {
+    output.push(variant.tag, await resolveUri(variant.uri));
+  }
+
+  for (const variant of iFrameVariants.filter(isAllowed)) {
+    output.push(variant.tag.replace(`URI="${variant.uri}"`, `URI="${await resolveUri(variant.uri)}"`));
+  }
+
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Rewrites every URI in a media playlist (segments, plus EXT-X-MAP and
+ * EXT-X-KEY URIs) through resolveUri
+ */
+export async function rewriteMediaPlaylist(playlist: string, resolveUri: UriResolver): Promise<string> {
+  const output: string[] = [];
+
+  for (const rawLine of playlist.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (!line.startsWith("#")) {
+      output.push(await resolveUri(line));
+    } else if ((line.startsWith("#EXT-X-MAP:") || line.startsWith("#EXT-X-KEY:")) && line.includes('URI="')) {
+      const uri = parseAttributes(line.slice(line.indexOf(":") + 1)).URI;
+      output.push(line.replace(`URI="${uri}"`, `URI="${await resolveUri(uri)}"`));
+    } else {
+      output.push(line);
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
+
+/**
+ * Rewrites the image references of a WebVTT thumbnails track, keeping any
+ * `#xywh=` media fragment intact
+ */
+export async function rewriteThumbnailsVtt(vtt: string, resolveUri: UriResolver): Promise<string> {
+  const output: string[] = [];
+
+  for (const line of vtt.split(/\r?\n/)) {
+    const fragmentIndex = line.indexOf("#xywh=");
+
+    if (fragmentIndex > 0) {
+      output.push(`${await resolveUri(line.slice(0, fragmentIndex))}${line.slice(fragmentIndex)}`);
+    } else {
+      output.push(line);
+    }
+  }
+
+  return output.join("\n");
+}
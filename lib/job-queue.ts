@@ -0,0 +1,224 @@
+// src/lib/job-queue.ts
+import { randomUUID } from "crypto";
+import connectToDatabase from "@/lib/mongodb";
+import Job, { IJob } from "@/models/job";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 30 * 1000; // First retry after 30 seconds
+const MAX_BACKOFF_MS = 30 * 60 * 1000; // Never wait more than 30 minutes between retries
+
+export type EnqueueOptions = {
+  /** Skip enqueueing if a queued or running job already has this key */
+  dedupeKey?: string;
+  maxAttempts?: number;
+  runAt?: Date;
+};
+
+/**
+ * Throw from a handler when retrying cannot succeed (e.g. invalid input).
+ * The job is dead-lettered immediately instead of being rescheduled.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+export interface JobHandler {
+  /** Performs the work. Throwing schedules a retry or dead-letters the job. */
+  run: (job: IJob) => Promise<void>;
+  /** Called once when a job has exhausted its attempts */
+  onDeadLetter?: (job: IJob, error: string) => Promise<void>;
+}
+
+/**
+ * Exponential backoff with jitter for the given (1-based) attempt number
+ */
+export function getRetryDelay(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempt - 1));
+  const jitter = Math.random() * delay * 0.2;
+  return Math.round(delay + jitter);
+}
+
+/**
+ * Add a job to the queue
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<IJob> {
+  await connectToDatabase();
+
+  const findPendingJob = (dedupeKey: string) =>
+    Job.findOne({ dedupeKey, status: { $in: ["queued", "running"] } });
+
+  if (options.dedupeKey) {
+    const existingJob = await findPendingJob(options.dedupeKey);
+
+    if (existingJob) {
+      console.log(`Job ${existingJob._id} already pending for ${options.dedupeKey}`);
+      return existingJob;
+    }
+  }
+
+  try {
+    const job = await Job.create({
+      type,
+      payload,
+      dedupeKey: options.dedupeKey,
+      maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      runAt: options.runAt ?? new Date(),
+      status: "queued",
+    });
+
+    console.log(`Enqueued ${type} job ${job._id}`);
+    return job;
+  } catch (error: unknown) {
+    // The partial unique index says another caller queued it since our check
+    if (!options.dedupeKey || (error as { code?: number }).code !== 11000) throw error;
+
+    const existingJob = await findPendingJob(options.dedupeKey);
+    if (!existingJob) throw error;
+
+    console.log(`Job ${existingJob._id} already pending for ${options.dedupeKey}`);
+    return existingJob;
+  }
+}
+
+/**
+ * Atomically lease the next due job of one of the given types
+ */
+export async function claimNextJob(
+  workerId: string,
+  types: string[],
+  leaseMs: number
+): Promise<IJob | null> {
+  await connectToDatabase();
+
+  const now = new Date();
+
+  return Job.findOneAndUpdate(
+    {
+      status: "queued",
+      type: { $in: types },
+      runAt: { $lte: now },
+    },
+    {
+      $set: {
+        status: "running",
+        lockedBy: workerId,
+        lockedUntil: new Date(now.getTime() + leaseMs),
+        leaseToken: randomUUID(),
+        startedAt: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { runAt: 1 }, new: true }
+  );
+}
+
+/**
+ * Extend the lease on a running job. Returns false if the lease was lost.
+ */
+export async function heartbeatJob(job: IJob, leaseMs: number): Promise<boolean> {
+  const result = await Job.updateOne(
+    { _id: job._id, status: "running", leaseToken: job.leaseToken },
+    { $set: { lockedUntil: new Date(Date.now() + leaseMs) } }
+  );
+
+  return result.matchedCount === 1;
+}
+
+/**
+ * Mark a running job as completed. Returns false if the lease was lost, in
+ * which case the job has been requeued or dead-lettered and is left alone.
+ */
+export async function completeJob(job: IJob): Promise<boolean> {
+  const result = await Job.updateOne(
+    { _id: job._id, status: "running", leaseToken: job.leaseToken },
+    {
+      $set: { status: "completed", completedAt: new Date() },
+      $unset: { lockedBy: "", lockedUntil: "", leaseToken: "" },
+    }
+  );
+
+  return result.matchedCount === 1;
+}
+
+/**
+ * Record a failed attempt, either rescheduling the job or dead-lettering it.
+ * Returns the updated job so the caller can run dead-letter hooks.
+ */
+export async function failJob(
+  job: IJob,
+  error: string,
+  { permanent = false }: { permanent?: boolean } = {}
+): Promise<IJob | null> {
+  const isDead = permanent || job.attempts >= job.maxAttempts;
+
+  const update = isDead
+    ? {
+        $set: { status: "dead", lastError: error, failedAt: new Date() },
+        $unset: { lockedBy: "", lockedUntil: "", leaseToken: "" },
+      }
+    : {
+        $set: {
+          status: "queued",
+          lastError: error,
+          runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+        },
+        $unset: { lockedBy: "", lockedUntil: "", leaseToken: "" },
+      };
+
+  return Job.findOneAndUpdate(
+    // Jobs claimed before lease tokens existed have none
+    { _id: job._id, status: "running", leaseToken: job.leaseToken ?? null },
+    update,
+    { new: true }
+  );
+}
+
+/**
+ * Requeue or dead-letter running jobs whose worker stopped heartbeating
+ * (crash, restart or deploy). Returns the jobs that were dead-lettered.
+ */
+export async function recoverStaleJobs(types: string[]): Promise<IJob[]> {
+  await connectToDatabase();
+
+  const staleJobs = await Job.find({
+    status: "running",
+    type: { $in: types },
+    lockedUntil: { $lt: new Date() },
+  });
+
+  const deadJobs: IJob[] = [];
+
+  for (const staleJob of staleJobs) {
+    console.warn(`Lease expired for job ${staleJob._id} (worker ${staleJob.lockedBy})`);
+    const updatedJob = await failJob(staleJob, "Worker lease expired before the job finished");
+
+    if (updatedJob?.status === "dead") {
+      deadJobs.push(updatedJob);
+    }
+  }
+
+  return deadJobs;
+}
+
+/**
+ * Put a dead-lettered job back on the queue with a fresh attempt budget
+ */
+export async function retryDeadJob(jobId: string): Promise<IJob | null> {
+  await connectToDatabase();
+
+  return Job.findOneAndUpdate(
+    { _id: jobId, status: "dead" },
+    {
+      $set: { status: "queued", attempts: 0, runAt: new Date() },
+      $unset: { failedAt: "" },
+    },
+    { new: true }
+  );
+}
@@ -0,0 +1,48 @@
+// src/lib/multipart-upload.ts
+import { getStorage, UploadedPart } from "@/lib/storage";
+
+export type { UploadedPart };
+
+// How long an unfinished upload can be picked up again
+export const RESUMABLE_UPLOAD_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * List every part storage has received for a multipart upload
+ */
+export async function listUploadedParts(key: string, uploadId: string): Promise<UploadedPart[]> {
+  return getStorage().listParts(key, uploadId);
+}
+
+/**
+ * Abort a multipart upload so storage discards the parts it holds. Uploads
+ * that no longer exist (already aborted or expired) are not an error.
+ */
+export async function abortUpload(key: string, uploadId: string) {
+  await getStorage().abortMultipartUpload(key, uploadId);
+}
+
+/**
+ * Compare the parts a client says it uploaded with what storage actually holds.
+ * Returns a description of each mismatch, or an empty list if they agree.
+ */
+export function findPartMismatches(
+  claimedParts: { PartNumber: number; ETag: string; ChecksumSHA256?: string }[],
+  uploadedParts: UploadedPart[]
+) {
+  const uploaded = new Map(uploadedParts.map((part) => [part.PartNumber, part]));
+  const mismatches: string[] = [];
+
+  for (const claimed of claimedParts) {
+    const part = uploaded.get(claimed.PartNumber);
+
+    if (!part) {
+      mismatches.push(`Part ${claimed.PartNumber} was never received`);
+    } else if (part.ETag !== claimed.ETag.replace(/"/g, "")) {
+      mismatches.push(`Part ${claimed.PartNumber} has a different ETag`);
+    } else if (claimed.ChecksumSHA256 && part.ChecksumSHA256 !== claimed.ChecksumSHA256) {
+      mismatches.push(`Part ${claimed.PartNumber} has a different checksum`);
+    }
+  }
+
+  return mismatches;
+}
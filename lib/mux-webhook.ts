@@ -0,0 +1,96 @@
+// src/lib/mux-webhook.ts
+// Applies Mux asset events to videos transcoded by Mux, through the shared
+// processing state machine. Called by the Mux webhook route and when
+// replaying a stored event.
+import { isValidObjectId } from "mongoose";
+import connectToDatabase from "@/lib/mongodb";
+import { getMuxThumbnailUrl } from "@/lib/mux";
+import { markVideoFailed, markVideoReady } from "@/lib/video-state";
+import Video from "@/models/video";
+
+type MuxAssetData = {
+  id?: string;
+  playback_ids?: { id: string; policy?: string }[];
+  duration?: number;
+  resolution_tier?: string;
+  /** The ID of the Video the asset was created for */
+  passthrough?: string;
+  errors?: { type?: string; messages?: string[] };
+};
+
+export type MuxWebhookEvent = {
+  id: string;
+  type: string;
+  data: MuxAssetData;
+};
+
+/**
+ * Handle a verified Mux event. Throws if it couldn't be applied.
+ */
+export async function handleMuxEvent(event: MuxWebhookEvent) {
+  await connectToDatabase();
+
+  if (event.type === "video.asset.ready") {
+    await handleAssetReady(event.data);
+  } else if (event.type === "video.asset.errored") {
+    await handleAssetError(event.data);
+  }
+}
+
+// Assets are matched by ID, or by the Video ID they were created with in case
+// the event beats the asset ID being saved
+const videoFilter = (data: MuxAssetData & { id: string }) =>
+  isValidObjectId(data.passthrough)
+    ? { $or: [{ muxAssetId: data.id }, { _id: data.passthrough }] }
+    : { muxAssetId: data.id };
+
+async function handleAssetReady(data: MuxAssetData) {
+  const assetId = data.id;
+  const playbackId = data.playback_ids?.[0]?.id;
+  const playbackPolicy = data.playback_ids?.[0]?.policy;
+
+  if (!assetId) {
+    console.error("No asset ID in webhook data");
+    return;
+  }
+
+  const video = await Video.findOne(videoFilter({ ...data, id: assetId })).select("_id");
+
+  if (!video) {
+    console.warn(`No video found for Mux asset ${assetId}`);
+    return;
+  }
+
+  // Signed playback IDs need a token per request, which the thumbnail route signs
+  const isSigned = playbackPolicy === "signed";
+
+  await markVideoReady(video._id.toString(), {
+    muxAssetId: assetId,
+    muxPlaybackId: playbackId,
+    muxPlaybackPolicy: isSigned ? "signed" : "public",
+    duration: data.duration,
+    resolution: data.resolution_tier,
+    thumbnailUrl: playbackId && !isSigned ? getMuxThumbnailUrl(playbackId) : undefined,
+  });
+}
+
+async function handleAssetError(data: MuxAssetData) {
+  const assetId = data.id;
+
+  if (!assetId) {
+    console.error("No asset ID in webhook data");
+    return;
+  }
+
+  const video = await Video.findOne(videoFilter({ ...data, id: assetId })).select("_id");
+
+  if (!video) {
+    console.warn(`No video found for Mux asset ${assetId}`);
+    return;
+  }
+
+  await markVideoFailed(
+    video._id.toString(),
+    `Mux couldn't process this video: ${data.errors?.messages?.join(" ") || "Unknown error"}`
+  );
+}
@@ -1,5 +1,8 @@
 // src/lib/mux.ts
+import { createHmac, timingSafeEqual } from 'crypto';
 import Mux from '@mux/mux-node';
+import { UTApi } from 'uploadthing/server';
+import type { MuxWebhookEvent } from '@/lib/mux-webhook';
 
 // if (!process.env.MUX_TOKEN_ID || !process.env.MUX_TOKEN_SECRET) {
 //   throw new Error('Missing Mux API credentials');
@@ -28,15 +31,79 @@ export function formatDuration(seconds: number): string {
   return `${hours}:${remainingMinutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 }
 
-// Parse Mux webhook event
-export function parseMuxWebhookEvent(payload: any, signature: string): any {
-  try {
-    // In a production environment, you should verify the signature
-    // This would require additional implementation for security
-    return payload;
-  } catch (error) {
-    console.error('Error parsing Mux webhook:', error);
-    throw new Error('Failed to parse webhook event');
+// How far a webhook's signed timestamp may be from now before it's refused as a replay
+const MUX_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Thrown when a Mux webhook's signature is missing, invalid or too old
+ */
+export class MuxWebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MuxWebhookSignatureError';
+  }
+}
+
+/**
+ * Check the `mux-signature` header (`t=<timestamp>,v1=<hex HMAC>`): an
+ * HMAC-SHA256 of `<timestamp>.<raw body>` keyed with the webhook's signing
+ * secret, signed within the tolerance window
+ */
+export function verifyMuxWebhookSignature(
+  rawBody: string,
+  signatureHeader: string,
+  secret: string,
+  toleranceSeconds = MUX_WEBHOOK_TOLERANCE_SECONDS
+) {
+  const parts = signatureHeader.split(',').map((part) => part.trim().split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    throw new MuxWebhookSignatureError('Malformed mux-signature header');
+  }
+
+  const ageSeconds = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(ageSeconds) || ageSeconds > toleranceSeconds) {
+    throw new MuxWebhookSignatureError('Webhook timestamp is outside the tolerance window');
+  }
+
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest();
+  const matches = signatures.some((signature) => {
+    const received = Buffer.from(signature, 'hex');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+
+  if (!matches) {
+    throw new MuxWebhookSignatureError('Webhook signature does not match');
+  }
+}
+
+/**
+ * Verify a Mux webhook delivery and parse its event
+ */
+export function parseMuxWebhookEvent(rawBody: string, signatureHeader: string): MuxWebhookEvent {
+  const secret = process.env.MUX_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new MuxWebhookSignatureError('MUX_WEBHOOK_SECRET is not set');
+  }
+
+  verifyMuxWebhookSignature(rawBody, signatureHeader, secret);
+
+  return JSON.parse(rawBody) as MuxWebhookEvent;
+}
+
+/**
+ * Delete the Mux asset and UploadThing source file behind a video processed by Mux
+ */
+export async function removeMuxVideo({ muxAssetId, uploadthingKey }: { muxAssetId?: string; uploadthingKey?: string }) {
+  if (muxAssetId) {
+    await mux.video.assets.delete(muxAssetId);
+  }
+
+  if (uploadthingKey) {
+    await new UTApi().deleteFiles(uploadthingKey);
   }
 }
 
@@ -49,10 +116,40 @@ export function generateUniqueFileName(originalName: string): string {
   return `${timestamp}-${random}.${extension}`;
 }
 
-// Get Mux playback URL
-export function getMuxPlaybackUrl(playbackId: string, thumbnailTime?: number): string {
+// Playback tokens only need to outlast a viewing session
+const MUX_TOKEN_EXPIRATION = '6h';
+
+/**
+ * HLS URL for a signed playback ID, capped at a resolution (e.g. "720p").
+ * The cap is a claim in the token, so the viewer can't drop it. Signed with
+ * MUX_SIGNING_KEY and MUX_PRIVATE_KEY.
+ */
+export async function getSignedMuxPlaybackUrl(playbackId: string, maxResolution: string): Promise<string> {
+  const token = await mux.jwt.signPlaybackId(playbackId, {
+    type: 'video',
+    expiration: MUX_TOKEN_EXPIRATION,
+    params: { max_resolution: maxResolution },
+  });
+  return `https://stream.mux.com/${playbackId}.m3u8?token=${token}`;
+}
+
+/**
+ * Thumbnail URL for a signed playback ID
+ */
+export async function getSignedMuxThumbnailUrl(playbackId: string, thumbnailTime?: number): Promise<string> {
+  const token = await mux.jwt.signPlaybackId(playbackId, {
+    type: 'thumbnail',
+    expiration: MUX_TOKEN_EXPIRATION,
+    params: { time: String(thumbnailTime || 0) },
+  });
+  return `https://image.mux.com/${playbackId}/thumbnail.jpg?token=${token}`;
+}
+
+// Get Mux playback URL for a public playback ID. max_resolution is only a
+// hint there: nothing stops a client requesting the URL without it.
+export function getMuxPlaybackUrl(playbackId: string, maxResolution?: string): string {
   if (!playbackId) return '';
-  return `https://stream.mux.com/${playbackId}.m3u8`;
+  return `https://stream.mux.com/${playbackId}.m3u8${maxResolution ? `?max_resolution=${maxResolution}` : ''}`;
 }
 
 // Get Mux thumbnail URL
@@ -0,0 +1,29 @@
+// src/lib/review.ts
+import type { ReviewAction, ReviewStatus } from "@/models/video";
+
+export type { ReviewAction, ReviewStatus };
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+};
+
+export const REVIEW_ACTION_LABELS: Record<ReviewAction, string> = {
+  submitted: "submitted for review",
+  approved: "approved",
+  changes_requested: "requested changes",
+  reopened: "moved back to draft",
+  reviewers_updated: "updated the reviewers",
+};
+
+// Statuses each transition may start from
+export const REVIEW_TRANSITIONS: Record<Exclude<ReviewAction, "reviewers_updated">, ReviewStatus[]> = {
+  submitted: ["draft", "changes_requested"],
+  approved: ["in_review"],
+  changes_requested: ["in_review"],
+  reopened: ["in_review", "changes_requested", "approved"],
+};
+
+export const MAX_REQUIRED_APPROVALS = 10;
@@ -0,0 +1,84 @@
+// src/lib/storage-driver.ts
+// What the app needs from object storage. lib/storage.ts picks the
+// implementation: S3 (lib/storage-s3.ts) or a directory on local disk
+// (lib/storage-local.ts).
+import type { Readable } from "stream";
+
+export type StorageDriverName = "s3" | "local";
+
+export type StoredObject = {
+  key: string;
+  size: number;
+};
+
+export type ObjectInfo = {
+  size: number;
+  contentType?: string;
+};
+
+export type UploadedPart = {
+  PartNumber: number;
+  ETag: string;
+  Size: number;
+  ChecksumSHA256?: string;
+};
+
+export type CompletedUpload = {
+  /** Composite SHA-256 of the object, when every part carried a checksum */
+  checksumSHA256?: string;
+};
+
+export interface StorageDriver {
+  name: StorageDriverName;
+
+  putObject(key: string, body: Readable | Buffer | string, contentType?: string): Promise<void>;
+  /** Throws StorageNotFoundError if there's no such object */
+  getObjectStream(key: string): Promise<Readable>;
+  /** Throws StorageNotFoundError if there's no such object */
+  getObjectText(key: string): Promise<string>;
+  /** Null if there's no such object */
+  headObject(key: string): Promise<ObjectInfo | null>;
+  deleteObject(key: string): Promise<void>;
+  deleteObjects(keys: string[]): Promise<void>;
+  /** Every object whose key starts with the prefix */
+  listObjects(prefix: string): Promise<StoredObject[]>;
+  copyObject(sourceKey: string, destinationKey: string): Promise<void>;
+  /** A URL the browser can GET the object from until it expires */
+  getDownloadUrl(key: string, expiresIn: number): Promise<string>;
+  /** Where ffmpeg can read the object from without downloading it first */
+  getProcessingInput(key: string, expiresIn: number): Promise<string>;
+
+  createMultipartUpload(
+    key: string,
+    options: { contentType?: string; metadata?: Record<string, string> }
+  ): Promise<string>;
+  /**
+   * A URL the browser can PUT one part to. With a checksum, the part is
+   * refused unless it's sent in x-amz-checksum-sha256 and matches the bytes.
+   */
+  getUploadPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    options: { checksumSHA256?: string; expiresIn: number }
+  ): Promise<string>;
+  /** Throws StorageNotFoundError if the upload was aborted or has expired */
+  listParts(key: string, uploadId: string): Promise<UploadedPart[]>;
+  completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: { PartNumber: number; ETag: string; ChecksumSHA256?: string }[]
+  ): Promise<CompletedUpload>;
+  /** Uploads that no longer exist (already aborted or expired) are not an error */
+  abortMultipartUpload(key: string, uploadId: string): Promise<void>;
+}
+
+/**
+ * The object or upload doesn't exist in storage
+ */
+export class StorageNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageNotFoundError";
+  }
+}
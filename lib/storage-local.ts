@@ -0,0 +1,383 @@
+// src/lib/storage-local.ts
+// Storage driver that keeps objects in a directory on local disk
+// (LOCAL_STORAGE_DIR, default .storage), so the app runs without AWS. Its
+// "presigned" URLs point at /api/storage and carry an HMAC signature made
+// with LOCAL_STORAGE_SECRET, which that route checks in place of a session.
+import { createHash, createHmac, randomUUID, timingSafeEqual } from "crypto";
+import fs from "fs-extra";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { getCompositeChecksum } from "@/lib/checksums";
+import { StorageDriver, StorageNotFoundError, StoredObject, UploadedPart } from "@/lib/storage-driver";
+
+const rootDir = path.resolve(process.env.LOCAL_STORAGE_DIR || ".storage");
+const objectsDir = path.join(rootDir, "objects");
+const multipartDir = path.join(rootDir, "multipart");
+const tempDir = path.join(rootDir, "tmp");
+
+// Disk keeps no object metadata, so content types come from the extension
+const CONTENT_TYPES: Record<string, string> = {
+  ".m3u8": "application/vnd.apple.mpegurl",
+  ".ts": "video/MP2T",
+  ".vtt": "text/vtt",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".mp4": "video/mp4",
+  ".m4v": "video/mp4",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+};
+
+type UploadManifest = {
+  key: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+  createdAt: string;
+};
+
+/**
+ * A part sent to /api/storage didn't match the checksum it was signed for
+ */
+export class StorageChecksumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageChecksumError";
+  }
+}
+
+function getSecret() {
+  const secret = process.env.LOCAL_STORAGE_SECRET;
+
+  if (!secret) {
+    throw new Error("LOCAL_STORAGE_SECRET must be set to use local storage");
+  }
+  return secret;
+}
+
+const sign = (fields: (string | number)[]) =>
+  createHmac("sha256", getSecret()).update(fields.join("\n")).digest("base64url");
+
+const contentTypeOf = (key: string) =>
+  CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream";
+
+/**
+ * Map a key to its file, refusing keys that would escape the objects directory
+ */
+function objectPath(key: string) {
+  const filePath = path.resolve(objectsDir, key);
+
+  if (!filePath.startsWith(objectsDir + path.sep)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+  return filePath;
+}
+
+function uploadDir(uploadId: string) {
+  // Upload IDs are generated here as UUIDs; anything else can't be ours
+  if (!/^[0-9a-f-]{36}$/.test(uploadId)) {
+    throw new StorageNotFoundError(`No upload ${uploadId}`);
+  }
+  return path.join(multipartDir, uploadId);
+}
+
+const partPath = (uploadId: string, partNumber: number) =>
+  path.join(uploadDir(uploadId), `part-${partNumber}`);
+
+async function readManifest(key: string, uploadId: string): Promise<UploadManifest> {
+  const manifest: UploadManifest | null = await fs
+    .readJson(path.join(uploadDir(uploadId), "upload.json"))
+    .catch(() => null);
+
+  if (!manifest || manifest.key !== key) {
+    throw new StorageNotFoundError(`No upload ${uploadId} for ${key}`);
+  }
+  return manifest;
+}
+
+/**
+ * Write to a temporary file and move it into place, so readers never see a
+ * half-written object
+ */
+async function writeAtomically(filePath: string, write: (tempPath: string) => Promise<void>) {
+  await fs.ensureDir(tempDir);
+  const tempPath = path.join(tempDir, randomUUID());
+
+  try {
+    await write(tempPath);
+    await fs.move(tempPath, filePath, { overwrite: true });
+  } finally {
+    await fs.remove(tempPath);
+  }
+}
+
+async function statFile(filePath: string) {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.isFile() ? stats : null;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await walk(entryPath)));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+
+  return files;
+}
+
+function storageUrl(key: string, params: Record<string, string | number | undefined>) {
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  const query = new URLSearchParams();
+
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) query.set(name, String(value));
+  }
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${appUrl}/api/storage/${encodedKey}?${query}`;
+}
+
+const expiresAt = (expiresIn: number) => Math.floor(Date.now() / 1000) + expiresIn;
+
+/**
+ * Check the signature and expiry of a URL made by getDownloadUrl (GET) or
+ * getUploadPartUrl (PUT)
+ */
+export function verifyLocalStorageUrl(method: "GET" | "PUT", key: string, params: URLSearchParams) {
+  const expires = Number(params.get("expires"));
+  const signature = params.get("signature") || "";
+
+  if (!expires || expires < Date.now() / 1000) return false;
+
+  const fields =
+    method === "GET"
+      ? ["GET", key, expires]
+      : ["PUT", key, params.get("uploadId") || "", params.get("partNumber") || "", params.get("checksum") || "", expires];
+
+  const expected = Buffer.from(sign(fields));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * The file behind an object, for serving it with range support
+ */
+export async function getLocalObjectFile(key: string) {
+  const filePath = objectPath(key);
+  const stats = await statFile(filePath);
+
+  return stats ? { filePath, size: stats.size, contentType: contentTypeOf(key) } : null;
+}
+
+/**
+ * Store one part of a multipart upload, checking it against the SHA-256 the
+ * URL was signed for. Returns the part's ETag, an MD5 like S3's.
+ */
+export async function writeLocalPart(
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  body: Readable,
+  checksumSHA256?: string
+) {
+  await readManifest(key, uploadId);
+
+  const sha256 = createHash("sha256");
+  const md5 = createHash("md5");
+  let size = 0;
+  let digest = "";
+
+  await writeAtomically(partPath(uploadId, partNumber), async (tempPath) => {
+    await pipeline(
+      body,
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          sha256.update(chunk);
+          md5.update(chunk);
+          size += chunk.length;
+          yield chunk;
+        }
+      },
+      fs.createWriteStream(tempPath)
+    );
+
+    digest = sha256.digest("base64");
+    if (checksumSHA256 && digest !== checksumSHA256) {
+      throw new StorageChecksumError(`Part ${partNumber} doesn't match its SHA-256 checksum`);
+    }
+  });
+
+  const part: UploadedPart = { PartNumber: partNumber, ETag: md5.digest("hex"), Size: size, ChecksumSHA256: digest };
+  await fs.writeJson(`${partPath(uploadId, partNumber)}.json`, part);
+
+  return part.ETag;
+}
+
+async function listLocalParts(key: string, uploadId: string) {
+  await readManifest(key, uploadId);
+
+  const files = await fs.readdir(uploadDir(uploadId));
+  const parts = await Promise.all(
+    files
+      .filter((file) => /^part-\d+\.json$/.test(file))
+      .map((file) => fs.readJson(path.join(uploadDir(uploadId), file)) as Promise<UploadedPart>)
+  );
+
+  return parts.sort((a, b) => a.PartNumber - b.PartNumber);
+}
+
+export function createLocalStorage(): StorageDriver {
+  // Fail at startup rather than on the first signed URL
+  getSecret();
+
+  return {
+    name: "local",
+
+    async putObject(key, body) {
+      await writeAtomically(objectPath(key), async (tempPath) => {
+        if (body instanceof Readable) {
+          await pipeline(body, fs.createWriteStream(tempPath));
+        } else {
+          await fs.writeFile(tempPath, body);
+        }
+      });
+    },
+
+    async getObjectStream(key) {
+      const filePath = objectPath(key);
+
+      if (!(await statFile(filePath))) {
+        throw new StorageNotFoundError(`No object at ${key}`);
+      }
+      return fs.createReadStream(filePath);
+    },
+
+    async getObjectText(key) {
+      const filePath = objectPath(key);
+
+      if (!(await statFile(filePath))) {
+        throw new StorageNotFoundError(`No object at ${key}`);
+      }
+      return fs.readFile(filePath, "utf8");
+    },
+
+    async headObject(key) {
+      const stats = await statFile(objectPath(key));
+      return stats ? { size: stats.size, contentType: contentTypeOf(key) } : null;
+    },
+
+    async deleteObject(key) {
+      await fs.remove(objectPath(key));
+    },
+
+    async deleteObjects(keys) {
+      for (const key of keys) {
+        await fs.remove(objectPath(key));
+      }
+    },
+
+    async listObjects(prefix) {
+      // Only walk the directory the prefix points into
+      const startDir = path.join(objectsDir, prefix.slice(0, prefix.lastIndexOf("/") + 1));
+      const objects: StoredObject[] = [];
+
+      for (const filePath of await walk(startDir)) {
+        const key = path.relative(objectsDir, filePath).split(path.sep).join("/");
+        if (key.startsWith(prefix)) {
+          objects.push({ key, size: (await fs.stat(filePath)).size });
+        }
+      }
+
+      return objects;
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      const sourcePath = objectPath(sourceKey);
+
+      if (!(await statFile(sourcePath))) {
+        throw new StorageNotFoundError(`No object at ${sourceKey}`);
+      }
+      await writeAtomically(objectPath(destinationKey), (tempPath) => fs.copy(sourcePath, tempPath));
+    },
+
+    async getDownloadUrl(key, expiresIn) {
+      const expires = expiresAt(expiresIn);
+      return storageUrl(key, { expires, signature: sign(["GET", key, expires]) });
+    },
+
+    // ffmpeg reads the file straight from disk
+    async getProcessingInput(key) {
+      return objectPath(key);
+    },
+
+    async createMultipartUpload(key, { contentType, metadata }) {
+      objectPath(key);
+
+      const uploadId = randomUUID();
+      const manifest: UploadManifest = { key, contentType, metadata, createdAt: new Date().toISOString() };
+
+      await fs.ensureDir(uploadDir(uploadId));
+      await fs.writeJson(path.join(uploadDir(uploadId), "upload.json"), manifest);
+      return uploadId;
+    },
+
+    async getUploadPartUrl(key, uploadId, partNumber, { checksumSHA256, expiresIn }) {
+      const expires = expiresAt(expiresIn);
+      const signature = sign(["PUT", key, uploadId, partNumber, checksumSHA256 || "", expires]);
+
+      return storageUrl(key, { uploadId, partNumber, checksum: checksumSHA256, expires, signature });
+    },
+
+    listParts: listLocalParts,
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const stored = new Map((await listLocalParts(key, uploadId)).map((part) => [part.PartNumber, part]));
+
+      for (const part of parts) {
+        if (stored.get(part.PartNumber)?.ETag !== part.ETag.replace(/"/g, "")) {
+          throw new Error(`Part ${part.PartNumber} was not uploaded or has a different ETag`);
+        }
+      }
+
+      await writeAtomically(objectPath(key), (tempPath) =>
+        pipeline(async function* () {
+          for (const part of parts) {
+            yield* fs.createReadStream(partPath(uploadId, part.PartNumber));
+          }
+        }, fs.createWriteStream(tempPath))
+      );
+
+      await fs.remove(uploadDir(uploadId));
+
+      const checksums = parts.map((part) => stored.get(part.PartNumber)!.ChecksumSHA256);
+      return checksums.every(Boolean)
+        ? { checksumSHA256: await getCompositeChecksum(checksums as string[]) }
+        : {};
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      try {
+        await readManifest(key, uploadId);
+      } catch (error) {
+        if (error instanceof StorageNotFoundError) return;
+        throw error;
+      }
+      await fs.remove(uploadDir(uploadId));
+    },
+  };
+}
@@ -0,0 +1,242 @@
+// src/lib/storage-s3.ts
+// Storage driver backed by the S3 bucket in AWS_S3_BUCKET_NAME
+import { Readable } from "stream";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  PutObjectCommand,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { s3Client, bucketName } from "@/lib/s3-client";
+import { getCompositeChecksum } from "@/lib/checksums";
+import { StorageDriver, StorageNotFoundError, StoredObject, UploadedPart } from "@/lib/storage-driver";
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && (error.name === "NoSuchKey" || error.name === "NotFound");
+
+async function getObjectBody(key: string) {
+  try {
+    const response = await s3Client.send(new GetObjectCommand({ Bucket: bucketName, Key: key }));
+
+    if (!response.Body) {
+      throw new Error(`Empty response body for ${key}`);
+    }
+    return response.Body;
+  } catch (error) {
+    if (isNotFound(error)) {
+      throw new StorageNotFoundError(`No object at ${key}`);
+    }
+    throw error;
+  }
+}
+
+export function createS3Storage(): StorageDriver {
+  if (!bucketName) {
+    throw new Error("S3 bucket name is undefined. Check environment variables.");
+  }
+
+  const presignGet = (key: string, expiresIn: number) =>
+    getSignedUrl(s3Client, new GetObjectCommand({ Bucket: bucketName, Key: key }), { expiresIn });
+
+  return {
+    name: "s3",
+
+    async putObject(key, body, contentType) {
+      await s3Client.send(new PutObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      }));
+    },
+
+    async getObjectStream(key) {
+      return (await getObjectBody(key)) as Readable;
+    },
+
+    async getObjectText(key) {
+      return (await getObjectBody(key)).transformToString();
+    },
+
+    async headObject(key) {
+      try {
+        const response = await s3Client.send(new HeadObjectCommand({ Bucket: bucketName, Key: key }));
+        return { size: response.ContentLength ?? 0, contentType: response.ContentType };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async deleteObject(key) {
+      await s3Client.send(new DeleteObjectCommand({ Bucket: bucketName, Key: key }));
+    },
+
+    async deleteObjects(keys) {
+      // DeleteObjects takes at most 1000 keys per request
+      for (let i = 0; i < keys.length; i += 1000) {
+        await s3Client.send(new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: {
+            Objects: keys.slice(i, i + 1000).map((key) => ({ Key: key })),
+            Quiet: true,
+          },
+        }));
+      }
+    },
+
+    async listObjects(prefix) {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await s3Client.send(new ListObjectsV2Command({
+          Bucket: bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }));
+
+        for (const object of response.Contents ?? []) {
+          if (object.Key) {
+            objects.push({ key: object.Key, size: object.Size ?? 0 });
+          }
+        }
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    async copyObject(sourceKey, destinationKey) {
+      await s3Client.send(new CopyObjectCommand({
+        Bucket: bucketName,
+        CopySource: `${bucketName}/${sourceKey}`,
+        Key: destinationKey,
+      }));
+    },
+
+    getDownloadUrl: presignGet,
+
+    // ffmpeg reads over HTTP with range requests, so a presigned URL avoids
+    // downloading the whole file
+    getProcessingInput: presignGet,
+
+    async createMultipartUpload(key, { contentType, metadata }) {
+      const response = await s3Client.send(new CreateMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: key,
+        ContentType: contentType,
+        // Every part then carries a SHA-256 that S3 verifies on receipt
+        ChecksumAlgorithm: "SHA256",
+        Metadata: metadata,
+      }));
+
+      if (!response.UploadId) {
+        throw new Error("Failed to initiate multipart upload");
+      }
+      return response.UploadId;
+    },
+
+    async getUploadPartUrl(key, uploadId, partNumber, { checksumSHA256, expiresIn }) {
+      const command = new UploadPartCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+        ChecksumSHA256: checksumSHA256,
+      });
+
+      // Keep the checksum as a signed header, which the browser has to send
+      // and S3 checks against the bytes it receives
+      return getSignedUrl(s3Client, command, {
+        expiresIn,
+        unhoistableHeaders: new Set(["x-amz-checksum-sha256"]),
+      });
+    },
+
+    // S3 returns at most 1000 parts per page
+    async listParts(key, uploadId) {
+      const parts: UploadedPart[] = [];
+      let partNumberMarker: string | undefined;
+
+      do {
+        let response;
+        try {
+          response = await s3Client.send(new ListPartsCommand({
+            Bucket: bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: partNumberMarker,
+          }));
+        } catch (error) {
+          // S3 forgets uploads that were aborted or expired by a lifecycle rule
+          if (error instanceof Error && error.name === "NoSuchUpload") {
+            throw new StorageNotFoundError(`No upload ${uploadId} for ${key}`);
+          }
+          throw error;
+        }
+
+        for (const part of response.Parts ?? []) {
+          if (part.PartNumber && part.ETag) {
+            parts.push({
+              PartNumber: part.PartNumber,
+              ETag: part.ETag.replace(/"/g, ""),
+              Size: part.Size ?? 0,
+              ChecksumSHA256: part.ChecksumSHA256,
+            });
+          }
+        }
+
+        partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+      } while (partNumberMarker);
+
+      return parts;
+    },
+
+    async completeMultipartUpload(key, uploadId, parts) {
+      const response = await s3Client.send(new CompleteMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: { Parts: parts },
+      }));
+
+      // S3 returns the composite checksum when every part carried one
+      if (!parts.every((part) => part.ChecksumSHA256)) {
+        return {};
+      }
+
+      const checksumSHA256 = await getCompositeChecksum(parts.map((part) => part.ChecksumSHA256!));
+
+      if (response.ChecksumSHA256 && response.ChecksumSHA256 !== checksumSHA256) {
+        throw new Error("S3 reported a different checksum for the completed file");
+      }
+      return { checksumSHA256 };
+    },
+
+    async abortMultipartUpload(key, uploadId) {
+      try {
+        await s3Client.send(new AbortMultipartUploadCommand({
+          Bucket: bucketName,
+          Key: key,
+          UploadId: uploadId,
+        }));
+      } catch (error) {
+        if (error instanceof Error && error.name === "NoSuchUpload") {
+          return;
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,176 @@
+// src/lib/storage-usage.ts
+// Storage ledger: what each video keeps in object storage, rolled up per
+// workspace and per owner and checked against the owner's plan
+import connectToDatabase from "@/lib/mongodb";
+import { getStorage } from "@/lib/storage";
+import { RESUMABLE_UPLOAD_MAX_AGE_MS } from "@/lib/multipart-upload";
+import { getWorkspacePlan } from "@/lib/UserMembership";
+import { PLANS } from "@/lib/stripe";
+import { Video } from "@/models/video";
+import Workspace from "@/models/workspace";
+import { StorageRecord, StorageKind } from "@/models/storage-record";
+
+export const STORAGE_KINDS: StorageKind[] = ["source", "hls", "thumbnail"];
+
+export type StorageBreakdown = Record<StorageKind, number>;
+
+export type StorageUsage = {
+  usedBytes: number;
+  byKind: StorageBreakdown;
+};
+
+export type OwnerStorage = StorageUsage & {
+  plan: keyof typeof PLANS;
+  planName: string;
+  quotaBytes: number;
+  /** Declared size of uploads still in progress, held against the quota */
+  reservedBytes: number;
+};
+
+const emptyBreakdown = (): StorageBreakdown => ({ source: 0, hls: 0, thumbnail: 0 });
+
+// Everything a video stores lives under videos/{id}/
+const videoPrefix = (videoId: string) => `videos/${videoId}/`;
+
+/**
+ * Which part of the ledger an object under a video's prefix counts towards
+ */
+function classifyKey(videoId: string, key: string): StorageKind {
+  const path = key.slice(videoPrefix(videoId).length);
+
+  if (path.startsWith("thumbnails/") || path.startsWith("hls/sprites/") || path === "hls/thumbnails.vtt") {
+    return "thumbnail";
+  }
+
+  return path.startsWith("hls/") ? "hls" : "source";
+}
+
+/**
+ * List every object stored for a video
+ */
+function listVideoObjects(videoId: string) {
+  return getStorage().listObjects(videoPrefix(videoId));
+}
+
+/**
+ * Measure what a video currently has in storage and update its ledger records.
+ * Call after anything writes objects for the video.
+ */
+export async function recordVideoStorage(videoId: string): Promise<StorageBreakdown> {
+  await connectToDatabase();
+
+  const video = await Video.findById(videoId);
+
+  if (!video) {
+    // Deleted while its objects were being written
+    await StorageRecord.deleteMany({ videoId });
+    return emptyBreakdown();
+  }
+
+  const objects = await listVideoObjects(videoId);
+  const bytes = emptyBreakdown();
+  const counts = emptyBreakdown();
+
+  for (const object of objects) {
+    const kind = classifyKey(videoId, object.key);
+    bytes[kind] += object.size;
+    counts[kind]++;
+  }
+
+  // UploadThing keeps the source of videos uploaded through it, which still
+  // counts against the plan at the size it was uploaded with
+  if (video.uploadthingKey && video.fileSize) {
+    bytes.source += video.fileSize;
+    counts.source++;
+  }
+
+  const measuredAt = new Date();
+
+  await Promise.all(STORAGE_KINDS.map((kind) =>
+    counts[kind] === 0
+      ? StorageRecord.deleteOne({ videoId, kind })
+      : StorageRecord.updateOne(
+          { videoId, kind },
+          {
+            workspaceId: video.workspaceId,
+            bytes: bytes[kind],
+            objectCount: counts[kind],
+            measuredAt,
+          },
+          { upsert: true }
+        )
+  ));
+
+  return bytes;
+}
+
+/**
+ * Delete every object stored for a video and drop it from the ledger
+ */
+export async function removeVideoStorage(videoId: string) {
+  await connectToDatabase();
+
+  const objects = await listVideoObjects(videoId);
+
+  await getStorage().deleteObjects(objects.map((object) => object.key));
+
+  await StorageRecord.deleteMany({ videoId });
+  console.log(`Removed ${objects.length} stored object(s) for video ${videoId}`);
+}
+
+/**
+ * Total ledger usage across one or more workspaces
+ */
+export async function getWorkspaceStorage(workspaceIds: string[]): Promise<StorageUsage> {
+  await connectToDatabase();
+
+  const totals = await StorageRecord.aggregate<{ _id: StorageKind; bytes: number }>([
+    { $match: { workspaceId: { $in: workspaceIds } } },
+    { $group: { _id: "$kind", bytes: { $sum: "$bytes" } } },
+  ]);
+
+  const byKind = emptyBreakdown();
+  for (const total of totals) {
+    byKind[total._id] = total.bytes;
+  }
+
+  return { usedBytes: STORAGE_KINDS.reduce((sum, kind) => sum + byKind[kind], 0), byKind };
+}
+
+/**
+ * Usage across every workspace a user owns, with the quota from their plan
+ */
+export async function getOwnerStorage(ownerId: string): Promise<OwnerStorage> {
+  await connectToDatabase();
+
+  const workspaces = await Workspace.find({ ownerId }).select("_id");
+  const workspaceIds = workspaces.map((workspace) => workspace._id.toString());
+
+  const [usage, plan, pendingUploads] = await Promise.all([
+    getWorkspaceStorage(workspaceIds),
+    getWorkspacePlan(ownerId),
+    Video.find({
+      workspaceId: { $in: workspaceIds },
+      status: "uploading",
+      createdAt: { $gte: new Date(Date.now() - RESUMABLE_UPLOAD_MAX_AGE_MS) },
+    }).select("fileSize"),
+  ]);
+
+  return {
+    ...usage,
+    plan,
+    planName: PLANS[plan].name,
+    quotaBytes: PLANS[plan].storageBytes,
+    reservedBytes: pendingUploads.reduce((sum, video) => sum + (video.fileSize || 0), 0),
+  };
+}
+
+/**
+ * Whether an owner has room for another upload of the given size
+ */
+export async function checkStorageQuota(ownerId: string, additionalBytes: number) {
+  const storage = await getOwnerStorage(ownerId);
+  const projectedBytes = storage.usedBytes + storage.reservedBytes + additionalBytes;
+
+  return { allowed: projectedBytes <= storage.quotaBytes, storage };
+}
@@ -0,0 +1,33 @@
+// src/lib/storage.ts
+// The storage driver the app was configured with: STORAGE_DRIVER=s3 (the
+// default) or STORAGE_DRIVER=local
+import { createS3Storage } from "@/lib/storage-s3";
+import { createLocalStorage } from "@/lib/storage-local";
+import { StorageDriver, StorageDriverName } from "@/lib/storage-driver";
+
+export { StorageNotFoundError } from "@/lib/storage-driver";
+export type { StorageDriver, StoredObject, UploadedPart } from "@/lib/storage-driver";
+
+const drivers: Record<StorageDriverName, () => StorageDriver> = {
+  s3: createS3Storage,
+  local: createLocalStorage,
+};
+
+let storage: StorageDriver | undefined;
+
+export function getStorageDriverName(): StorageDriverName {
+  const name = process.env.STORAGE_DRIVER || "s3";
+
+  if (!(name in drivers)) {
+    throw new Error(`Unknown STORAGE_DRIVER "${name}", expected one of: ${Object.keys(drivers).join(", ")}`);
+  }
+  return name as StorageDriverName;
+}
+
+/**
+ * The configured storage driver, created on first use
+ */
+export function getStorage(): StorageDriver {
+  storage ??= drivers[getStorageDriverName()]();
+  return storage;
+}
@@ -0,0 +1,125 @@
+// src/lib/stripe-webhook.ts
+// Applies Stripe billing events. Called by the Stripe webhook route and when
+// replaying a stored event.
+import Stripe from 'stripe';
+import connectToDatabase from '@/lib/mongodb';
+import { linkStripeCustomer, syncSubscriptionFromStripe } from '@/lib/subscription-sync';
+import { sendEmail, generateBillingEmail } from '@/lib/email';
+import { formatDate } from '@/lib/utils';
+import User from '@/models/user';
+
+/**
+ * Handle a verified Stripe event. Throws if it couldn't be applied.
+ */
+export async function handleStripeEvent(event: Stripe.Event) {
+  await connectToDatabase();
+
+  // Handle specific Stripe events. Each one re-reads the subscription from
+  // Stripe, so the user's stored state never depends on event order.
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const checkoutSession = event.data.object as Stripe.Checkout.Session;
+      const userId = checkoutSession.metadata?.userId;
+
+      if (checkoutSession.customer && userId) {
+        await linkStripeCustomer(
+          userId,
+          typeof checkoutSession.customer === 'string' ? checkoutSession.customer : checkoutSession.customer.id
+        );
+      }
+
+      if (checkoutSession.subscription) {
+        await syncSubscriptionFromStripe(
+          typeof checkoutSession.subscription === 'string' ? checkoutSession.subscription : checkoutSession.subscription.id,
+          userId
+        );
+      }
+      break;
+    }
+
+    case 'invoice.payment_succeeded':
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      const subscription = invoice.parent?.subscription_details?.subscription;
+
+      if (subscription) {
+        await syncSubscriptionFromStripe(typeof subscription === 'string' ? subscription : subscription.id);
+      }
+
+      if (event.type === 'invoice.payment_failed' && invoice.customer) {
+        await notifyCustomer(invoice.customer, {
+          subject: 'Your VideoCollab payment failed',
+          heading: 'We couldn\'t process your payment',
+          message: invoice.next_payment_attempt
+            ? `We'll try again on ${formatDate(new Date(invoice.next_payment_attempt * 1000))}. ` +
+              'Update your payment method before then to keep your Pro plan.'
+            : 'This was the last attempt, so your workspaces will move to the Free plan. ' +
+              'Nothing is deleted; workspaces over the Free limits become read-only until you upgrade again.',
+          actionLabel: 'Update payment method',
+        });
+      }
+      break;
+    }
+
+    // Plan switches, cancellations scheduled or undone, trials starting or
+    // converting, and pauses all arrive as subscription changes
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.paused':
+    case 'customer.subscription.resumed':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      await syncSubscriptionFromStripe(subscription.id);
+      break;
+    }
+
+    // Sent three days before a trial ends
+    case 'customer.subscription.trial_will_end': {
+      const subscription = event.data.object as Stripe.Subscription;
+      await syncSubscriptionFromStripe(subscription.id);
+
+      if (subscription.trial_end) {
+        await notifyCustomer(subscription.customer, {
+          subject: 'Your VideoCollab trial is ending soon',
+          heading: 'Your Pro trial is ending',
+          message: subscription.cancel_at_period_end
+            ? `Your trial ends on ${formatDate(new Date(subscription.trial_end * 1000))} and you'll move to the Free plan.`
+            : `Your trial ends on ${formatDate(new Date(subscription.trial_end * 1000))}, when your Pro subscription starts. ` +
+              'Check your payment method so there\'s no interruption.',
+          actionLabel: 'Manage billing',
+        });
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Email the user behind a Stripe customer about their billing
+ */
+async function notifyCustomer(
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer,
+  { subject, heading, message, actionLabel }: { subject: string; heading: string; message: string; actionLabel: string }
+) {
+  const customerId = typeof customer === 'string' ? customer : customer.id;
+  // Customers the subscription backfill hasn't reached only have the legacy top-level ID
+  const user = await User.findOne({
+    $or: [{ 'subscription.stripeCustomerId': customerId }, { stripeCustomerId: customerId }],
+  }).select('email');
+
+  if (!user) {
+    console.warn(`No user found for Stripe customer ${customerId}`);
+    return;
+  }
+
+  await sendEmail({
+    to: user.email,
+    subject,
+    html: generateBillingEmail({
+      heading,
+      message,
+      actionLabel,
+      actionLink: `${process.env.NEXT_PUBLIC_APP_URL}/settings/billing`,
+    }),
+  });
+}
@@ -1,4 +1,5 @@
 import Stripe from 'stripe';
+import type { RenditionName } from '@/lib/encoding-ladder';
 
 // if (!process.env.STRIPE_SECRET_KEY) {
 //   throw new Error('STRIPE_SECRET_KEY is not defined');
@@ -9,6 +10,14 @@ export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_51QZf
   typescript: true,
 });
 
+export type PlanLimits = {
+  workspaces: number | null;
+  /** Videos listed in a workspace; new versions of a video don't count */
+  videosPerWorkspace: number | null;
+  /** Including the owner */
+  membersPerWorkspace: number | null;
+};
+
 // Define subscription plans
 export const PLANS = {
   FREE: {
@@ -23,6 +32,16 @@ export const PLANS = {
       'Up to 3 workspace members',
     ],
     stripePriceId: '', // No price ID for free plan
+    // HLS renditions encoded for videos in workspaces on this plan
+    renditions: ['240p', '360p', '480p', '720p'] as RenditionName[],
+    // Total across the owner's workspaces: sources, renditions and thumbnails
+    storageBytes: 2 * 1024 ** 3,
+    // Enforced by lib/entitlements.ts; null means unlimited
+    limits: {
+      workspaces: null,
+      videosPerWorkspace: 5,
+      membersPerWorkspace: 3,
+    } as PlanLimits,
   },
   PRO: {
     name: 'Pro',
@@ -38,5 +57,12 @@ export const PLANS = {
       'Unlimited workspace members',
     ],
     stripePriceId: process.env.STRIPE_PRO_PRICE_ID || '',
+    renditions: ['240p', '360p', '480p', '720p', '1080p'] as RenditionName[],
+    storageBytes: 50 * 1024 ** 3,
+    limits: {
+      workspaces: null,
+      videosPerWorkspace: null,
+      membersPerWorkspace: null,
+    } as PlanLimits,
   },
 };
\ No newline at end of file
@@ -0,0 +1,215 @@
+// src/lib/subscription-sync.ts
+// Copies subscription state from Stripe onto User.subscription. Stripe is the
+// source of truth: webhooks sync a subscription as it changes, and the
+// reconcile job repairs anything a missed or failed webhook left behind.
+import Stripe from "stripe";
+import connectToDatabase from "@/lib/mongodb";
+import { stripe, PLANS } from "@/lib/stripe";
+import { JobHandler } from "@/lib/job-queue";
+import User, { IUser, ISubscription, SubscriptionPlan, SubscriptionStatus } from "@/models/user";
+
+export const SUBSCRIPTION_RECONCILE_JOB = "subscriptions.reconcile";
+
+export type ReconcileResult = {
+  checked: number;
+  changed: number;
+  failed: number;
+};
+
+// When a customer has several subscriptions, the first status here wins
+const STATUS_PRIORITY: SubscriptionStatus[] = [
+  "active",
+  "trialing",
+  "past_due",
+  "unpaid",
+  "paused",
+  "incomplete",
+  "canceled",
+  "incomplete_expired",
+  "none",
+];
+
+// Statuses after which the subscription will never bill again
+const ENDED_STATUSES: SubscriptionStatus[] = ["canceled", "incomplete_expired"];
+
+const customerIdOf = (customer: string | Stripe.Customer | Stripe.DeletedCustomer) =>
+  typeof customer === "string" ? customer : customer.id;
+
+function planOf(subscription: Stripe.Subscription): SubscriptionPlan {
+  if (ENDED_STATUSES.includes(subscription.status)) return "free";
+
+  // Pro is the only paid plan; without a configured price any subscription is Pro
+  const proPriceId = PLANS.PRO.stripePriceId;
+  return !proPriceId || subscription.items.data.some((item) => item.price.id === proPriceId)
+    ? "pro"
+    : "free";
+}
+
+function toSubscription(subscription: Stripe.Subscription): ISubscription {
+  // Billing periods are tracked per item since the 2025-03-31 API version
+  const periodEnds = subscription.items.data.map((item) => item.current_period_end);
+
+  return {
+    plan: planOf(subscription),
+    status: subscription.status,
+    currentPeriodEnd: periodEnds.length ? new Date(Math.max(...periodEnds) * 1000) : undefined,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    stripeCustomerId: customerIdOf(subscription.customer),
+    stripeSubscriptionId: subscription.id,
+    syncedAt: new Date(),
+  };
+}
+
+const isSameSubscription = (a: ISubscription | undefined, b: ISubscription) =>
+  !!a &&
+  a.plan === b.plan &&
+  a.status === b.status &&
+  a.cancelAtPeriodEnd === b.cancelAtPeriodEnd &&
+  a.stripeCustomerId === b.stripeCustomerId &&
+  a.stripeSubscriptionId === b.stripeSubscriptionId &&
+  a.currentPeriodEnd?.getTime() === b.currentPeriodEnd?.getTime();
+
+/**
+ * The customer ID a user was billed under. Users synced before the
+ * subscription subdocument existed only have it at the top level.
+ */
+function getStripeCustomerId(user: IUser): string | undefined {
+  return user.subscription?.stripeCustomerId || user.get("stripeCustomerId") || undefined;
+}
+
+/**
+ * Save a user's subscription, reporting whether anything changed
+ */
+async function saveSubscription(user: IUser, subscription: ISubscription) {
+  const changed = !isSameSubscription(user.subscription, subscription);
+  user.subscription = subscription;
+  await user.save();
+  return changed;
+}
+
+/**
+ * Remember which Stripe customer a user checked out as, before any
+ * subscription event for that customer arrives
+ */
+export async function linkStripeCustomer(userId: string, customerId: string) {
+  await connectToDatabase();
+
+  await User.updateOne({ clerkId: userId }, { $set: { "subscription.stripeCustomerId": customerId } });
+}
+
+/**
+ * Fetch a subscription from Stripe and store its current state on the user
+ * it belongs to. Fetching rather than trusting the event payload means
+ * out-of-order webhooks can't roll the state back.
+ */
+export async function syncSubscriptionFromStripe(
+  subscriptionId: string,
+  userId?: string
+): Promise<ISubscription | null> {
+  await connectToDatabase();
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const next = toSubscription(subscription);
+  const clerkId = userId || subscription.metadata?.userId;
+
+  // Customers who haven't been synced yet only have the legacy top-level ID
+  const user = clerkId
+    ? await User.findOne({ clerkId })
+    : await User.findOne({
+        $or: [{ "subscription.stripeCustomerId": next.stripeCustomerId }, { stripeCustomerId: next.stripeCustomerId }],
+      });
+
+  if (!user) {
+    console.warn(`No user found for Stripe subscription ${subscriptionId}`);
+    return null;
+  }
+
+  // A customer can keep an old canceled subscription next to a live one;
+  // events for the old one mustn't replace the live one
+  const current = user.subscription;
+  if (
+    current?.stripeSubscriptionId &&
+    current.stripeSubscriptionId !== subscription.id &&
+    STATUS_PRIORITY.indexOf(current.status) < STATUS_PRIORITY.indexOf(next.status)
+  ) {
+    return current;
+  }
+
+  await saveSubscription(user, next);
+  return next;
+}
+
+/**
+ * Re-read everything Stripe has for a user's customer and store the most
+ * relevant subscription. Returns whether the stored state changed.
+ */
+export async function reconcileSubscription(user: IUser): Promise<boolean> {
+  const customerId = getStripeCustomerId(user);
+
+  if (!customerId) return false;
+
+  const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: "all", limit: 100 });
+  const [best] = subscriptions.data.sort((a, b) =>
+    STATUS_PRIORITY.indexOf(a.status) - STATUS_PRIORITY.indexOf(b.status) || b.created - a.created
+  );
+
+  return saveSubscription(
+    user,
+    best
+      ? toSubscription(best)
+      : { plan: "free", status: "none", cancelAtPeriodEnd: false, stripeCustomerId: customerId, syncedAt: new Date() }
+  );
+}
+
+/**
+ * Reconcile each user matching a query, one at a time
+ */
+async function reconcileUsers(query: Record<string, unknown>): Promise<ReconcileResult> {
+  await connectToDatabase();
+
+  const result: ReconcileResult = { checked: 0, changed: 0, failed: 0 };
+  const users = User.find(query).cursor();
+
+  // One user at a time keeps well inside Stripe's rate limits
+  for await (const user of users) {
+    result.checked++;
+    try {
+      if (await reconcileSubscription(user)) {
+        result.changed++;
+        console.log(`Reconciled subscription for user ${user.clerkId}: ${user.subscription.plan} (${user.subscription.status})`);
+      }
+    } catch (error) {
+      result.failed++;
+      console.error(`Error reconciling subscription for user ${user.clerkId}:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reconcile every user who has ever been a Stripe customer
+ */
+export async function reconcileAllSubscriptions(): Promise<ReconcileResult> {
+  return reconcileUsers({
+    $or: [{ "subscription.stripeCustomerId": { $exists: true } }, { stripeCustomerId: { $exists: true } }],
+  });
+}
+
+/**
+ * Sync the customers billed before User.subscription existed, who only have
+ * the legacy top-level stripeCustomerId and read as Free until they are
+ */
+export async function backfillLegacySubscriptions(): Promise<ReconcileResult> {
+  return reconcileUsers({
+    stripeCustomerId: { $exists: true },
+    "subscription.syncedAt": { $exists: false },
+  });
+}
+
+export const subscriptionReconcileJobHandler: JobHandler = {
+  async run() {
+    const { checked, changed, failed } = await reconcileAllSubscriptions();
+    console.log(`Subscription reconcile: checked ${checked}, corrected ${changed}, failed ${failed}`);
+  },
+};
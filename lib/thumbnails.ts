@@ -0,0 +1,235 @@
+// src/lib/thumbnails.ts
+import ffmpeg from "fluent-ffmpeg";
+import fs from "fs-extra";
+
+const CANDIDATE_COUNT = 6;
+const THUMBNAIL_MAX_WIDTH = 1280;
+
+// Frames are downscaled to a small grayscale sample before scoring
+const SAMPLE_WIDTH = 160;
+const SAMPLE_HEIGHT = 90;
+
+// Mean luma outside this range is treated as a black (or blown-out white) frame
+const MIN_BRIGHTNESS = 24;
+const MAX_BRIGHTNESS = 232;
+// Luma standard deviation below this is a flat frame (fades, solid title cards)
+const MIN_CONTRAST = 12;
+
+export type FrameScore = {
+  brightness: number; // Mean luma, 0-255
+  contrast: number; // Standard deviation of luma
+  sharpness: number; // Variance of the Laplacian; low values mean blur
+};
+
+/**
+ * Evenly spaced timestamps that skip the very start and end of the video,
+ * which are usually black or mid-fade
+ */
+export function getCandidateTimestamps(duration: number, count = CANDIDATE_COUNT): number[] {
+  return Array.from({ length: count }, (_, index) =>
+    Math.round((duration * (index + 1)) / (count + 1) * 10) / 10
+  );
+}
+
+/**
+ * Writes a single JPEG frame at the given timestamp. The input may be a local
+ * path or a (presigned) URL; ffmpeg seeks without reading the whole file.
+ */
+export function extractFrame(input: string, timestamp: number, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(input)
+      .seekInput(timestamp)
+      .outputOptions([
+        "-frames:v 1",
+        `-vf scale='min(${THUMBNAIL_MAX_WIDTH},iw)':-2`,
+        "-q:v 3",
+      ])
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+/**
+ * Brightness, contrast and sharpness of a grayscale image
+ */
+export function scoreFrame(pixels: Buffer, width: number, height: number): FrameScore {
+  const pixelCount = width * height;
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  for (let i = 0; i < pixelCount; i++) {
+    sum += pixels[i];
+    sumOfSquares += pixels[i] * pixels[i];
+  }
+
+  const brightness = sum / pixelCount;
+  const contrast = Math.sqrt(Math.max(0, sumOfSquares / pixelCount - brightness * brightness));
+
+  // 4-neighbour Laplacian over the interior pixels
+  let laplacianSum = 0;
+  let laplacianSumOfSquares = 0;
+  let samples = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        pixels[i - width] + pixels[i + width] + pixels[i - 1] + pixels[i + 1] - 4 * pixels[i];
+      laplacianSum += laplacian;
+      laplacianSumOfSquares += laplacian * laplacian;
+      samples++;
+    }
+  }
+
+  const laplacianMean = samples ? laplacianSum / samples : 0;
+  const sharpness = samples ? laplacianSumOfSquares / samples - laplacianMean * laplacianMean : 0;
+
+  return { brightness, contrast, sharpness };
+}
+
+/**
+ * Scores an extracted frame by downscaling it to a small grayscale sample
+ */
+export async function measureFrame(imagePath: string): Promise<FrameScore> {
+  const samplePath = `${imagePath}.gray`;
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(imagePath)
+      .outputOptions([
+        `-vf scale=${SAMPLE_WIDTH}:${SAMPLE_HEIGHT}`,
+        "-pix_fmt gray",
+        "-f rawvideo",
+      ])
+      .output(samplePath)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+
+  try {
+    const pixels = await fs.readFile(samplePath);
+    return scoreFrame(pixels, SAMPLE_WIDTH, SAMPLE_HEIGHT);
+  } finally {
+    await fs.remove(samplePath);
+  }
+}
+
+/**
+ * Index of the best default poster: the sharpest frame that is neither black,
+ * blown out nor flat. Falls back to the most detailed frame if none qualify.
+ */
+export function pickDefaultCandidate(scores: FrameScore[]): number {
+  const isUsable = (score: FrameScore) =>
+    score.brightness >= MIN_BRIGHTNESS &&
+    score.brightness <= MAX_BRIGHTNESS &&
+    score.contrast >= MIN_CONTRAST;
+
+  const usable = scores.map((score, index) => ({ score, index })).filter(({ score }) => isUsable(score));
+  const pool = usable.length > 0 ? usable : scores.map((score, index) => ({ score, index }));
+  const rank = (score: FrameScore) => (usable.length > 0 ? score.sharpness : score.contrast);
+
+  return pool.reduce((best, current) => (rank(current.score) > rank(best.score) ? current : best)).index;
+}
+
+// Scrubbing previews: tiles fit inside this box and are packed into sheets
+const SPRITE_TILE_BOX = 160;
+const SPRITE_COLUMNS = 10;
+const SPRITE_ROWS = 10;
+const MAX_SPRITE_TILES = 300;
+
+export type SpriteLayout = {
+  interval: number; // Seconds between tiles
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  rows: number;
+};
+
+/**
+ * Tile size follows the display aspect ratio; the interval grows with the
+ * duration so long videos don't produce hundreds of sheets
+ */
+export function getSpriteLayout(duration: number, display: { width: number; height: number }): SpriteLayout {
+  const scale = SPRITE_TILE_BOX / Math.max(display.width, display.height);
+  const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+  return {
+    interval: Math.max(1, Math.ceil(duration / MAX_SPRITE_TILES)),
+    tileWidth: toEven(display.width * scale),
+    tileHeight: toEven(display.height * scale),
+    columns: SPRITE_COLUMNS,
+    rows: SPRITE_ROWS,
+  };
+}
+
+/**
+ * Renders tiled sprite sheets (`sprite-001.jpg`, ...) into outputDir and
+ * returns their file names in order
+ */
+export async function generateSpriteSheets(
+  videoPath: string,
+  outputDir: string,
+  layout: SpriteLayout
+): Promise<string[]> {
+  await fs.ensureDir(outputDir);
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoPath)
+      .outputOptions([
+        `-vf fps=1/${layout.interval},scale=${layout.tileWidth}:${layout.tileHeight},tile=${layout.columns}x${layout.rows}`,
+        "-an",
+        "-q:v 5",
+      ])
+      .output(`${outputDir}/sprite-%03d.jpg`)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+
+  return (await fs.readdir(outputDir)).filter((file) => /^sprite-\d+\.jpg$/.test(file)).sort();
+}
+
+/**
+ * Formats seconds as a WebVTT timestamp (HH:MM:SS.mmm)
+ */
+function formatVttTime(seconds: number): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(milliseconds / 3600000);
+  const minutes = Math.floor((milliseconds % 3600000) / 60000);
+  const secs = Math.floor((milliseconds % 60000) / 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(milliseconds % 1000, 3)}`;
+}
+
+/**
+ * WebVTT thumbnails track with one cue per tile, pointing into the sprite
+ * sheets with `#xywh=` media fragments
+ */
+export function buildThumbnailsVtt(
+  duration: number,
+  layout: SpriteLayout,
+  sheetPaths: string[]
+): string {
+  const tilesPerSheet = layout.columns * layout.rows;
+  const tileCount = Math.min(Math.ceil(duration / layout.interval), sheetPaths.length * tilesPerSheet);
+  const cues = ["WEBVTT", ""];
+
+  for (let tile = 0; tile < tileCount; tile++) {
+    const start = tile * layout.interval;
+    const end = Math.min(duration, start + layout.interval);
+    const position = tile % tilesPerSheet;
+    const x = (position % layout.columns) * layout.tileWidth;
+    const y = Math.floor(position / layout.columns) * layout.tileHeight;
+
+    cues.push(
+      `${formatVttTime(start)} --> ${formatVttTime(end)}`,
+      `${sheetPaths[Math.floor(tile / tilesPerSheet)]}#xywh=${x},${y},${layout.tileWidth},${layout.tileHeight}`,
+      ""
+    );
+  }
+
+  return cues.join("\n");
+}
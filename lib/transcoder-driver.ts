@@ -0,0 +1,49 @@
+// src/lib/transcoder-driver.ts
+// What the transcode job needs from a transcoding backend. lib/transcoder.ts
+// picks the implementation: ffmpeg in the worker (lib/transcoder-ffmpeg.ts),
+// Mux (lib/transcoder-mux.ts) or a worker on another machine reached over
+// HTTP (lib/transcoder-remote.ts).
+import type { RenditionName } from "@/lib/encoding-ladder";
+import type { TranscoderName } from "@/models/video";
+
+export type { TranscoderName };
+
+export const TRANSCODER_NAMES: TranscoderName[] = ["ffmpeg", "mux", "remote"];
+
+export const TRANSCODER_LABELS: Record<TranscoderName, string> = {
+  ffmpeg: "Built-in (ffmpeg)",
+  mux: "Mux",
+  remote: "Remote worker",
+};
+
+/** A source file in storage, or one hosted elsewhere (e.g. by UploadThing) */
+export type TranscodeSource = { key: string } | { url: string };
+
+export type TranscodeRequest = {
+  videoId: string;
+  source: TranscodeSource;
+  /** The video's transcodeAttemptId for this attempt */
+  attemptId: string;
+  /** Ladder rungs the workspace plan may produce */
+  allowedRenditions: RenditionName[];
+};
+
+export type TranscodeResult = {
+  hlsKey: string;
+  renditions: string[];
+  previewThumbnailsKey?: string;
+};
+
+/**
+ * "ready" when the output was produced before transcode() returned.
+ * "submitted" when the backend works on its own and reports back later, via
+ * a webhook or callback, through lib/video-state.ts.
+ */
+export type TranscodeOutcome =
+  | { status: "ready"; result: TranscodeResult }
+  | { status: "submitted" };
+
+export interface Transcoder {
+  name: TranscoderName;
+  transcode(request: TranscodeRequest): Promise<TranscodeOutcome>;
+}
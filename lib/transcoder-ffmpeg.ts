@@ -0,0 +1,89 @@
+// src/lib/transcoder-ffmpeg.ts
+// Transcodes in the worker process with ffmpeg, writing the HLS output to storage
+import { generateHLSContent, HLSProgress } from "@/lib/video-processor";
+import { updateProcessingProgress } from "@/lib/video-state";
+import { Transcoder } from "@/lib/transcoder-driver";
+import { PermanentJobError } from "@/lib/job-queue";
+import { Video } from "@/models/video";
+
+const PROGRESS_WRITE_INTERVAL_MS = 2000; // Throttle progress writes to the Video document
+
+/**
+ * Build an onProgress callback that persists per-rendition progress and an
+ * overall ETA on the Video, at most once every PROGRESS_WRITE_INTERVAL_MS
+ */
+function createProgressReporter(videoId: string) {
+  const startedAt = new Date();
+  const renditions = new Map<string, number>();
+  let lastWriteAt = 0;
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+
+  const report = (progress: HLSProgress) => {
+    renditions.set(progress.rendition, progress.percent);
+
+    const overallPercent =
+      ((progress.renditionIndex + progress.percent / 100) / progress.renditionCount) * 100;
+
+    const now = Date.now();
+    const isRenditionBoundary = progress.percent === 0 || progress.percent === 100;
+
+    if (!isRenditionBoundary && now - lastWriteAt < PROGRESS_WRITE_INTERVAL_MS) {
+      return;
+    }
+    lastWriteAt = now;
+
+    const elapsedSeconds = (now - startedAt.getTime()) / 1000;
+    const etaSeconds = overallPercent > 0
+      ? Math.round(elapsedSeconds * (100 - overallPercent) / overallPercent)
+      : undefined;
+
+    // Chain writes so a slow update can't overwrite a newer one
+    pendingWrite = pendingWrite
+      .then(() => updateProcessingProgress(videoId, {
+        percent: Math.round(overallPercent * 10) / 10,
+        currentRendition: progress.rendition,
+        renditions: Array.from(renditions, ([name, percent]) => ({
+          name,
+          percent: Math.round(percent * 10) / 10,
+        })),
+        etaSeconds,
+        startedAt,
+        updatedAt: new Date(),
+      }))
+      .catch((error) => console.error(`Failed to save progress for video ${videoId}:`, error));
+  };
+
+  return { report, flush: () => pendingWrite };
+}
+
+export const ffmpegTranscoder: Transcoder = {
+  name: "ffmpeg",
+
+  async transcode({ videoId, source, allowedRenditions }) {
+    if (!("key" in source)) {
+      throw new PermanentJobError("The ffmpeg transcoder only reads source files from storage");
+    }
+
+    const progress = createProgressReporter(videoId);
+    try {
+      const result = await generateHLSContent(videoId, source.key, {
+        allowedRenditions,
+        onProgress: progress.report,
+        onProbe: async ({ duration, mediaInfo }) => {
+          await Video.findByIdAndUpdate(videoId, { duration, mediaInfo });
+        },
+        onThumbnails: async ({ candidates, defaultKey }) => {
+          await Video.findByIdAndUpdate(videoId, {
+            thumbnailCandidates: candidates,
+            thumbnailKey: defaultKey,
+            $unset: { thumbnailTimestamp: "" },
+          });
+        },
+      });
+
+      return { status: "ready", result };
+    } finally {
+      await progress.flush();
+    }
+  },
+};
@@ -0,0 +1,61 @@
+// src/lib/transcoder-mux.ts
+// Hands the source to Mux, which fetches it and transcodes on its own. The
+// Mux webhook (lib/mux-webhook.ts) reports the result.
+import { mux } from "@/lib/mux";
+import { getStorage } from "@/lib/storage";
+import { Transcoder } from "@/lib/transcoder-driver";
+import type { RenditionName } from "@/lib/encoding-ladder";
+import { Video } from "@/models/video";
+
+// Mux fetches the input soon after the asset is created, but give it a day
+const INPUT_URL_TTL_SECONDS = 24 * 60 * 60;
+
+type MuxResolutionTier = "1080p" | "1440p" | "2160p";
+
+// Highest first; Mux can't encode below a 1080p tier
+const MUX_RESOLUTION_TIERS: MuxResolutionTier[] = ["2160p", "1440p", "1080p"];
+
+/**
+ * The highest Mux resolution tier the plan's ladder allows. Plans capped
+ * below 1080p get 1080p; the playback token's max_resolution caps them there.
+ */
+const getMaxResolutionTier = (allowedRenditions: RenditionName[]) =>
+  MUX_RESOLUTION_TIERS.find((tier) => allowedRenditions.includes(tier)) ?? "1080p";
+
+export const muxTranscoder: Transcoder = {
+  name: "mux",
+
+  async transcode({ videoId, source, allowedRenditions }) {
+    // A retried job mustn't create a second asset for the same video
+    const video = await Video.findById(videoId).select("muxAssetId");
+    if (video?.muxAssetId) {
+      return { status: "submitted" };
+    }
+
+    const inputUrl = "url" in source
+      ? source.url
+      : await getStorage().getDownloadUrl(source.key, INPUT_URL_TTL_SECONDS);
+
+    const asset = await mux.video.assets.create({
+      inputs: [{ url: inputUrl }],
+      max_resolution_tier: getMaxResolutionTier(allowedRenditions),
+      // Playback needs a token, which carries the viewer's resolution cap
+      playback_policy: ["signed"],
+      // Lets the webhook find the video even before the asset ID is saved
+      passthrough: videoId,
+    });
+
+    const playbackId = asset.playback_ids?.[0];
+    await Video.updateOne(
+      { _id: videoId },
+      {
+        muxAssetId: asset.id,
+        muxPlaybackId: playbackId?.id,
+        muxPlaybackPolicy: playbackId?.policy === "signed" ? "signed" : "public",
+      }
+    );
+
+    console.log(`Video ${videoId} submitted to Mux as asset ${asset.id}`);
+    return { status: "submitted" };
+  },
+};
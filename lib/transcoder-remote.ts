@@ -0,0 +1,180 @@
+// src/lib/transcoder-remote.ts
+// Offloads transcoding to a worker on another machine over HTTP. The app
+// POSTs a job to REMOTE_TRANSCODER_URL/jobs; the worker fetches the source,
+// PUTs each output file to the job's outputUrl and reports progress and the
+// result to its callbackUrl. Both take the job's token as a bearer token.
+import path from "path";
+import { createHmac, timingSafeEqual } from "crypto";
+import { isValidObjectId } from "mongoose";
+import connectToDatabase from "@/lib/mongodb";
+import { getStorage } from "@/lib/storage";
+import { PermanentJobError } from "@/lib/job-queue";
+import { recordVideoStorage } from "@/lib/storage-usage";
+import { markVideoFailed, markVideoReady, updateProcessingProgress } from "@/lib/video-state";
+import { Transcoder } from "@/lib/transcoder-driver";
+import { Video, IMediaInfo, IRenditionProgress, IVideo } from "@/models/video";
+
+// The worker may sit in a queue before it fetches the source
+const SOURCE_URL_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * What the remote worker sends to its callbackUrl
+ */
+export type RemoteTranscoderReport =
+  | {
+      status: "processing";
+      progress: {
+        percent: number;
+        currentRendition?: string;
+        renditions?: IRenditionProgress[];
+        etaSeconds?: number;
+      };
+    }
+  | {
+      status: "ready";
+      renditions: string[];
+      duration?: number;
+      mediaInfo?: IMediaInfo;
+      /** Path of the WebVTT thumbnails track under the output, if one was made */
+      previewThumbnails?: string;
+    }
+  | { status: "error"; error: string };
+
+function getConfig() {
+  const url = process.env.REMOTE_TRANSCODER_URL;
+  const secret = process.env.REMOTE_TRANSCODER_SECRET;
+
+  if (!url || !secret) {
+    throw new PermanentJobError("REMOTE_TRANSCODER_URL and REMOTE_TRANSCODER_SECRET must be set to use the remote transcoder");
+  }
+  return { url: url.replace(/\/$/, ""), secret };
+}
+
+// Tokens are tied to one attempt, so a retried job invalidates the last one's
+const jobToken = (secret: string, videoId: string, attemptId: string) =>
+  createHmac("sha256", secret).update(`${videoId}:${attemptId}`).digest("base64url");
+
+const hlsKeyOf = (videoId: string) => `videos/${videoId}/hls`;
+
+/**
+ * Find the video a worker request is for, if its bearer token belongs to the
+ * video's current attempt
+ */
+export async function authorizeRemoteTranscoderRequest(videoId: string, authorization: string | null) {
+  const secret = process.env.REMOTE_TRANSCODER_SECRET;
+  const token = authorization?.match(/^Bearer (.+)$/)?.[1];
+
+  if (!secret || !token || !isValidObjectId(videoId)) return null;
+
+  await connectToDatabase();
+
+  const video = await Video.findOne({ _id: videoId, status: "processing", transcoder: "remote" });
+  if (!video?.transcodeAttemptId) return null;
+
+  const expected = Buffer.from(jobToken(secret, videoId, video.transcodeAttemptId));
+  const received = Buffer.from(token);
+
+  return expected.length === received.length && timingSafeEqual(expected, received) ? video : null;
+}
+
+/**
+ * Storage key for an output file, or null if the path would leave the
+ * video's HLS directory
+ */
+export function remoteOutputKey(videoId: string, outputPath: string) {
+  const relativePath = path.posix.normalize(outputPath);
+
+  if (!relativePath || relativePath.startsWith("..") || path.posix.isAbsolute(relativePath)) {
+    return null;
+  }
+  return `${hlsKeyOf(videoId)}/${relativePath}`;
+}
+
+/**
+ * Apply a report from the worker to the video's processing state
+ */
+export async function applyRemoteTranscoderReport(video: IVideo, report: RemoteTranscoderReport) {
+  const videoId = video._id.toString();
+  const attemptId = video.transcodeAttemptId;
+
+  if (report.status === "processing") {
+    await updateProcessingProgress(videoId, {
+      percent: report.progress.percent,
+      currentRendition: report.progress.currentRendition,
+      renditions: report.progress.renditions ?? [],
+      etaSeconds: report.progress.etaSeconds,
+      startedAt: video.processingProgress?.startedAt ?? new Date(),
+      updatedAt: new Date(),
+    });
+    return;
+  }
+
+  if (report.status === "error") {
+    await markVideoFailed(videoId, `Video processing failed: ${report.error || "Unknown error"}`, attemptId);
+  } else if (!(await getStorage().headObject(`${hlsKeyOf(videoId)}/master.m3u8`))) {
+    await markVideoFailed(videoId, "Video processing failed: the transcoder didn't upload a master playlist", attemptId);
+  } else {
+    const previewThumbnailsKey = report.previewThumbnails
+      ? remoteOutputKey(videoId, report.previewThumbnails) ?? undefined
+      : undefined;
+
+    await markVideoReady(videoId, {
+      hlsKey: hlsKeyOf(videoId),
+      renditions: report.renditions,
+      resolution: report.renditions[report.renditions.length - 1],
+      previewThumbnailsKey,
+      duration: report.duration,
+      mediaInfo: report.mediaInfo,
+    }, attemptId);
+    console.log(`Video ${videoId} is ready from the remote transcoder (${report.renditions.join(", ")})`);
+  }
+
+  // The worker's uploads count towards the ledger either way
+  try {
+    await recordVideoStorage(videoId);
+  } catch (error) {
+    console.error(`Failed to record storage for video ${videoId}:`, error);
+  }
+}
+
+export const remoteTranscoder: Transcoder = {
+  name: "remote",
+
+  async transcode({ videoId, source, attemptId, allowedRenditions }) {
+    const { url, secret } = getConfig();
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL;
+
+    const sourceUrl = "url" in source
+      ? source.url
+      : await getStorage().getDownloadUrl(source.key, SOURCE_URL_TTL_SECONDS);
+
+    const response = await fetch(`${url}/jobs`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${secret}`,
+      },
+      body: JSON.stringify({
+        videoId,
+        attemptId,
+        sourceUrl,
+        renditions: allowedRenditions,
+        outputUrl: `${appUrl}/api/transcoder/${videoId}/output`,
+        callbackUrl: `${appUrl}/api/transcoder/${videoId}/callback`,
+        token: jobToken(secret, videoId, attemptId),
+      }),
+    });
+
+    if (!response.ok) {
+      const message = `Remote transcoder refused the job (${response.status}): ${await response.text()}`;
+      // Server errors and rate limits may pass; anything else won't on retry
+      if (response.status >= 500 || response.status === 429) {
+        throw new Error(message);
+      }
+      throw new PermanentJobError(message);
+    }
+
+    console.log(`Video ${videoId} submitted to the remote transcoder (attempt ${attemptId})`);
+    return { status: "submitted" };
+  },
+};
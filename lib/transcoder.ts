@@ -0,0 +1,104 @@
+// src/lib/transcoder.ts
+// Picks the transcoder for a video: the workspace's choice, otherwise the
+// TRANSCODER env var (default ffmpeg)
+import { isPlatformAdmin } from "@/lib/admin";
+import { getWorkspacePlan } from "@/lib/UserMembership";
+import { ffmpegTranscoder } from "@/lib/transcoder-ffmpeg";
+import { muxTranscoder } from "@/lib/transcoder-mux";
+import { remoteTranscoder } from "@/lib/transcoder-remote";
+import { Transcoder, TranscoderName, TRANSCODER_NAMES } from "@/lib/transcoder-driver";
+import type { PLANS } from "@/lib/stripe";
+import type { IWorkspace } from "@/models/workspace";
+
+export type { Transcoder, TranscodeOutcome, TranscoderName, TranscodeSource } from "@/lib/transcoder-driver";
+
+const transcoders: Record<TranscoderName, Transcoder> = {
+  ffmpeg: ffmpegTranscoder,
+  mux: muxTranscoder,
+  remote: remoteTranscoder,
+};
+
+// Backends the platform pays for per minute, which only paid plans may pick
+const PAID_TRANSCODERS: TranscoderName[] = ["mux"];
+
+export const isTranscoderName = (name: unknown): name is TranscoderName =>
+  TRANSCODER_NAMES.includes(name as TranscoderName);
+
+/**
+ * Whether the server has what a transcoder needs to run
+ */
+export function isTranscoderConfigured(name: TranscoderName): boolean {
+  const env = process.env;
+
+  switch (name) {
+    case "ffmpeg":
+      return true;
+    case "mux":
+      return Boolean(env.MUX_TOKEN_ID && env.MUX_TOKEN_SECRET && env.MUX_WEBHOOK_SECRET
+        && env.MUX_SIGNING_KEY && env.MUX_PRIVATE_KEY);
+    case "remote":
+      return Boolean(env.REMOTE_TRANSCODER_URL && env.REMOTE_TRANSCODER_SECRET);
+  }
+}
+
+/**
+ * Whether a workspace may use a transcoder: paid ones need a paid plan,
+ * unless the workspace belongs to a platform admin
+ */
+export function isTranscoderAllowed(
+  name: TranscoderName,
+  workspace: Pick<IWorkspace, "ownerId">,
+  plan: keyof typeof PLANS
+): boolean {
+  return !PAID_TRANSCODERS.includes(name) || plan !== "FREE" || isPlatformAdmin(workspace.ownerId);
+}
+
+/**
+ * The transcoders a workspace may choose: those configured on this server
+ * that its plan allows
+ */
+export async function getAvailableTranscoders(workspace: Pick<IWorkspace, "ownerId">): Promise<TranscoderName[]> {
+  const plan = await getWorkspacePlan(workspace.ownerId);
+
+  return TRANSCODER_NAMES.filter((name) =>
+    isTranscoderConfigured(name) && isTranscoderAllowed(name, workspace, plan)
+  );
+}
+
+export function getDefaultTranscoderName(): TranscoderName {
+  const name = process.env.TRANSCODER || "ffmpeg";
+
+  if (!isTranscoderName(name)) {
+    throw new Error(`Unknown TRANSCODER "${name}", expected one of: ${TRANSCODER_NAMES.join(", ")}`);
+  }
+  return name;
+}
+
+/**
+ * The transcoder new uploads to a workspace go to. A choice the server is no
+ * longer configured for, or the workspace's plan no longer allows, falls back
+ * to the default rather than failing or billing every upload.
+ */
+export function getWorkspaceTranscoder(
+  workspace: Pick<IWorkspace, "transcoder" | "ownerId"> | null,
+  plan: keyof typeof PLANS
+): Transcoder {
+  const name = workspace?.transcoder;
+
+  if (!name) {
+    return transcoders[getDefaultTranscoderName()];
+  }
+  if (!isTranscoderConfigured(name)) {
+    console.warn(`Transcoder "${name}" isn't configured, using the default`);
+    return transcoders[getDefaultTranscoderName()];
+  }
+  if (!isTranscoderAllowed(name, workspace, plan)) {
+    console.warn(`The ${plan} plan doesn't include the "${name}" transcoder, using the default`);
+    return transcoders[getDefaultTranscoderName()];
+  }
+  return transcoders[name];
+}
+
+export function getTranscoder(name: TranscoderName): Transcoder {
+  return transcoders[name];
+}
@@ -0,0 +1,347 @@
+// src/lib/upload-engine.ts
+// Browser-side engine for S3 multipart uploads: presigns parts in batches,
+// uploads several at once and retries failed parts on their own.
+import { sha256Base64 } from "@/lib/checksums";
+
+export type CompletedPart = {
+  ETag: string;
+  PartNumber: number;
+  ChecksumSHA256?: string;
+};
+
+export type UploadProgress = {
+  uploadedBytes: number;
+  totalBytes: number;
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null;
+};
+
+export type UploadEngineOptions = {
+  file: File;
+  chunkSize: number;
+  uploadId: string;
+  key: string;
+  videoId: string;
+  /** Parts S3 already has, e.g. from an interrupted upload */
+  completedParts?: CompletedPart[];
+  /** SHA-256 of each part (index 0 is part 1), checked by S3 as it receives them */
+  checksums?: string[];
+  /** Most parts in flight at once; lowered automatically while parts keep failing */
+  concurrency?: number;
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onPartUploaded?: (part: CompletedPart & { Size: number }) => void | Promise<void>;
+  onProgress?: (progress: UploadProgress) => void;
+};
+
+export const MIN_PART_SIZE = 5 * 1024 * 1024; // S3 minimum for every part but the last
+const MAX_PARTS = 10000; // S3 limit per multipart upload
+const PRESIGN_BATCH_SIZE = 50;
+const PRESIGNED_URL_MAX_AGE_MS = 50 * 60 * 1000; // URLs are signed for an hour
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const MAX_BACKOFF_MS = 30000;
+const SPEED_SMOOTHING = 0.2;
+
+export class UploadAbortedError extends Error {
+  constructor() {
+    super("Upload aborted");
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Pick a part size that keeps the upload within S3's part limit: 5MB for
+ * files up to ~50GB, growing in whole megabytes beyond that
+ */
+export function getChunkSize(fileSize: number) {
+  const megabyte = 1024 * 1024;
+  const minimumForLimit = Math.ceil(fileSize / MAX_PARTS / megabyte) * megabyte;
+  return Math.max(MIN_PART_SIZE, minimumForLimit);
+}
+
+/**
+ * Hash every part of the file in turn, reading one part into memory at a time
+ */
+export async function computePartChecksums(
+  file: File,
+  chunkSize: number,
+  { signal, onProgress }: { signal?: AbortSignal; onProgress?: (percent: number) => void } = {}
+) {
+  const totalParts = Math.ceil(file.size / chunkSize);
+  const checksums: string[] = [];
+
+  for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+    if (signal?.aborted) throw new UploadAbortedError();
+
+    const start = (partNumber - 1) * chunkSize;
+    checksums.push(await sha256Base64(await file.slice(start, start + chunkSize).arrayBuffer()));
+    onProgress?.(Math.round((partNumber / totalParts) * 100));
+  }
+
+  return checksums;
+}
+
+/**
+ * Fetch presigned URLs for a batch of part numbers. Checksums are signed into
+ * the URLs, so S3 rejects a part whose bytes don't match.
+ */
+async function presignParts(
+  uploadId: string,
+  key: string,
+  videoId: string,
+  partNumbers: number[],
+  checksums?: Record<number, string>
+) {
+  const response = await fetch("/api/videos/multipart/presigned", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ uploadId, key, videoId, partNumbers, checksums }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Failed to get presigned URLs");
+  }
+
+  const { presignedUrls }: { presignedUrls: Record<string, string> } = await response.json();
+  return presignedUrls;
+}
+
+/**
+ * PUT one part with XHR, which (unlike fetch) reports upload progress
+ */
+function putPart(
+  url: string,
+  chunk: Blob,
+  checksum: string | undefined,
+  signal: AbortSignal | undefined,
+  onBytes: (loaded: number) => void
+) {
+  return new Promise<string>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+
+    xhr.open("PUT", url);
+    if (checksum) {
+      xhr.setRequestHeader("x-amz-checksum-sha256", checksum);
+    }
+    xhr.upload.onprogress = (event) => onBytes(event.loaded);
+    xhr.onload = () => {
+      signal?.removeEventListener("abort", abort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve((xhr.getResponseHeader("ETag") || "").replace(/"/g, ""));
+      } else {
+        reject(new Error(`Part upload failed with status ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(new Error("Network error while uploading part"));
+    };
+    xhr.onabort = () => reject(new UploadAbortedError());
+
+    signal?.addEventListener("abort", abort, { once: true });
+    xhr.send(chunk);
+  });
+}
+
+// Exponential backoff, or wait for the browser to come back online
+function waitBeforeRetry(attempt: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const done = () => {
+      signal?.removeEventListener("abort", aborted);
+      resolve();
+    };
+    const aborted = () => reject(new UploadAbortedError());
+
+    signal?.addEventListener("abort", aborted, { once: true });
+
+    if (navigator.onLine) {
+      const jitter = Math.random() * 250;
+      setTimeout(done, Math.min(MAX_BACKOFF_MS, 1000 * 2 ** (attempt - 1)) + jitter);
+    } else {
+      window.addEventListener("online", done, { once: true });
+    }
+  });
+}
+
+/**
+ * Upload every part of the file that isn't already in S3 and return the full
+ * list of parts for CompleteMultipartUpload. Throws UploadAbortedError when
+ * the signal fires.
+ */
+export async function uploadParts({
+  file,
+  chunkSize,
+  uploadId,
+  key,
+  videoId,
+  completedParts = [],
+  checksums,
+  concurrency = DEFAULT_CONCURRENCY,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  signal,
+  onPartUploaded,
+  onProgress,
+}: UploadEngineOptions): Promise<CompletedPart[]> {
+  // One failed part stops the others too
+  const controller = new AbortController();
+  const abortAll = () => controller.abort();
+  signal?.addEventListener("abort", abortAll, { once: true });
+
+  const totalParts = Math.ceil(file.size / chunkSize);
+  const partSize = (partNumber: number) => Math.min(chunkSize, file.size - (partNumber - 1) * chunkSize);
+
+  const parts = new Map(completedParts.map((part) => [part.PartNumber, part]));
+  const pending = Array.from({ length: totalParts }, (_, i) => i + 1).filter((n) => !parts.has(n));
+
+  // Progress: finished parts plus the bytes sent so far for parts in flight
+  let completedBytes = [...parts.keys()].reduce((total, n) => total + partSize(n), 0);
+  const inFlightBytes = new Map<number, number>();
+  let bytesPerSecond = 0;
+  let lastSample = { time: performance.now(), bytes: completedBytes };
+
+  const reportProgress = () => {
+    const uploadedBytes = completedBytes + [...inFlightBytes.values()].reduce((a, b) => a + b, 0);
+    const now = performance.now();
+    const elapsed = (now - lastSample.time) / 1000;
+
+    if (elapsed >= 0.5) {
+      const rate = Math.max(0, uploadedBytes - lastSample.bytes) / elapsed;
+      bytesPerSecond = bytesPerSecond ? bytesPerSecond + SPEED_SMOOTHING * (rate - bytesPerSecond) : rate;
+      lastSample = { time: now, bytes: uploadedBytes };
+    }
+
+    onProgress?.({
+      uploadedBytes,
+      totalBytes: file.size,
+      percent: file.size ? Math.round((uploadedBytes / file.size) * 100) : 100,
+      bytesPerSecond,
+      etaSeconds: bytesPerSecond > 0 ? (file.size - uploadedBytes) / bytesPerSecond : null,
+    });
+  };
+
+  // Presigned URLs are fetched a batch at a time, just ahead of the uploads
+  const urls = new Map<number, { url: string; signedAt: number }>();
+  let presignRequest: Promise<void> | null = null;
+
+  const getUrl = async (partNumber: number, forceRefresh = false): Promise<string> => {
+    const cached = urls.get(partNumber);
+    if (cached && !forceRefresh && Date.now() - cached.signedAt < PRESIGNED_URL_MAX_AGE_MS) {
+      return cached.url;
+    }
+
+    if (presignRequest) {
+      await presignRequest;
+      if (!forceRefresh && urls.has(partNumber)) return getUrl(partNumber);
+    }
+
+    const start = pending.indexOf(partNumber);
+    const batch = [partNumber, ...pending.slice(start + 1).filter((n) => !parts.has(n))].slice(0, PRESIGN_BATCH_SIZE);
+
+    const batchChecksums = checksums && Object.fromEntries(batch.map((n) => [n, checksums[n - 1]]));
+
+    presignRequest = presignParts(uploadId, key, videoId, batch, batchChecksums).then((presignedUrls) => {
+      const signedAt = Date.now();
+      for (const [n, url] of Object.entries(presignedUrls)) {
+        urls.set(Number(n), { url, signedAt });
+      }
+    });
+
+    try {
+      await presignRequest;
+    } finally {
+      presignRequest = null;
+    }
+
+    return urls.get(partNumber)!.url;
+  };
+
+  // Additive increase, multiplicative decrease: back off when parts fail and
+  // creep back up as they succeed
+  const maxConcurrency = Math.max(1, concurrency);
+  let allowedConcurrency = maxConcurrency;
+  let successesSinceBackoff = 0;
+
+  const uploadPart = async (partNumber: number) => {
+    const start = (partNumber - 1) * chunkSize;
+    const chunk = file.slice(start, start + partSize(partNumber));
+
+    for (let attempt = 1; ; attempt++) {
+      if (controller.signal.aborted) throw new UploadAbortedError();
+
+      try {
+        const url = await getUrl(partNumber, attempt > 1);
+        const checksum = checksums?.[partNumber - 1];
+        const ETag = await putPart(url, chunk, checksum, controller.signal, (loaded) => {
+          inFlightBytes.set(partNumber, loaded);
+          reportProgress();
+        });
+
+        const part: CompletedPart = { ETag, PartNumber: partNumber, ChecksumSHA256: checksum };
+        parts.set(partNumber, part);
+        inFlightBytes.delete(partNumber);
+        completedBytes += chunk.size;
+        reportProgress();
+
+        if (++successesSinceBackoff >= allowedConcurrency && allowedConcurrency < maxConcurrency) {
+          allowedConcurrency++;
+          successesSinceBackoff = 0;
+        }
+
+        await onPartUploaded?.({ ...part, Size: chunk.size });
+        return;
+      } catch (error) {
+        inFlightBytes.delete(partNumber);
+        if (error instanceof UploadAbortedError || attempt >= maxAttempts) throw error;
+
+        console.log(`🔁 Part ${partNumber} failed, retrying (attempt ${attempt + 1} of ${maxAttempts})`, error);
+        allowedConcurrency = Math.max(1, Math.floor(allowedConcurrency / 2));
+        successesSinceBackoff = 0;
+        await waitBeforeRetry(attempt, controller.signal);
+      }
+    }
+  };
+
+  // Worker pool: each worker takes the next pending part while it's allowed to run
+  const queue = [...pending];
+  let active = 0;
+  let failure: unknown = null;
+
+  await new Promise<void>((resolve, reject) => {
+    const pump = () => {
+      if (failure) return;
+
+      if (queue.length === 0 && active === 0) {
+        resolve();
+        return;
+      }
+
+      while (queue.length > 0 && active < allowedConcurrency) {
+        const partNumber = queue.shift()!;
+        active++;
+
+        uploadPart(partNumber)
+          .then(() => {
+            active--;
+            pump();
+          })
+          .catch((error) => {
+            active--;
+            if (!failure) {
+              failure = error;
+              abortAll();
+              reject(error);
+            }
+          });
+      }
+    };
+
+    reportProgress();
+    pump();
+  }).finally(() => signal?.removeEventListener("abort", abortAll));
+
+  return [...parts.values()].sort((a, b) => a.PartNumber - b.PartNumber);
+}
@@ -0,0 +1,144 @@
+// src/lib/upload-janitor.ts
+// Periodic cleanup of uploads that never finished and videos that stopped
+// making progress in processing
+import connectToDatabase from "@/lib/mongodb";
+import { getStorage } from "@/lib/storage";
+import { abortUpload, RESUMABLE_UPLOAD_MAX_AGE_MS } from "@/lib/multipart-upload";
+import { JobHandler } from "@/lib/job-queue";
+import { enqueueTranscodeJob, TRANSCODE_JOB } from "@/lib/video-jobs";
+import { Video, IVideo } from "@/models/video";
+import Job from "@/models/job";
+
+export const UPLOAD_CLEANUP_JOB = "uploads.cleanup";
+
+// Uploads can be resumed for a week, so they're only abandoned after that
+const STALE_UPLOAD_MS = RESUMABLE_UPLOAD_MAX_AGE_MS;
+// Transcoding writes progress every few seconds, so hours of silence means it's stuck
+const STALE_PROCESSING_MS = 6 * 60 * 60 * 1000;
+const BATCH_SIZE = 100;
+
+export type CleanupResult = {
+  abortedUploads: number;
+  requeuedVideos: number;
+  failedVideos: number;
+};
+
+async function objectExists(key: string) {
+  return (await getStorage().headObject(key)) !== null;
+}
+
+/**
+ * Abort the multipart upload behind a Video stuck in `uploading` and remove it
+ */
+async function cleanUpAbandonedUpload(video: IVideo) {
+  if (video.s3Key && video.uploadId) {
+    await abortUpload(video.s3Key, video.uploadId);
+  }
+
+  // Skip the delete if the upload picked up again since we looked
+  const result = await Video.deleteOne({ _id: video._id, status: "uploading", updatedAt: video.updatedAt });
+  return result.deletedCount === 1;
+}
+
+/**
+ * Bring a Video stuck in `processing` back in line with storage and the job queue:
+ * queue the transcode again if the source is there, otherwise mark it failed
+ */
+async function reconcileStuckProcessing(video: IVideo): Promise<"requeued" | "failed" | "skipped"> {
+  const videoId = video._id.toString();
+  const transcodeJobs = await Job.find({ dedupeKey: `${TRANSCODE_JOB}:${videoId}` })
+    .sort({ createdAt: -1 })
+    .limit(1);
+  const latestJob = transcodeJobs[0];
+
+  // Still queued or running, e.g. waiting behind a long backlog
+  if (latestJob && (latestJob.status === "queued" || latestJob.status === "running")) {
+    return "skipped";
+  }
+
+  const markFailed = (processingError: string) =>
+    Video.updateOne(
+      { _id: video._id, status: "processing", updatedAt: video.updatedAt },
+      { status: "error", processingError }
+    );
+
+  // The job gave up but its dead-letter hook never recorded it
+  if (latestJob?.status === "dead") {
+    await markFailed(`Video processing failed: ${latestJob.lastError || "Unknown error"}`);
+    return "failed";
+  }
+
+  // The complete route may have stopped between finishing the multipart upload and
+  // moving the file, which leaves it at the upload key
+  const sourceKey = video.videoKey || video.s3Key;
+
+  if (!sourceKey || !(await objectExists(sourceKey))) {
+    await markFailed("The uploaded file is missing from storage. Please upload it again.");
+    return "failed";
+  }
+
+  if (!video.videoKey) {
+    await Video.findByIdAndUpdate(videoId, { videoKey: sourceKey });
+  }
+
+  await enqueueTranscodeJob(videoId, { key: sourceKey });
+  return "requeued";
+}
+
+/**
+ * Find uploads abandoned for longer than they can be resumed and videos stuck
+ * in processing, and reconcile each one against storage
+ */
+export async function cleanUpStaleUploads(): Promise<CleanupResult> {
+  await connectToDatabase();
+
+  const result: CleanupResult = { abortedUploads: 0, requeuedVideos: 0, failedVideos: 0 };
+  const now = Date.now();
+
+  const abandonedUploads = await Video.find({
+    status: "uploading",
+    updatedAt: { $lt: new Date(now - STALE_UPLOAD_MS) },
+  }).limit(BATCH_SIZE);
+
+  for (const video of abandonedUploads) {
+    try {
+      if (await cleanUpAbandonedUpload(video)) {
+        result.abortedUploads++;
+      }
+    } catch (error) {
+      console.error(`Failed to clean up abandoned upload for video ${video._id}:`, error);
+    }
+  }
+
+  // Mux reports on its own assets through its webhook
+  const stuckVideos = await Video.find({
+    status: "processing",
+    muxAssetId: { $exists: false },
+    updatedAt: { $lt: new Date(now - STALE_PROCESSING_MS) },
+  }).limit(BATCH_SIZE);
+
+  for (const video of stuckVideos) {
+    try {
+      const outcome = await reconcileStuckProcessing(video);
+      if (outcome === "requeued") result.requeuedVideos++;
+      if (outcome === "failed") result.failedVideos++;
+    } catch (error) {
+      console.error(`Failed to reconcile video ${video._id} stuck in processing:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Runs cleanUpStaleUploads; the worker schedules it periodically
+ */
+export const uploadCleanupJobHandler: JobHandler = {
+  async run() {
+    const { abortedUploads, requeuedVideos, failedVideos } = await cleanUpStaleUploads();
+    console.log(
+      `Upload cleanup: aborted ${abortedUploads} abandoned upload(s), ` +
+      `requeued ${requeuedVideos} and failed ${failedVideos} stuck video(s)`
+    );
+  },
+};
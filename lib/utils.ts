@@ -31,6 +31,15 @@ export function formatDate(date: Date | string): string {
   });
 }
 
+/**
+ * Format a byte count (e.g., "1.5 MB")
+ */
+export function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)));
+  return `${(bytes / 1024 ** exponent).toFixed(exponent > 1 ? 1 : 0)} ${units[exponent]}`;
+}
+
 /**
  * Format relative time (e.g., "2 days ago")
  */
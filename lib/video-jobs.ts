@@ -0,0 +1,179 @@
+// src/lib/video-jobs.ts
+import connectToDatabase from "@/lib/mongodb";
+import { enqueueJob, JobHandler, PermanentJobError } from "@/lib/job-queue";
+import { generateCustomThumbnail, InvalidMediaError } from "@/lib/video-processor";
+import { getTranscoder, getWorkspaceTranscoder, TranscodeOutcome, TranscoderName, TranscodeSource } from "@/lib/transcoder";
+import { markVideoFailed, markVideoReady, startProcessing } from "@/lib/video-state";
+import { getWorkspacePlan } from "@/lib/UserMembership";
+import { PLANS } from "@/lib/stripe";
+import { recordVideoStorage } from "@/lib/storage-usage";
+import { Video } from "@/models/video";
+import Workspace from "@/models/workspace";
+import { IJob } from "@/models/job";
+
+export const TRANSCODE_JOB = "video.transcode";
+export const THUMBNAIL_JOB = "video.thumbnail";
+
+type TranscodePayload = {
+  videoId: string;
+  /** Storage key of the source */
+  videoKey?: string;
+  /** Where the source is hosted, when it isn't in storage */
+  sourceUrl?: string;
+  /** Overrides the workspace's transcoder */
+  transcoder?: TranscoderName;
+};
+
+type ThumbnailPayload = {
+  videoId: string;
+  timestamp: number;
+};
+
+/**
+ * Queue transcoding for an uploaded video
+ */
+export async function enqueueTranscodeJob(videoId: string, source: TranscodeSource, transcoder?: TranscoderName) {
+  const payload: TranscodePayload = "key" in source
+    ? { videoId, videoKey: source.key, transcoder }
+    : { videoId, sourceUrl: source.url, transcoder };
+
+  return enqueueJob(TRANSCODE_JOB, payload, {
+    dedupeKey: `${TRANSCODE_JOB}:${videoId}`,
+  });
+}
+
+/**
+ * Queue extraction of a poster frame at a timestamp chosen by the uploader
+ */
+export async function enqueueThumbnailJob(videoId: string, timestamp: number) {
+  return enqueueJob(THUMBNAIL_JOB, { videoId, timestamp }, { maxAttempts: 2 });
+}
+
+/**
+ * Bring the storage ledger up to date after a job wrote objects. Failing to
+ * measure shouldn't fail the job, since the next write measures again.
+ */
+async function updateStorageLedger(videoId: string) {
+  try {
+    await recordVideoStorage(videoId);
+  } catch (error) {
+    console.error(`Failed to record storage for video ${videoId}:`, error);
+  }
+}
+
+/**
+ * Hands the video to its transcoder and moves it through processing → ready.
+ * Transcoders that finish later report through lib/video-state.ts themselves.
+ */
+export const transcodeJobHandler: JobHandler = {
+  async run(job: IJob) {
+    const { videoId, videoKey, sourceUrl, transcoder: transcoderName } = job.payload as TranscodePayload;
+
+    await connectToDatabase();
+
+    const video = await Video.findById(videoId);
+
+    if (!video) {
+      // The video was deleted while queued, so there is nothing to do
+      console.warn(`Skipping transcode job ${job._id}: video ${videoId} no longer exists`);
+      return;
+    }
+
+    // The encoding ladder follows the plan of the workspace owner
+    const workspace = await Workspace.findById(video.workspaceId);
+    const plan = workspace ? await getWorkspacePlan(workspace.ownerId) : "FREE";
+    const transcoder = transcoderName ? getTranscoder(transcoderName) : getWorkspaceTranscoder(workspace, plan);
+
+    const attemptId = await startProcessing(videoId, transcoder.name);
+
+    let outcome: TranscodeOutcome;
+    try {
+      outcome = await transcoder.transcode({
+        videoId,
+        source: sourceUrl ? { url: sourceUrl } : { key: videoKey! },
+        attemptId,
+        allowedRenditions: PLANS[plan].renditions,
+      });
+    } catch (error) {
+      if (error instanceof InvalidMediaError) {
+        throw new PermanentJobError(error.message);
+      }
+      throw error;
+    }
+
+    if (outcome.status === "submitted") {
+      console.log(`Video ${videoId} is being transcoded by ${transcoder.name}`);
+      return;
+    }
+
+    const { result } = outcome;
+    const isReady = await markVideoReady(videoId, {
+      hlsKey: result.hlsKey,
+      renditions: result.renditions,
+      resolution: result.renditions[result.renditions.length - 1],
+      previewThumbnailsKey: result.previewThumbnailsKey,
+    }, attemptId);
+
+    if (isReady) {
+      console.log(`Video ${videoId} is ready: ${result.hlsKey} (${result.renditions.join(", ")})`);
+    } else {
+      console.warn(`Transcode attempt ${attemptId} for video ${videoId} was superseded; discarding its result`);
+    }
+
+    await updateStorageLedger(videoId);
+  },
+
+  async onDeadLetter(job: IJob, error: string) {
+    const { videoId } = job.payload as TranscodePayload;
+
+    await markVideoFailed(videoId, `Video processing failed: ${error}`);
+
+    // Attempts may have left renditions and thumbnails behind
+    await updateStorageLedger(videoId);
+  },
+};
+
+/**
+ * Extracts a custom poster frame and makes it the video's thumbnail
+ */
+export const thumbnailJobHandler: JobHandler = {
+  async run(job: IJob) {
+    const { videoId, timestamp } = job.payload as ThumbnailPayload;
+
+    await connectToDatabase();
+
+    const video = await Video.findById(videoId);
+
+    // A newer request replaces this one, so only the latest timestamp is applied
+    if (!video || video.thumbnailTimestamp !== timestamp) {
+      console.warn(`Skipping thumbnail job ${job._id}: superseded or video deleted`);
+      return;
+    }
+
+    if (!video.videoKey) {
+      throw new PermanentJobError("Video has no source file to extract a thumbnail from");
+    }
+
+    const thumbnailKey = await generateCustomThumbnail(videoId, video.videoKey, timestamp);
+
+    await Video.updateOne(
+      { _id: videoId, thumbnailTimestamp: timestamp },
+      { thumbnailKey }
+    );
+
+    console.log(`Video ${videoId} thumbnail set to ${timestamp}s: ${thumbnailKey}`);
+
+    await updateStorageLedger(videoId);
+  },
+
+  async onDeadLetter(job: IJob, error: string) {
+    // The previous thumbnail stays in place
+    const { videoId, timestamp } = job.payload as ThumbnailPayload;
+    console.error(`Could not extract thumbnail at ${timestamp}s for video ${videoId}: ${error}`);
+  },
+};
+
+export const jobHandlers: Record<string, JobHandler> = {
+  [TRANSCODE_JOB]: transcodeJobHandler,
+  [THUMBNAIL_JOB]: thumbnailJobHandler,
+};
@@ -1,106 +1,311 @@
 // src/lib/video-processor.ts
-import { PutObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3";
 import ffmpeg from "fluent-ffmpeg";
 import fs from "fs-extra";
 import path from "path";
-import { Readable } from "stream";
 import { pipeline } from "stream/promises";
-import { s3Client, bucketName } from "@/lib/s3-client"; // Import the shared s3Client and bucketName
+import { getStorage } from "@/lib/storage";
+import type { IMediaInfo, IThumbnailCandidate } from "@/models/video";
+import {
+  buildEncodingLadder,
+  getDisplayDimensions,
+  getStreamInfTag,
+  RenditionName,
+} from "@/lib/encoding-ladder";
+import {
+  buildThumbnailsVtt,
+  extractFrame,
+  FrameScore,
+  generateSpriteSheets,
+  getCandidateTimestamps,
+  getSpriteLayout,
+  measureFrame,
+  pickDefaultCandidate,
+} from "@/lib/thumbnails";
 
 const chunkDuration = 10; // Duration for each .ts chunk (in seconds)
 
+export type HLSProgress = {
+  rendition: string;
+  renditionIndex: number;
+  renditionCount: number;
+  percent: number; // 0-100 for the current rendition
+};
+
+export type ProbeResult = {
+  duration?: number;
+  mediaInfo: IMediaInfo;
+};
+
+type GenerateHLSOptions = {
+  /** Ladder rungs the workspace plan may produce (defaults to all, capped by the source) */
+  allowedRenditions?: RenditionName[];
+  onProgress?: (progress: HLSProgress) => void;
+  /** Called with the probed source metadata before transcoding starts */
+  onProbe?: (probe: ProbeResult) => Promise<void> | void;
+  /** Called with the uploaded poster candidates before transcoding starts */
+  onThumbnails?: (thumbnails: ThumbnailResult) => Promise<void> | void;
+};
+
+export type ThumbnailResult = {
+  candidates: IThumbnailCandidate[];
+  defaultKey: string;
+};
+
 /**
- * Uploads a file to S3
+ * Thrown when the uploaded file is not a usable video. Retrying won't help.
  */
-async function uploadToS3(localPath: string, s3Key: string, contentType: string) {
-  console.log(`Uploading ${s3Key} to S3...`);
-  console.log(`Using bucket: ${bucketName}`);
-  
-  const fileStream = fs.createReadStream(localPath);
-  const uploadCommand = new PutObjectCommand({
-    Bucket: bucketName,
-    Key: s3Key,
-    Body: fileStream,
-    ContentType: contentType,
-  });
+export class InvalidMediaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidMediaError";
+  }
+}
+
+/**
+ * Uploads a file to storage
+ */
+async function uploadToStorage(localPath: string, key: string, contentType: string) {
+  console.log(`Uploading ${key} to storage...`);
 
-  await s3Client.send(uploadCommand);
-  console.log(`Successfully uploaded ${s3Key} to S3`);
+  await getStorage().putObject(key, fs.createReadStream(localPath), contentType);
+  console.log(`Successfully uploaded ${key} to storage`);
 }
 
 /**
- * Downloads a file from S3 to a local path
+ * Downloads a file from storage to a local path
  */
-async function downloadFromS3(s3Key: string, localPath: string) {
-  console.log(`Downloading ${s3Key} from S3 to ${localPath}...`);
-  console.log(`Using bucket: ${bucketName}`);
+async function downloadFromStorage(key: string, localPath: string) {
+  console.log(`Downloading ${key} from storage to ${localPath}...`);
   
   // Make sure the directory exists
   fs.ensureDirSync(path.dirname(localPath));
   
   try {
-    const getCommand = new GetObjectCommand({
-      Bucket: bucketName,
-      Key: s3Key,
-    });
-    
-    console.log(`GetObjectCommand created with Bucket: ${bucketName}, Key: ${s3Key}`);
-    
-    const response = await s3Client.send(getCommand);
-    console.log(`S3 GetObject response received`);
-    
-    if (!response.Body) {
-      throw new Error(`Failed to download file from S3: Empty response body for ${s3Key}`);
-    }
-    
     // Stream the file to disk
     await pipeline(
-      response.Body as Readable,
+      await getStorage().getObjectStream(key),
       fs.createWriteStream(localPath)
     );
     
-    console.log(`Successfully downloaded ${s3Key} to ${localPath} (${fs.statSync(localPath).size} bytes)`);
+    console.log(`Successfully downloaded ${key} to ${localPath} (${fs.statSync(localPath).size} bytes)`);
   } catch (error) {
-    console.error(`Error in downloadFromS3:`, error);
-    console.error(`Bucket: ${bucketName}, Key: ${s3Key}`);
+    console.error(`Error in downloadFromStorage for ${key}:`, error);
     throw error;
   }
 }
 
+/**
+ * Parses an ffprobe rational such as "30000/1001" into a number
+ */
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) return undefined;
+
+  const [numerator, denominator] = rate.split("/").map(Number);
+  if (!numerator || !denominator) return undefined;
+
+  return Math.round((numerator / denominator) * 1000) / 1000;
+}
+
+/**
+ * Reads rotation from the display matrix side data (newer ffmpeg) or the
+ * legacy `rotate` tag, normalised to 0, 90, 180 or 270
+ */
+function parseRotation(stream: ffmpeg.FfprobeStream): number {
+  const sideData = (stream.side_data_list as Array<{ rotation?: number | string }> | undefined)
+    ?.find((data) => data.rotation !== undefined);
+  const rawRotation = sideData?.rotation ?? stream.tags?.rotate ?? stream.rotation ?? 0;
+  const rotation = Number(rawRotation) || 0;
+
+  return ((Math.round(rotation / 90) * 90) % 360 + 360) % 360;
+}
+
+/**
+ * Runs ffprobe on a local file and extracts the technical metadata we store
+ * on the Video. Throws InvalidMediaError if the file has no decodable video.
+ */
+export async function probeVideo(localPath: string): Promise<ProbeResult> {
+  const data = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+    ffmpeg.ffprobe(localPath, (err, metadata) => {
+      if (err) {
+        reject(new InvalidMediaError(
+          `The uploaded file could not be read as a video (${err.message.split("\n")[0]})`
+        ));
+        return;
+      }
+      resolve(metadata);
+    });
+  });
+
+  const videoStream = data.streams.find(
+    (stream) => stream.codec_type === "video" && stream.disposition?.attached_pic !== 1
+  );
+  const audioStream = data.streams.find((stream) => stream.codec_type === "audio");
+
+  if (!videoStream || !videoStream.width || !videoStream.height) {
+    throw new InvalidMediaError("The uploaded file does not contain a video stream");
+  }
+
+  const duration = Number(data.format.duration) || Number(videoStream.duration) || undefined;
+
+  if (!duration || duration <= 0) {
+    throw new InvalidMediaError("The uploaded video has no playable duration");
+  }
+
+  return {
+    duration,
+    mediaInfo: {
+      container: data.format.format_name,
+      width: videoStream.width,
+      height: videoStream.height,
+      frameRate: parseFrameRate(videoStream.avg_frame_rate) ?? parseFrameRate(videoStream.r_frame_rate),
+      videoCodec: videoStream.codec_name,
+      audioCodec: audioStream?.codec_name,
+      bitrate: Number(data.format.bit_rate) || Number(videoStream.bit_rate) || undefined,
+      audioChannels: audioStream?.channels,
+      rotation: parseRotation(videoStream),
+    },
+  };
+}
+
+/**
+ * Extracts poster candidates from a local video, uploads them to
+ * `videos/{id}/thumbnails/` and picks a default that isn't black or blurry
+ */
+async function generateThumbnailCandidates(
+  videoId: string,
+  videoLocalPath: string,
+  duration: number,
+  workDir: string
+): Promise<ThumbnailResult> {
+  const thumbnailsDir = path.join(workDir, "thumbnails");
+  fs.ensureDirSync(thumbnailsDir);
+
+  const candidates: IThumbnailCandidate[] = [];
+  const scores: FrameScore[] = [];
+
+  for (const [index, timestamp] of getCandidateTimestamps(duration).entries()) {
+    const fileName = `candidate-${String(index).padStart(2, "0")}.jpg`;
+    const localPath = path.join(thumbnailsDir, fileName);
+
+    try {
+      await extractFrame(videoLocalPath, timestamp, localPath);
+      scores.push(await measureFrame(localPath));
+    } catch (error) {
+      console.warn(`Could not extract thumbnail at ${timestamp}s for video ${videoId}:`, error);
+      continue;
+    }
+
+    const s3Key = `videos/${videoId}/thumbnails/${fileName}`;
+    await uploadToStorage(localPath, s3Key, "image/jpeg");
+    candidates.push({ key: s3Key, timestamp });
+  }
+
+  if (candidates.length === 0) {
+    throw new Error("No thumbnail candidates could be extracted");
+  }
+
+  const defaultIndex = pickDefaultCandidate(scores);
+  console.log(`Thumbnail scores: ${JSON.stringify(scores)}, default: ${candidates[defaultIndex].key}`);
+
+  return { candidates, defaultKey: candidates[defaultIndex].key };
+}
+
+/**
+ * Renders scrubbing preview sprite sheets and the WebVTT thumbnails track
+ * into the HLS output directory. Returns the storage key of the track.
+ */
+async function generatePreviewThumbnails(
+  videoLocalPath: string,
+  probe: ProbeResult,
+  hlsLocalDir: string,
+  hlsBaseDir: string
+): Promise<string> {
+  const duration = probe.duration || 0;
+  const layout = getSpriteLayout(duration, getDisplayDimensions(probe.mediaInfo));
+  const spritesDir = path.join(hlsLocalDir, "sprites");
+
+  const sheets = await generateSpriteSheets(videoLocalPath, spritesDir, layout);
+
+  if (sheets.length === 0) {
+    throw new Error("ffmpeg produced no sprite sheets");
+  }
+
+  for (const sheet of sheets) {
+    await uploadToStorage(path.join(spritesDir, sheet), `${hlsBaseDir}/sprites/${sheet}`, "image/jpeg");
+  }
+
+  // Sheet paths are relative so the track resolves against wherever it's served from
+  const vttPath = path.join(hlsLocalDir, "thumbnails.vtt");
+  const vttKey = `${hlsBaseDir}/thumbnails.vtt`;
+  fs.writeFileSync(vttPath, buildThumbnailsVtt(duration, layout, sheets.map((sheet) => `sprites/${sheet}`)));
+  await uploadToStorage(vttPath, vttKey, "text/vtt");
+
+  console.log(`Uploaded ${sheets.length} sprite sheets (${layout.interval}s interval) and ${vttKey}`);
+  return vttKey;
+}
+
+/**
+ * Extracts a poster frame at a custom timestamp. ffmpeg reads the source
+ * through a presigned URL, so only the bytes around the timestamp are fetched.
+ */
+export async function generateCustomThumbnail(
+  videoId: string,
+  videoKey: string,
+  timestamp: number
+): Promise<string> {
+  const tempDir = path.join("/tmp", `${videoId}-thumbnail`);
+  const fileName = `custom-${Math.round(timestamp * 1000)}.jpg`;
+  const localPath = path.join(tempDir, fileName);
+  fs.ensureDirSync(tempDir);
+
+  try {
+    const source = await getStorage().getProcessingInput(videoKey, 600);
+
+    await extractFrame(source, timestamp, localPath);
+
+    const s3Key = `videos/${videoId}/thumbnails/${fileName}`;
+    await uploadToStorage(localPath, s3Key, "image/jpeg");
+    return s3Key;
+  } finally {
+    fs.removeSync(tempDir);
+  }
+}
+
 /**
  * Generates HLS content for a given video file
  */
-export async function generateHLSContent(videoId: string, videoKey: string) {
-  console.log(`Starting HLS content generation for video ${videoId}, S3 key: ${videoKey}`);
-  console.log(`Using S3 bucket: ${bucketName}`);
+export async function generateHLSContent(
+  videoId: string,
+  videoKey: string,
+  { allowedRenditions, onProgress, onProbe, onThumbnails }: GenerateHLSOptions = {}
+) {
+  console.log(`Starting HLS content generation for video ${videoId}, storage key: ${videoKey}`);
   
+  // Removed however the attempt ends, so failed ones don't pile up sources on disk
+  let tempDir: string | undefined;
   try {
     if (!videoId || !videoKey) {
       throw new Error("Both videoId and videoKey are required");
     }
 
-    if (!bucketName) {
-      throw new Error("S3 bucket name is undefined. Check environment variables.");
-    }
-
     // Create a temporary file path for the video
     const fileName = path.basename(videoKey);
-    const tempDir = path.join("/tmp", videoId);
+    tempDir = path.join("/tmp", videoId);
     const videoLocalPath = path.join(tempDir, fileName);
     
     console.log(`Temporary directory: ${tempDir}`);
     console.log(`Local video path: ${videoLocalPath}`);
     
-    // Download the video from S3
+    // Download the video from storage
     try {
-      await downloadFromS3(videoKey, videoLocalPath);
+      await downloadFromStorage(videoKey, videoLocalPath);
     } catch (error: unknown) {
-      console.error(`Error downloading video from S3:`, error);
+      console.error(`Error downloading video from storage:`, error);
       // Handle the error properly with type checking
       const errorMessage = error instanceof Error 
         ? error.message 
         : 'Unknown error occurred during download';
-      throw new Error(`Failed to download video from S3: ${errorMessage}`);
+      throw new Error(`Failed to download video from storage: ${errorMessage}`);
     }
     
     // Verify the file exists and has content
@@ -115,19 +320,50 @@ export async function generateHLSContent(videoId: string, videoKey: string) {
     
     console.log(`Downloaded file verified: ${videoLocalPath} (${fileSize} bytes)`);
 
+    // Inspect the source before spending time on transcoding
+    const probe: ProbeResult = await probeVideo(videoLocalPath);
+
+    console.log(`Probed source: ${JSON.stringify(probe)}`);
+    await onProbe?.(probe);
+
+    // Posters are a nice-to-have, so a failure here shouldn't fail the transcode
+    if (probe.duration) {
+      try {
+        const thumbnails = await generateThumbnailCandidates(videoId, videoLocalPath, probe.duration, tempDir);
+        await onThumbnails?.(thumbnails);
+      } catch (error) {
+        console.warn(`Skipping thumbnails for video ${videoId}:`, error);
+      }
+    }
+
     // Define HLS output directory
     const hlsBaseDir = `videos/${videoId}/hls`;
     const hlsLocalDir = path.join(tempDir, 'hls');
     fs.ensureDirSync(hlsLocalDir);
 
-    const resolutions = [
-      { name: "720p", width: 1280, height: 720, bitrate: 2800000 },
-      { name: "1080p", width: 1920, height: 1080, bitrate: 5000000 },
-    ];
+    // Pick renditions from the probed source so we never upscale or distort
+    const resolutions = buildEncodingLadder(probe.mediaInfo, allowedRenditions);
+
+    // Like posters, scrubbing previews are optional
+    let previewThumbnailsKey: string | undefined;
+    try {
+      previewThumbnailsKey = await generatePreviewThumbnails(videoLocalPath, probe, hlsLocalDir, hlsBaseDir);
+    } catch (error) {
+      console.warn(`Skipping preview thumbnails for video ${videoId}:`, error);
+    }
+    console.log(`Encoding ladder: ${resolutions.map((res) => `${res.name} (${res.width}x${res.height})`).join(", ")}`);
 
     let masterPlaylist = "#EXTM3U\n#EXT-X-VERSION:3\n";
 
-    for (const res of resolutions) {
+    for (const [renditionIndex, res] of resolutions.entries()) {
+      const reportProgress = (percent: number) => onProgress?.({
+        rendition: res.name,
+        renditionIndex,
+        renditionCount: resolutions.length,
+        percent: Math.max(0, Math.min(100, percent)),
+      });
+      reportProgress(0);
+
       const outputDir = path.join(hlsLocalDir, res.name);
       fs.ensureDirSync(outputDir);
 
@@ -142,12 +378,22 @@ export async function generateHLSContent(videoId: string, videoKey: string) {
       await new Promise((resolve, reject) => {
         ffmpeg(videoLocalPath)
           .outputOptions([
-            `-vf scale=${res.width}:${res.height}`,
-            "-c:v h264",
-            `-b:v ${res.bitrate}`,
-            "-c:a aac",
-            "-ar 48000",
-            "-ac 2",
+            `-vf scale=${res.width}:${res.height}:flags=lanczos,setsar=1`,
+            "-c:v libx264",
+            "-profile:v main",
+            // Match the level the master playlist advertises for this rendition
+            `-level ${res.h264Level}`,
+            "-preset veryfast",
+            `-b:v ${res.videoBitrate}`,
+            `-maxrate ${res.maxBitrate}`,
+            `-bufsize ${res.bufferSize}`,
+            ...(res.frameRate ? [`-r ${res.frameRate}`] : []),
+            // Keyframe at every segment boundary so renditions switch cleanly
+            `-force_key_frames expr:gte(t,n_forced*${chunkDuration})`,
+            "-sc_threshold 0",
+            ...(res.audioBitrate
+              ? ["-c:a aac", `-b:a ${res.audioBitrate}`, "-ar 48000", "-ac 2"]
+              : ["-an"]),
             "-f hls",
             `-hls_time ${chunkDuration}`,
             "-hls_playlist_type vod",
@@ -159,9 +405,13 @@ export async function generateHLSContent(videoId: string, videoKey: string) {
           })
           .on("progress", (progress) => {
             console.log(`FFmpeg progress: ${JSON.stringify(progress)}`);
+            if (typeof progress.percent === "number") {
+              reportProgress(progress.percent);
+            }
           })
           .on("end", () => {
             console.log(`HLS generation for ${res.name} completed successfully`);
+            reportProgress(100);
             resolve(true);
           })
           .on("error", (err, stdout, stderr) => {
@@ -173,46 +423,52 @@ export async function generateHLSContent(videoId: string, videoKey: string) {
           .run();
       });
 
-      // Upload segments to S3
+      // Upload segments to storage
       const segmentFiles = fs.readdirSync(outputDir).filter(f => f.endsWith(".ts"));
       console.log(`Uploading ${segmentFiles.length} segments for ${res.name}...`);
       
       for (const segment of segmentFiles) {
         const localSegmentPath = path.join(outputDir, segment);
         const s3SegmentKey = `${hlsBaseDir}/${res.name}/${segment}`;
-        await uploadToS3(localSegmentPath, s3SegmentKey, "video/MP2T");
+        await uploadToStorage(localSegmentPath, s3SegmentKey, "video/MP2T");
       }
 
       // Upload the playlist itself
-      await uploadToS3(playlistPath, s3PlaylistKey, "application/vnd.apple.mpegurl");
+      await uploadToStorage(playlistPath, s3PlaylistKey, "application/vnd.apple.mpegurl");
 
       // Add this resolution to the master playlist
-      masterPlaylist += `#EXT-X-STREAM-INF:BANDWIDTH=${res.bitrate},RESOLUTION=${res.width}x${res.height}\n${res.name}/playlist.m3u8\n`;
+      masterPlaylist += `${getStreamInfTag(res)}\n${res.name}/playlist.m3u8\n`;
     }
 
     // Upload the master playlist
     const masterKey = `${hlsBaseDir}/master.m3u8`;
     const masterPath = path.join(hlsLocalDir, "master.m3u8");
     fs.writeFileSync(masterPath, masterPlaylist);
-    await uploadToS3(masterPath, masterKey, "application/vnd.apple.mpegurl");
-
-    // Clean up temp files
-    try {
-      fs.removeSync(tempDir);
-      console.log(`Cleaned up temporary directory ${tempDir}`);
-    } catch (error: unknown) {
-      // Handle the cleanup error with proper type checking
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'Unknown error';
-      console.warn(`Warning: Failed to clean up temp directory: ${errorMessage}`);
-      // Continue execution even if cleanup fails
-    }
+    await uploadToStorage(masterPath, masterKey, "application/vnd.apple.mpegurl");
 
     console.log("HLS content generated successfully. Master playlist key:", masterKey);
-    return hlsBaseDir;
+    return {
+      hlsKey: hlsBaseDir,
+      renditions: resolutions.map((res) => res.name),
+      previewThumbnailsKey,
+    };
   } catch (error) {
     console.error("Error generating HLS content:", error);
     throw error;
+  } finally {
+    // Clean up temp files
+    if (tempDir) {
+      try {
+        await fs.remove(tempDir);
+        console.log(`Cleaned up temporary directory ${tempDir}`);
+      } catch (error: unknown) {
+        // Handle the cleanup error with proper type checking
+        const errorMessage = error instanceof Error 
+          ? error.message 
+          : 'Unknown error';
+        console.warn(`Warning: Failed to clean up temp directory: ${errorMessage}`);
+        // Continue execution even if cleanup fails
+      }
+    }
   }
 }
\ No newline at end of file
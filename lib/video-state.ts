@@ -0,0 +1,92 @@
+// src/lib/video-state.ts
+// The processing → ready | error transitions every transcoder reports
+// through, whether it runs in the worker (ffmpeg), reports by webhook (Mux)
+// or calls back from another machine (remote). Reports only apply while the
+// video is still processing, so a late or repeated one can't undo a newer state.
+import { randomUUID } from "crypto";
+import connectToDatabase from "@/lib/mongodb";
+import { Video, IMediaInfo, IProcessingProgress, TranscoderName } from "@/models/video";
+
+export type ReadyFields = {
+  hlsKey?: string;
+  renditions?: string[];
+  resolution?: string;
+  previewThumbnailsKey?: string;
+  duration?: number;
+  mediaInfo?: IMediaInfo;
+  thumbnailKey?: string;
+  thumbnailUrl?: string;
+  muxAssetId?: string;
+  muxPlaybackId?: string;
+  muxPlaybackPolicy?: "public" | "signed";
+};
+
+/**
+ * Hand a video to a transcoder, clearing anything an earlier attempt left.
+ * Returns the new attempt's ID, which reports for earlier attempts won't match.
+ */
+export async function startProcessing(videoId: string, transcoder: TranscoderName): Promise<string> {
+  await connectToDatabase();
+
+  const transcodeAttemptId = randomUUID();
+
+  await Video.findByIdAndUpdate(videoId, {
+    status: "processing",
+    transcoder,
+    transcodeAttemptId,
+    $unset: { processingError: "", processingProgress: "" },
+  });
+
+  return transcodeAttemptId;
+}
+
+/**
+ * Record how far along a transcode is
+ */
+export async function updateProcessingProgress(videoId: string, processingProgress: IProcessingProgress) {
+  await connectToDatabase();
+
+  await Video.updateOne({ _id: videoId, status: "processing" }, { processingProgress });
+}
+
+// With an attempt ID, only that attempt may settle the video; a reclaimed
+// job's stale first attempt is superseded by the retry
+const processingFilter = (videoId: string, attemptId?: string) => ({
+  _id: videoId,
+  status: "processing",
+  ...(attemptId && { transcodeAttemptId: attemptId }),
+});
+
+/**
+ * Mark a video ready to play. Returns false if it was no longer processing,
+ * or was superseded by a newer attempt.
+ */
+export async function markVideoReady(videoId: string, fields: ReadyFields, attemptId?: string) {
+  await connectToDatabase();
+
+  const result = await Video.updateOne(
+    processingFilter(videoId, attemptId),
+    {
+      ...fields,
+      status: "ready",
+      $unset: { processingError: "", transcodeAttemptId: "" },
+    }
+  );
+
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Mark a video as failed. Returns false if it was no longer processing, or
+ * was superseded by a newer attempt.
+ */
+export async function markVideoFailed(videoId: string, processingError: string, attemptId?: string) {
+  await connectToDatabase();
+
+  const result = await Video.updateOne(
+    processingFilter(videoId, attemptId),
+    { status: "error", processingError, $unset: { transcodeAttemptId: "" } }
+  );
+
+  return result.modifiedCount === 1;
+}
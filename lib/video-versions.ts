@@ -0,0 +1,100 @@
+// src/lib/video-versions.ts
+import { Types } from "mongoose";
+import { Video, IVideo } from "@/models/video";
+import Comment, { IComment } from "@/models/comment";
+
+/**
+ * Work out where a new upload sits in its parent's version stack, starting
+ * the stack on the parent if this is its first new version
+ */
+export async function getNextVersion(parent: IVideo) {
+  const versionGroupId = parent.versionGroupId || parent._id.toString();
+
+  if (!parent.versionGroupId) {
+    await Video.findByIdAndUpdate(parent._id, { versionGroupId });
+  }
+
+  const newest = await Video.findOne({ versionGroupId }).sort({ versionNumber: -1 });
+
+  return {
+    versionGroupId,
+    versionNumber: (newest?.versionNumber ?? 1) + 1,
+  };
+}
+
+/**
+ * Copy the open threads of one version onto another. Resolved threads stay
+ * behind with the version they were raised on.
+ */
+async function carryForwardComments(from: IVideo, to: IVideo) {
+  const threads = await Comment.find({ videoId: from._id.toString(), parentId: null, resolved: false })
+    .lean<IComment[]>();
+
+  if (threads.length === 0) return 0;
+
+  const replies = await Comment.find({ parentId: { $in: threads.map((thread) => thread._id.toString()) } })
+    .lean<IComment[]>();
+
+  const newIds = new Map(threads.map((thread) => [thread._id.toString(), new Types.ObjectId()]));
+
+  const copy = (comment: IComment) => ({
+    videoId: to._id.toString(),
+    workspaceId: to.workspaceId,
+    authorId: comment.authorId,
+    body: comment.body,
+    timecodeIn: comment.timecodeIn,
+    timecodeOut: comment.timecodeOut,
+    annotations: comment.annotations,
+    editedAt: comment.editedAt,
+    carriedFromId: comment._id.toString(),
+    carriedFromVersion: from.versionNumber ?? 1,
+    createdAt: comment.createdAt,
+  });
+
+  await Comment.insertMany([
+    ...threads.map((thread) => ({ ...copy(thread), _id: newIds.get(thread._id.toString()) })),
+    ...replies.map((reply) => ({ ...copy(reply), parentId: newIds.get(reply.parentId!)!.toString() })),
+  ]);
+
+  return threads.length;
+}
+
+/**
+ * Make an uploaded version the one that's listed for its stack and bring the
+ * previous version's open comments along with it. Returns how many threads
+ * were carried over.
+ */
+export async function promoteVersion(videoId: string) {
+  const video = await Video.findById(videoId);
+
+  if (!video?.versionGroupId) return 0;
+
+  const previous = await Video.findOne({
+    versionGroupId: video.versionGroupId,
+    isLatestVersion: { $ne: false },
+    _id: { $ne: video._id },
+  });
+
+  await Video.updateMany(
+    { versionGroupId: video.versionGroupId, _id: { $ne: video._id } },
+    { isLatestVersion: false }
+  );
+  await Video.findByIdAndUpdate(video._id, { isLatestVersion: true });
+
+  return previous ? carryForwardComments(previous, video) : 0;
+}
+
+/**
+ * When the listed version of a stack is deleted, list the newest remaining
+ * version in its place
+ */
+export async function promoteNewestRemainingVersion(versionGroupId: string) {
+  const newest = await Video.findOne({
+    versionGroupId,
+    status: { $ne: "uploading" },
+  }).sort({ versionNumber: -1 });
+
+  if (newest) {
+    await Video.findByIdAndUpdate(newest._id, { isLatestVersion: true });
+  }
+}
@@ -0,0 +1,160 @@
+// src/lib/webhook-events.ts
+// Event store shared by the webhook routes. Each delivery is recorded under
+// the provider's event ID and applied at most once, and failed events keep
+// their payload so they can be replayed.
+import Stripe from "stripe";
+import connectToDatabase from "@/lib/mongodb";
+import { handleStripeEvent } from "@/lib/stripe-webhook";
+import { handleClerkEvent, ClerkWebhookEvent } from "@/lib/clerk-webhook";
+import { handleMuxEvent, MuxWebhookEvent } from "@/lib/mux-webhook";
+import WebhookEvent, { IWebhookEvent, WebhookEventStatus, WebhookProvider } from "@/models/webhook-event";
+
+// A handler that hasn't finished in this long is assumed to have crashed,
+// and the next delivery or a replay may take the event over
+const PROCESSING_LEASE_MS = 5 * 60 * 1000;
+
+const handlers: Record<WebhookProvider, (payload: Record<string, unknown>) => Promise<void>> = {
+  stripe: (payload) => handleStripeEvent(payload as unknown as Stripe.Event),
+  clerk: (payload) => handleClerkEvent(payload as unknown as ClerkWebhookEvent),
+  mux: (payload) => handleMuxEvent(payload as unknown as MuxWebhookEvent),
+};
+
+export type WebhookResult = "processed" | "duplicate";
+
+/**
+ * Another delivery of the same event is being handled right now. Answer with
+ * a non-2xx status so the provider tries again later.
+ */
+export class WebhookInProgressError extends Error {
+  constructor(provider: WebhookProvider, eventId: string) {
+    super(`${provider} event ${eventId} is already being processed`);
+    this.name = "WebhookInProgressError";
+  }
+}
+
+// Events that failed, or whose handler has outlived its lease, may be taken over
+const claimableFilter = () => ({
+  $or: [{ status: "failed" }, { status: "processing", lockedUntil: { $lt: new Date() } }],
+});
+
+const claimUpdate = () => ({
+  $set: { status: "processing", lockedUntil: new Date(Date.now() + PROCESSING_LEASE_MS) },
+  $inc: { attempts: 1 },
+});
+
+/**
+ * Run an event's handler and record how it went. Handler errors are rethrown
+ * after the event is marked failed.
+ */
+async function runEvent(event: IWebhookEvent) {
+  try {
+    await handlers[event.provider](event.payload);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error handling ${event.provider} event ${event.eventId} (${event.type}):`, errorMessage);
+
+    await WebhookEvent.updateOne(
+      { _id: event._id },
+      { $set: { status: "failed", lastError: errorMessage, failedAt: new Date() }, $unset: { lockedUntil: "" } }
+    );
+    throw error;
+  }
+
+  await WebhookEvent.updateOne(
+    { _id: event._id },
+    { $set: { status: "processed", processedAt: new Date() }, $unset: { lockedUntil: "", lastError: "" } }
+  );
+}
+
+/**
+ * Record a verified webhook delivery and apply it, unless an earlier delivery
+ * of the same event already was
+ */
+export async function processWebhookEvent(
+  provider: WebhookProvider,
+  eventId: string,
+  type: string,
+  payload: Record<string, unknown>
+): Promise<WebhookResult> {
+  await connectToDatabase();
+
+  // A retry of an event that failed or was abandoned mid-way
+  let event = await WebhookEvent.findOneAndUpdate(
+    { provider, eventId, ...claimableFilter() },
+    claimUpdate(),
+    { new: true }
+  );
+
+  if (!event) {
+    try {
+      event = await WebhookEvent.create({
+        provider,
+        eventId,
+        type,
+        payload,
+        status: "processing",
+        attempts: 1,
+        lockedUntil: new Date(Date.now() + PROCESSING_LEASE_MS),
+      });
+    } catch (error: unknown) {
+      // The unique index says we've seen it: either done or being handled now
+      if ((error as { code?: number }).code !== 11000) throw error;
+
+      const existing = await WebhookEvent.findOne({ provider, eventId }).select("status");
+      if (existing?.status === "processed") {
+        console.log(`Skipping duplicate ${provider} event ${eventId}`);
+        return "duplicate";
+      }
+      throw new WebhookInProgressError(provider, eventId);
+    }
+  }
+
+  await runEvent(event);
+  return "processed";
+}
+
+/**
+ * Run a failed event's handler again from its stored payload
+ */
+export async function replayWebhookEvent(id: string): Promise<IWebhookEvent | null> {
+  await connectToDatabase();
+
+  const event = await WebhookEvent.findOneAndUpdate(
+    { _id: id, ...claimableFilter() },
+    claimUpdate(),
+    { new: true }
+  );
+
+  if (!event) return null;
+
+  try {
+    await runEvent(event);
+  } catch {
+    // Recorded on the event by runEvent
+  }
+
+  return WebhookEvent.findById(id);
+}
+
+/**
+ * Recent webhook events, newest first, for the admin view
+ */
+export async function listWebhookEvents({
+  status,
+  provider,
+  limit = 50,
+}: {
+  status?: WebhookEventStatus;
+  provider?: WebhookProvider;
+  limit?: number;
+} = {}) {
+  await connectToDatabase();
+
+  return WebhookEvent.find({
+    ...(status ? { status } : {}),
+    ...(provider ? { provider } : {}),
+  })
+    .sort({ createdAt: -1 })
+    .limit(Math.min(limit, 200))
+    .select("-payload");
+}
@@ -0,0 +1,18 @@
+// src/lib/workspace-access.ts
+import type { IMember, IWorkspace } from "@/models/workspace";
+
+export type WorkspaceRole = "owner" | IMember["role"];
+
+/**
+ * The user's role in a workspace, or null if they don't belong to it
+ */
+export function getWorkspaceRole(
+  workspace: Pick<IWorkspace, "ownerId" | "members"> | null | undefined,
+  userId: string
+): WorkspaceRole | null {
+  if (!workspace) return null;
+  if (workspace.ownerId === userId) return "owner";
+
+  const member = workspace.members.find((member: IMember) => member.userId === userId);
+  return member ? member.role : null;
+}
@@ -4,7 +4,12 @@ const isPublicRoute = createRouteMatcher([
     // "/",
     "/sign-in(.*)", // Changed from "/sign-in" to "/sign-in(.*)"
     "/sign-up(.*)", // Also update sign-up for consistency
-    "/api/webhooks/clerk"])
+    // Stripe, Clerk and Mux authenticate with signatures, not sessions
+    "/api/webhooks(.*)",
+    // Local storage URLs carry their own HMAC signature
+    "/api/storage(.*)",
+    // The remote transcoder authenticates with its job's token
+    "/api/transcoder(.*)"])
 
 export default clerkMiddleware(async (auth, req) => {
   if (!isPublicRoute(req)) {
@@ -0,0 +1,70 @@
+// src/models/comment.ts
+import mongoose, { Schema, Document, Types } from 'mongoose';
+
+export type AnnotationTool = 'freehand' | 'arrow' | 'rect' | 'text';
+
+export interface IAnnotationPoint {
+  x: number; // 0-1, fraction of the video width
+  y: number; // 0-1, fraction of the video height
+}
+
+export interface IAnnotationShape {
+  type: AnnotationTool;
+  color: string;
+  // Freehand: the stroke; arrow: tail then head; rect: two opposite corners; text: anchor
+  points: IAnnotationPoint[];
+  text?: string;
+}
+
+export interface IComment extends Document {
+  _id: Types.ObjectId;
+  videoId: string;
+  workspaceId: string;
+  authorId: string;
+  body: string;
+  timecodeIn?: number; // Seconds into the video; replies inherit their parent's
+  timecodeOut?: number; // Optional end of a range comment
+  parentId?: string; // Set on replies; threads are one level deep
+  annotations?: IAnnotationShape[]; // Drawn on the frame at timecodeIn
+  carriedFromId?: string; // The comment this was copied from when a new version was uploaded
+  carriedFromVersion?: number;
+  resolved: boolean;
+  resolvedById?: string;
+  resolvedAt?: Date;
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CommentSchema: Schema = new Schema(
+  {
+    videoId: { type: String, required: true },
+    workspaceId: { type: String, required: true },
+    authorId: { type: String, required: true },
+    body: { type: String, required: true, maxlength: 2000 },
+    timecodeIn: { type: Number, min: 0 },
+    timecodeOut: { type: Number, min: 0 },
+    parentId: { type: String },
+    annotations: [{
+      _id: false,
+      type: { type: String, enum: ['freehand', 'arrow', 'rect', 'text'], required: true },
+      color: { type: String, required: true },
+      points: [{ _id: false, x: { type: Number }, y: { type: Number } }],
+      text: { type: String, maxlength: 200 },
+    }],
+    carriedFromId: { type: String },
+    carriedFromVersion: { type: Number },
+    resolved: { type: Boolean, default: false },
+    resolvedById: { type: String },
+    resolvedAt: { type: Date },
+    editedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// Comments are listed per video in timeline order
+CommentSchema.index({ videoId: 1, timecodeIn: 1, createdAt: 1 });
+CommentSchema.index({ parentId: 1 });
+CommentSchema.index({ workspaceId: 1 });
+
+export default mongoose.models.Comment || mongoose.model<IComment>('Comment', CommentSchema);
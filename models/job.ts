@@ -0,0 +1,65 @@
+// src/models/job.ts
+import { Schema, model, models, Model, Document, Types } from 'mongoose';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'dead';
+
+export interface IJob extends Document {
+  _id: Types.ObjectId;
+  type: string;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  dedupeKey?: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy?: string;
+  lockedUntil?: Date;
+  /** Fresh for every claim, so a worker whose lease lapsed can't touch the next attempt */
+  leaseToken?: string;
+  lastError?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>(
+  {
+    type: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, default: {} },
+    status: {
+      type: String,
+      enum: ['queued', 'running', 'completed', 'dead'],
+      default: 'queued',
+      required: true,
+    },
+    dedupeKey: { type: String },
+    attempts: { type: Number, default: 0 },
+    maxAttempts: { type: Number, default: 3 },
+    runAt: { type: Date, default: Date.now, required: true },
+    lockedBy: { type: String },
+    lockedUntil: { type: Date },
+    leaseToken: { type: String },
+    lastError: { type: String },
+    startedAt: { type: Date },
+    completedAt: { type: Date },
+    failedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+// Claiming scans queued jobs by type and due time
+JobSchema.index({ status: 1, type: 1, runAt: 1 });
+// Lease recovery scans running jobs whose lease has lapsed
+JobSchema.index({ status: 1, lockedUntil: 1 });
+// At most one queued or running job per dedupe key, so concurrent enqueues
+// can't both insert
+JobSchema.index(
+  { dedupeKey: 1 },
+  { unique: true, partialFilterExpression: { status: { $in: ['queued', 'running'] } } }
+);
+
+export const Job: Model<IJob> = models.Job || model<IJob>('Job', JobSchema);
+
+export default Job;
@@ -0,0 +1,44 @@
+// src/models/storage-record.ts
+import { Schema, model, models, Model, Document, Types } from 'mongoose';
+
+export type StorageKind = 'source' | 'hls' | 'thumbnail';
+
+/**
+ * Bytes one video keeps in S3 for one kind of object. Workspace and owner
+ * usage are sums over these records.
+ */
+export interface IStorageRecord extends Document {
+  _id: Types.ObjectId;
+  videoId: string;
+  workspaceId: string;
+  kind: StorageKind;
+  bytes: number;
+  objectCount: number;
+  measuredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const StorageRecordSchema = new Schema<IStorageRecord>(
+  {
+    videoId: { type: String, required: true },
+    workspaceId: { type: String, required: true },
+    kind: {
+      type: String,
+      enum: ['source', 'hls', 'thumbnail'],
+      required: true,
+    },
+    bytes: { type: Number, required: true, min: 0 },
+    objectCount: { type: Number, default: 0 },
+    measuredAt: { type: Date, required: true },
+  },
+  { timestamps: true }
+);
+
+StorageRecordSchema.index({ videoId: 1, kind: 1 }, { unique: true });
+StorageRecordSchema.index({ workspaceId: 1 });
+
+export const StorageRecord: Model<IStorageRecord> =
+  models.StorageRecord || model<IStorageRecord>('StorageRecord', StorageRecordSchema);
+
+export default StorageRecord;
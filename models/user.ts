@@ -1,23 +1,74 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type SubscriptionPlan = 'free' | 'pro';
+
+// Mirrors Stripe's subscription statuses, plus 'none' for users who never subscribed
+export type SubscriptionStatus =
+  | 'none'
+  | 'trialing'
+  | 'active'
+  | 'past_due'
+  | 'canceled'
+  | 'unpaid'
+  | 'incomplete'
+  | 'incomplete_expired'
+  | 'paused';
+
+/**
+ * The user's billing state as last seen from Stripe. Only lib/subscription-sync.ts
+ * writes this; everything else reads it through lib/UserMembership.
+ */
+export interface ISubscription {
+  plan: SubscriptionPlan;
+  status: SubscriptionStatus;
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  /** When this was last synced from Stripe */
+  syncedAt?: Date;
+}
+
 export interface IUser extends Document {
   clerkId: string;
   email: string;
   name: string;
   profileImage?: string;
+  subscription: ISubscription;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const SubscriptionSchema = new Schema<ISubscription>(
+  {
+    plan: { type: String, enum: ['free', 'pro'], default: 'free' },
+    status: {
+      type: String,
+      enum: ['none', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'incomplete', 'incomplete_expired', 'paused'],
+      default: 'none',
+    },
+    currentPeriodEnd: { type: Date },
+    cancelAtPeriodEnd: { type: Boolean, default: false },
+    stripeCustomerId: { type: String },
+    stripeSubscriptionId: { type: String },
+    syncedAt: { type: Date },
+  },
+  { _id: false }
+);
+
 const UserSchema: Schema = new Schema(
   {
     clerkId: { type: String, required: true, unique: true },
     email: { type: String, required: true, unique: true },
     name: { type: String, required: true },
     profileImage: { type: String },
+    subscription: { type: SubscriptionSchema, default: () => ({}) },
   },
   { timestamps: true }
 );
 
+// Webhooks look users up by their Stripe customer
+UserSchema.index({ 'subscription.stripeCustomerId': 1 }, { sparse: true });
+
 // Prevent mongoose error by checking if model already exists
-export default mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
\ No newline at end of file
+export default mongoose.models.User || mongoose.model<IUser>('User', UserSchema);
@@ -1,6 +1,52 @@
 // src/models/video.ts
 import mongoose, { Schema, model, models, Model, Document, Types } from 'mongoose';
 
+export interface IRenditionProgress {
+  name: string;
+  percent: number;
+}
+
+export interface IProcessingProgress {
+  percent: number;
+  currentRendition?: string;
+  renditions: IRenditionProgress[];
+  etaSeconds?: number;
+  startedAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface IMediaInfo {
+  container?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number;
+  audioChannels?: number;
+  rotation?: number;
+}
+
+export interface IThumbnailCandidate {
+  key: string;
+  timestamp: number;
+}
+
+export type TranscoderName = 'ffmpeg' | 'mux' | 'remote';
+
+export type ReviewStatus = 'draft' | 'in_review' | 'changes_requested' | 'approved';
+
+export type ReviewAction = 'submitted' | 'approved' | 'changes_requested' | 'reopened' | 'reviewers_updated';
+
+export interface IReviewEvent {
+  userId: string;
+  action: ReviewAction;
+  fromStatus: ReviewStatus;
+  toStatus: ReviewStatus;
+  note?: string;
+  createdAt: Date;
+}
+
 export interface IVideo extends Document {
   _id: Types.ObjectId;  // Explicitly define the _id type
   title: string;
@@ -9,18 +55,44 @@ export interface IVideo extends Document {
   uploadedById: string;
   fileName: string;
   fileSize: number;
-  uploadId: string;
-  s3Key: string;
+  /** S3 multipart upload ID; not set for videos processed by Mux */
+  uploadId?: string;
+  /** S3 key of the source file; not set for videos processed by Mux */
+  s3Key?: string;
   videoKey?: string;
   hlsKey?: string;
   duration?: number;
+  mediaInfo?: IMediaInfo;
   thumbnailUrl?: string;
+  thumbnailKey?: string;
+  thumbnailTimestamp?: number;
+  thumbnailCandidates?: IThumbnailCandidate[];
+  previewThumbnailsKey?: string;
   status: 'uploading' | 'processing' | 'ready' | 'error';
   processingError?: string;
+  processingProgress?: IProcessingProgress;
+  transcoder?: TranscoderName;
+  transcodeAttemptId?: string;
   uploadCompletedAt?: Date;
-  resolution?: '720p' | '1080p';
+  resolution?: string;
+  renditions?: string[];
   viewCount: number;
-  chunkParts?: Array<{ ETag: string, PartNumber: number }>;
+  versionGroupId?: string;
+  versionNumber: number;
+  isLatestVersion: boolean;
+  reviewStatus: ReviewStatus;
+  reviewerIds: string[];
+  approvedByIds: string[];
+  reviewHistory: IReviewEvent[];
+  reviewVersion: number;
+  chunkParts?: Array<{ ETag: string, PartNumber: number, Size?: number, ChecksumSHA256?: string }>;
+  chunkSize?: number;
+  fileFingerprint?: string;
+  checksumSHA256?: string;
+  muxAssetId?: string;
+  muxPlaybackId?: string;
+  muxPlaybackPolicy?: 'public' | 'signed';
+  uploadthingKey?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,12 +105,34 @@ const VideoSchema = new Schema<IVideo>(
     uploadedById: { type: String, required: true },
     fileName: { type: String, required: true },
     fileSize: { type: Number, required: true },
-    uploadId: { type: String, required: true },
-    s3Key: { type: String, required: true },
+    // Uploads through UploadThing are stored and transcoded by Mux instead of S3
+    uploadId: { type: String, required: function (this: IVideo) { return !this.muxAssetId && !this.uploadthingKey; } },
+    s3Key: { type: String, required: function (this: IVideo) { return !this.muxAssetId && !this.uploadthingKey; } },
     videoKey: { type: String },
     hlsKey: { type: String },
     duration: { type: Number },
+    mediaInfo: {
+      container: { type: String },
+      width: { type: Number },
+      height: { type: Number },
+      frameRate: { type: Number },
+      videoCodec: { type: String },
+      audioCodec: { type: String },
+      bitrate: { type: Number },
+      audioChannels: { type: Number },
+      rotation: { type: Number },
+    },
     thumbnailUrl: { type: String },
+    // S3 key of the poster frame, chosen from the candidates or a custom timestamp
+    thumbnailKey: { type: String },
+    thumbnailTimestamp: { type: Number },
+    thumbnailCandidates: [{
+      _id: false,
+      key: { type: String },
+      timestamp: { type: Number },
+    }],
+    // WebVTT track of scrubbing preview sprites, stored beside the HLS output
+    previewThumbnailsKey: { type: String },
     status: { 
       type: String, 
       enum: ['uploading', 'processing', 'ready', 'error'],
@@ -46,17 +140,77 @@ const VideoSchema = new Schema<IVideo>(
       required: true 
     },
     processingError: { type: String },
-    uploadCompletedAt: { type: Date },
-    resolution: { 
-      type: String, 
-      enum: ['720p', '1080p'],
-      default: '720p',
+    processingProgress: {
+      percent: { type: Number, default: 0 },
+      currentRendition: { type: String },
+      renditions: [{
+        _id: false,
+        name: { type: String },
+        percent: { type: Number },
+      }],
+      etaSeconds: { type: Number },
+      startedAt: { type: Date },
+      updatedAt: { type: Date },
     },
+    // Backend that produced (or is producing) the renditions
+    transcoder: { type: String, enum: ['ffmpeg', 'mux', 'remote'] },
+    // Identifies the current transcode, so remote callbacks for an earlier attempt are refused
+    transcodeAttemptId: { type: String },
+    uploadCompletedAt: { type: Date },
+    // Highest rendition produced by the encoding ladder
+    resolution: { type: String },
+    renditions: [{ type: String }],
     viewCount: { type: Number, default: 0 },
+    // Versions of the same video share the _id of the first upload as their group
+    versionGroupId: { type: String },
+    versionNumber: { type: Number, default: 1 },
+    // Only the latest version of a stack is listed; new versions take over once uploaded
+    isLatestVersion: { type: Boolean, default: true },
+    reviewStatus: {
+      type: String,
+      enum: ['draft', 'in_review', 'changes_requested', 'approved'],
+      default: 'draft',
+      required: true
+    },
+    // Workspace members asked to sign off on the current round
+    reviewerIds: [{ type: String }],
+    // Reviewers who approved the current round; cleared on each submission
+    approvedByIds: [{ type: String }],
+    reviewHistory: [{
+      _id: false,
+      userId: { type: String, required: true },
+      action: {
+        type: String,
+        enum: ['submitted', 'approved', 'changes_requested', 'reopened', 'reviewers_updated'],
+        required: true
+      },
+      fromStatus: { type: String },
+      toStatus: { type: String },
+      note: { type: String, maxlength: 2000 },
+      createdAt: { type: Date, default: Date.now },
+    }],
+    // Bumped by every review transition so concurrent ones can't both apply
+    reviewVersion: { type: Number, default: 0 },
     chunkParts: [{ 
       ETag: { type: String },
-      PartNumber: { type: Number }
+      PartNumber: { type: Number },
+      Size: { type: Number },
+      ChecksumSHA256: { type: String }
     }],
+    // Part size the upload was started with, so a resumed upload splits the file the same way
+    chunkSize: { type: Number },
+    // Identifies the source file (name, size, modified time) to find an upload to resume
+    fileFingerprint: { type: String },
+    // S3 composite checksum of the uploaded file (SHA-256 of the part checksums),
+    // verified on completion and used to spot the same file uploaded twice
+    checksumSHA256: { type: String },
+    // Mux asset and playback ID when Mux processed the video instead of the worker
+    muxAssetId: { type: String },
+    muxPlaybackId: { type: String },
+    // Only signed playback IDs can enforce the plan's resolution cap; unset means public
+    muxPlaybackPolicy: { type: String, enum: ['public', 'signed'] },
+    // UploadThing file Mux ingested the source from
+    uploadthingKey: { type: String },
   },
   { timestamps: true }
 );
@@ -65,7 +219,15 @@ const VideoSchema = new Schema<IVideo>(
 VideoSchema.index({ workspaceId: 1 });
 VideoSchema.index({ uploadedById: 1 });
 VideoSchema.index({ status: 1 });
+VideoSchema.index({ muxAssetId: 1 }, { sparse: true });
+VideoSchema.index({ workspaceId: 1, reviewStatus: 1 });
+VideoSchema.index(
+  { versionGroupId: 1, versionNumber: 1 },
+  { unique: true, partialFilterExpression: { versionGroupId: { $exists: true } } }
+);
 VideoSchema.index({ uploadId: 1 });
+VideoSchema.index({ uploadedById: 1, fileFingerprint: 1, status: 1 });
+VideoSchema.index({ workspaceId: 1, checksumSHA256: 1 });
 
 // Use existing model or create new model
 export const Video: Model<IVideo> = models.Video || model<IVideo>('Video', VideoSchema);
@@ -0,0 +1,62 @@
+// src/models/webhook-event.ts
+import { Schema, model, models, Model, Document, Types } from 'mongoose';
+
+export type WebhookProvider = 'stripe' | 'clerk' | 'mux';
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'failed';
+
+/**
+ * A verified webhook delivery, keyed by the provider's event ID so retried
+ * deliveries are applied once. The payload is kept so failed events can be
+ * replayed.
+ */
+export interface IWebhookEvent extends Document {
+  _id: Types.ObjectId;
+  provider: WebhookProvider;
+  eventId: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  payload: Record<string, unknown>;
+  lastError?: string;
+  /** While processing, when another delivery may take the event over */
+  lockedUntil?: Date;
+  processedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const WebhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    provider: {
+      type: String,
+      enum: ['stripe', 'clerk', 'mux'],
+      required: true,
+    },
+    eventId: { type: String, required: true },
+    type: { type: String, required: true },
+    status: {
+      type: String,
+      enum: ['processing', 'processed', 'failed'],
+      default: 'processing',
+      required: true,
+    },
+    attempts: { type: Number, default: 0 },
+    payload: { type: Schema.Types.Mixed, required: true },
+    lastError: { type: String },
+    lockedUntil: { type: Date },
+    processedAt: { type: Date },
+    failedAt: { type: Date },
+  },
+  { timestamps: true }
+);
+
+WebhookEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+// The admin list shows failed events newest first
+WebhookEventSchema.index({ status: 1, createdAt: -1 });
+
+export const WebhookEvent: Model<IWebhookEvent> =
+  models.WebhookEvent || model<IWebhookEvent>('WebhookEvent', WebhookEventSchema);
+
+export default WebhookEvent;
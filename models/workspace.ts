@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Types } from 'mongoose';
+import type { TranscoderName } from '@/models/video';
 
 export interface IMember {
   userId: string;
@@ -13,6 +14,8 @@ export interface IWorkspace extends Document {
   description?: string;
   ownerId: string;
   members: IMember[];
+  requiredApprovals: number;
+  transcoder?: TranscoderName;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,6 +38,10 @@ const WorkspaceSchema: Schema = new Schema(
     description: { type: String },
     ownerId: { type: String, required: true },
     members: [MemberSchema],
+    // Approvals a video needs before its review is marked approved
+    requiredApprovals: { type: Number, default: 1, min: 1 },
+    // Transcoding backend for new uploads; unset follows the TRANSCODER env var
+    transcoder: { type: String, enum: ['ffmpeg', 'mux', 'remote'] },
   },
   { timestamps: true }
 );
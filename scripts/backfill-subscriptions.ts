@@ -0,0 +1,22 @@
+// src/scripts/backfill-subscriptions.ts
+// One-off: `npm run backfill:subscriptions` after deploying User.subscription.
+// Customers from before it only have the legacy top-level Stripe fields and
+// are treated as Free until their subscription is synced from Stripe.
+import { loadEnvConfig } from "@next/env";
+
+// Load .env files before anything that reads process.env at import time
+loadEnvConfig(process.cwd());
+
+async function main() {
+  const { backfillLegacySubscriptions } = await import("@/lib/subscription-sync");
+
+  const { checked, changed, failed } = await backfillLegacySubscriptions();
+  console.log(`Subscription backfill: checked ${checked}, synced ${changed}, failed ${failed}`);
+
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Subscription backfill crashed:", error);
+  process.exit(1);
+});
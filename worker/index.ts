@@ -0,0 +1,152 @@
+// src/worker/index.ts
+// Standalone background worker: `npm run worker`
+import os from "os";
+import { loadEnvConfig } from "@next/env";
+
+// Load .env files the same way `next dev` / `next start` do, before anything
+// that reads process.env at import time (e.g. lib/mongodb.ts)
+loadEnvConfig(process.cwd());
+
+const LEASE_MS = Number(process.env.WORKER_LEASE_MS) || 60 * 1000;
+const POLL_INTERVAL_MS = Number(process.env.WORKER_POLL_INTERVAL_MS) || 5 * 1000;
+const RECOVERY_INTERVAL_MS = 60 * 1000;
+const CLEANUP_INTERVAL_MS = Number(process.env.WORKER_CLEANUP_INTERVAL_MS) || 60 * 60 * 1000;
+const RECONCILE_INTERVAL_MS = Number(process.env.WORKER_RECONCILE_INTERVAL_MS) || 24 * 60 * 60 * 1000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+
+let shuttingDown = false;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function main() {
+  const {
+    claimNextJob,
+    completeJob,
+    enqueueJob,
+    failJob,
+    heartbeatJob,
+    recoverStaleJobs,
+    PermanentJobError,
+  } = await import("@/lib/job-queue");
+  const { jobHandlers: videoJobHandlers } = await import("@/lib/video-jobs");
+  const { UPLOAD_CLEANUP_JOB, uploadCleanupJobHandler } = await import("@/lib/upload-janitor");
+  const { SUBSCRIPTION_RECONCILE_JOB, subscriptionReconcileJobHandler } = await import("@/lib/subscription-sync");
+
+  const jobHandlers: typeof videoJobHandlers = {
+    ...videoJobHandlers,
+    [UPLOAD_CLEANUP_JOB]: uploadCleanupJobHandler,
+    [SUBSCRIPTION_RECONCILE_JOB]: subscriptionReconcileJobHandler,
+  };
+  const types = Object.keys(jobHandlers);
+  let lastRecoveryAt = 0;
+  let lastCleanupAt = 0;
+  let lastReconcileAt = 0;
+
+  console.log(`Worker ${workerId} started, handling: ${types.join(", ")}`);
+
+  while (!shuttingDown) {
+    // Periodically reclaim jobs abandoned by crashed workers
+    if (Date.now() - lastRecoveryAt > RECOVERY_INTERVAL_MS) {
+      lastRecoveryAt = Date.now();
+      try {
+        const deadJobs = await recoverStaleJobs(types);
+        for (const deadJob of deadJobs) {
+          await jobHandlers[deadJob.type]?.onDeadLetter?.(deadJob, deadJob.lastError || "Unknown error");
+        }
+      } catch (error) {
+        console.error("Error recovering stale jobs:", error);
+      }
+    }
+
+    // Schedule cleanup of abandoned uploads; the dedupe key keeps several
+    // workers from queueing it more than once
+    if (Date.now() - lastCleanupAt > CLEANUP_INTERVAL_MS) {
+      lastCleanupAt = Date.now();
+      try {
+        await enqueueJob(UPLOAD_CLEANUP_JOB, {}, { dedupeKey: UPLOAD_CLEANUP_JOB, maxAttempts: 1 });
+      } catch (error) {
+        console.error("Error scheduling upload cleanup:", error);
+      }
+    }
+
+    // Re-sync subscriptions from Stripe in case a webhook was missed
+    if (Date.now() - lastReconcileAt > RECONCILE_INTERVAL_MS) {
+      lastReconcileAt = Date.now();
+      try {
+        await enqueueJob(SUBSCRIPTION_RECONCILE_JOB, {}, { dedupeKey: SUBSCRIPTION_RECONCILE_JOB, maxAttempts: 1 });
+      } catch (error) {
+        console.error("Error scheduling subscription reconcile:", error);
+      }
+    }
+
+    let job;
+    try {
+      job = await claimNextJob(workerId, types, LEASE_MS);
+    } catch (error) {
+      console.error("Error claiming job:", error);
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    if (!job) {
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    const jobId = job._id.toString();
+    const handler = jobHandlers[job.type];
+    console.log(`Running ${job.type} job ${jobId} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    // Keep the lease alive while the handler runs
+    const heartbeat = setInterval(async () => {
+      try {
+        const stillLeased = await heartbeatJob(job, LEASE_MS);
+        if (!stillLeased) {
+          console.warn(`Lost lease on job ${jobId}`);
+        }
+      } catch (error) {
+        console.error(`Heartbeat failed for job ${jobId}:`, error);
+      }
+    }, Math.floor(LEASE_MS / 3));
+
+    try {
+      await handler.run(job);
+      if (await completeJob(job)) {
+        console.log(`Job ${jobId} completed`);
+      } else {
+        console.warn(`Job ${jobId} finished after its lease was lost; leaving it to its next attempt`);
+      }
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      console.error(`Job ${jobId} failed:`, errorMessage);
+
+      const failedJob = await failJob(job, errorMessage, {
+        permanent: error instanceof PermanentJobError,
+      });
+      if (failedJob?.status === "dead") {
+        console.error(`Job ${jobId} dead-lettered after ${failedJob.attempts} attempts`);
+        await handler.onDeadLetter?.(failedJob, errorMessage);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  console.log(`Worker ${workerId} stopped`);
+  process.exit(0);
+}
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, finishing current job before exit...`);
+    shuttingDown = true;
+  });
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});